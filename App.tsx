@@ -2,75 +2,277 @@ import React, { useState, useMemo, useEffect, useCallback, useRef } from 'react'
 import Header from './components/Header.tsx';
 import Footer from './components/Footer.tsx';
 import ConsumptionTable from './components/ConsumptionTable.tsx';
+import ComparisonView from './components/ComparisonView.tsx';
+import AnalyticsDashboard from './components/AnalyticsDashboard.tsx';
+import RestoreDialog from './components/RestoreDialog.tsx';
+import QuarantineNotice from './components/QuarantineNotice.tsx';
+import AuditLogViewer from './components/AuditLogViewer.tsx';
+import WorkbookExportDialog from './components/WorkbookExportDialog.tsx';
+import SiteDetailView from './components/SiteDetailView.tsx';
+import { Table2, GitCompare, BarChart3, DatabaseBackup, ArchiveRestore, Undo2, Redo2, History, FileDown, FileUp } from 'lucide-react';
 import { INITIAL_SITES } from './constants.ts';
 import { SiteData } from './types.ts';
-
-// Storage Keys
-const STORAGE_KEYS = {
-  DATA: 'saher_dashboard_data',
-  TEMPLATE: 'saher_dashboard_template',
-  ARCHIVES: 'saher_dashboard_archives'
-};
+import { migrateLegacyAttachments, stripMigratedAttachmentData, pruneOrphanAttachmentBlobs, forEachAttachment } from './utils/attachmentStore.ts';
+import { buildBudgetAlerts } from './utils/budgets.ts';
+import { Workspace, WorkspaceBackup, createBackup, parseBackup, restoreAttachmentFiles, mergeWorkspaces } from './utils/backup.ts';
+import { STORAGE_KEYS, LoadResult, loadStoredValue, loadedCleanly, isLockedResult, serializeEnvelope, listQuarantine } from './utils/storage.ts';
+import { UndoStack, HistoryStep, createUndoStack, recordChange, undo, redo, HISTORY_COALESCE_MS } from './utils/history.ts';
+import { AuditDraft, appendAuditEntries, loadAuditLog, oldestAuditEntries } from './utils/audit.ts';
+import { archiveAuditEntries } from './utils/auditArchive.ts';
+import { exportCsv, parseCsvImport, mergeCsvImport } from './utils/csv.ts';
+import { PeriodKey, normalizePeriods } from './utils/periods.ts';
+import { AppRoute, parseLocation, buildPath } from './utils/routing.ts';
+import { formatMeters } from './utils/meters.ts';
+import { carriedReading, carryReadingsForward } from './utils/readings.ts';
+
+type ViewMode = 'table' | 'dashboard' | 'comparison';
+
+const STORAGE_FULL_WARNING = "تنبيه: ذاكرة المتصفح ممتلئة. قد لا يتم حفظ التعديلات الأخيرة أو المرفقات الكبيرة.";
+
+const attachmentMigrationWarning = (count?: number) =>
+  `تنبيه: تعذر نقل ${count ? `${count} من ` : ''}المرفقات إلى قاعدة بيانات المتصفح (IndexedDB). تبقى الملفات محفوظة كما هي مع البيانات، وستُعاد المحاولة عند فتح الصفحة في المرة القادمة.`;
 
 // Helper function to deep clone the initial data so we don't modify the constant
 const getInitialData = (): SiteData[] => {
   return JSON.parse(JSON.stringify(INITIAL_SITES));
 };
 
+// Reads (and migrates) the stored workspace once on startup. Invalid data is quarantined and replaced by defaults.
+const loadInitialWorkspace = () => {
+  const template = loadStoredValue<SiteData[]>(STORAGE_KEYS.TEMPLATE, 'sites');
+  const data = loadStoredValue<Record<number, SiteData[]>>(STORAGE_KEYS.DATA, 'years');
+  const archives = loadStoredValue<Record<number, SiteData[]>>(STORAGE_KEYS.ARCHIVES, 'years');
+
+  // If invalid data could not be moved aside (e.g. storage is full), its key must not be overwritten by the auto-save
+  const results: [string, LoadResult<unknown>][] = [[STORAGE_KEYS.TEMPLATE, template], [STORAGE_KEYS.DATA, data], [STORAGE_KEYS.ARCHIVES, archives]];
+  const lockedKeys = results.filter(([, result]) => isLockedResult(result)).map(([key]) => key);
+
+  return {
+    templateSites: template.status === 'ok' ? template.value : getInitialData(),
+    dataByYear: data.status === 'ok' ? data.value : {},
+    archivesByYear: archives.status === 'ok' ? archives.value : {},
+    lockedKeys,
+    loadedCleanly: loadedCleanly(results.map(([, result]) => result))
+  };
+};
+
 function App() {
   // Set default year to current year dynamically
-  const [currentYear, setCurrentYear] = useState(new Date().getFullYear());
+  const [initialLocation] = useState(() => parseLocation(window.location.pathname));
+  const [currentYear, setCurrentYear] = useState(initialLocation.year ?? new Date().getFullYear());
+  const [route, setRoute] = useState<AppRoute>(initialLocation.route);
   const [autoSaveStatus, setAutoSaveStatus] = useState<'idle' | 'saving' | 'saved'>('idle');
+  const [viewMode, setViewMode] = useState<ViewMode>('table');
   const saveTimeoutRef = useRef<number | null>(null);
   const isMounted = useRef(false);
+  const restoreInputRef = useRef<HTMLInputElement>(null);
+  const csvInputRef = useRef<HTMLInputElement>(null);
+  const [isBackingUp, setIsBackingUp] = useState(false);
+  const [showWorkbookExport, setShowWorkbookExport] = useState(false);
+  const [pendingRestore, setPendingRestore] = useState<{ fileName: string; backup: WorkspaceBackup } | null>(null);
   
   // Update document title when year changes
   useEffect(() => {
     document.title = `نسبة استهلاك الماء والكهرباء - ساهر - ${currentYear}`;
   }, [currentYear]);
 
+  // --- Routing: the site page has its own address, so links and back / forward work ---
+  useEffect(() => {
+    const handlePopState = () => {
+      const location = parseLocation(window.location.pathname);
+      setRoute(location.route);
+      if (location.year) setCurrentYear(location.year);
+    };
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
+
+  // Every change of page or year on the site page becomes a history entry
+  useEffect(() => {
+    const path = buildPath(route, currentYear);
+    if (window.location.pathname !== path) window.history.pushState(null, '', path);
+  }, [route, currentYear]);
+
+  const showView = (mode: ViewMode) => {
+    setViewMode(mode);
+    setRoute({ page: 'main' });
+  };
+
   // State initialization with LocalStorage
-  const [templateSites, setTemplateSites] = useState<SiteData[]>(() => {
+  const [initialWorkspace] = useState(loadInitialWorkspace);
+  const [templateSites, setTemplateSites] = useState<SiteData[]>(initialWorkspace.templateSites);
+  const [dataByYear, setDataByYear] = useState<Record<number, SiteData[]>>(initialWorkspace.dataByYear);
+  const [archivesByYear, setArchivesByYear] = useState<Record<number, SiteData[]>>(initialWorkspace.archivesByYear);
+  const [quarantineEntries, setQuarantineEntries] = useState(listQuarantine);
+
+  // --- Audit log ---
+  const [auditLog, setAuditLog] = useState(loadAuditLog);
+  const [userName, setUserName] = useState(() => localStorage.getItem(STORAGE_KEYS.USER) || '');
+  const [auditTarget, setAuditTarget] = useState<{ siteId?: string } | null>(null);
+
+  // Moves the oldest entries to the IndexedDB archive once the log outgrows its localStorage share.
+  // If IndexedDB is unavailable the entries simply stay in localStorage.
+  const archivingAuditRef = useRef(false);
+  useEffect(() => {
+    const oldest = oldestAuditEntries(auditLog);
+    if (oldest.length === 0 || archivingAuditRef.current) return;
+    archivingAuditRef.current = true;
+    const archivedIds = new Set<string>(oldest.map(e => e.id));
+    archiveAuditEntries(oldest)
+      .then(() => setAuditLog(log => log.filter(e => !archivedIds.has(e.id))))
+      .catch(err => console.error("Audit Archive Error:", err))
+      .finally(() => { archivingAuditRef.current = false; });
+  }, [auditLog]);
+
+  const recordAudit = useCallback((drafts: AuditDraft[], year: number = currentYear) => {
+    setAuditLog(log => appendAuditEntries(log, drafts, { user: userName, year }));
+  }, [userName, currentYear]);
+
+  const handleUserNameChange = (name: string) => {
+    setUserName(name);
     try {
-      const saved = localStorage.getItem(STORAGE_KEYS.TEMPLATE);
-      return saved ? JSON.parse(saved) : getInitialData();
+      localStorage.setItem(STORAGE_KEYS.USER, name);
     } catch (e) {
-      console.warn("Error reading template from storage", e);
-      return getInitialData();
+      console.error("Failed to save user name", e);
     }
-  });
+  };
 
-  const [dataByYear, setDataByYear] = useState<Record<number, SiteData[]>>(() => {
+  // --- Aggregate columns (quarters, halves, year to date) ---
+  const [periodColumns, setPeriodColumns] = useState<PeriodKey[]>(() => {
     try {
-      const saved = localStorage.getItem(STORAGE_KEYS.DATA);
-      return saved ? JSON.parse(saved) : {};
-    } catch (e) {
-      console.warn("Error reading data from storage", e);
-      return {};
+      return normalizePeriods(JSON.parse(localStorage.getItem(STORAGE_KEYS.PERIOD_COLUMNS) || '[]'));
+    } catch {
+      return [];
     }
   });
 
-  const [archivesByYear, setArchivesByYear] = useState<Record<number, SiteData[]>>(() => {
+  const handlePeriodColumnsChange = (periods: PeriodKey[]) => {
+    const normalized = normalizePeriods(periods);
+    setPeriodColumns(normalized);
     try {
-      const saved = localStorage.getItem(STORAGE_KEYS.ARCHIVES);
-      return saved ? JSON.parse(saved) : {};
+      localStorage.setItem(STORAGE_KEYS.PERIOD_COLUMNS, JSON.stringify(normalized));
     } catch (e) {
-      return {};
+      console.error("Failed to save period columns", e);
     }
-  });
+  };
+
+  // --- Undo / Redo ---
+  const [undoStack, setUndoStack] = useState<UndoStack<Workspace>>(createUndoStack);
+  const lastSnapshotRef = useRef<Workspace>({ templateSites, dataByYear, archivesByYear });
+  const lastChangeAtRef = useRef(0);
+  const skipNextChangeRef = useRef(false); // Set before state updates that must not become an undo step
+
+  // Every change to the workspace, from any handler, records the previous snapshot
+  useEffect(() => {
+    const previous = lastSnapshotRef.current;
+    if (previous.templateSites === templateSites && previous.dataByYear === dataByYear && previous.archivesByYear === archivesByYear) return;
+    lastSnapshotRef.current = { templateSites, dataByYear, archivesByYear };
+
+    if (skipNextChangeRef.current) {
+      skipNextChangeRef.current = false;
+      return;
+    }
+    const now = Date.now();
+    setUndoStack(stack => recordChange(stack, { snapshot: previous, year: currentYear }, now - lastChangeAtRef.current < HISTORY_COALESCE_MS));
+    lastChangeAtRef.current = now;
+  }, [templateSites, dataByYear, archivesByYear]);
+
+  const applyHistoryStep = (result: HistoryStep<Workspace>) => {
+    if (!result) return;
+    skipNextChangeRef.current = true;
+    lastChangeAtRef.current = 0;
+    setUndoStack(result.stack);
+    setTemplateSites(result.entry.snapshot.templateSites);
+    setDataByYear(result.entry.snapshot.dataByYear);
+    setArchivesByYear(result.entry.snapshot.archivesByYear);
+    setCurrentYear(result.entry.year);
+  };
+
+  const handleUndo = useCallback(() => {
+    const result = undo(undoStack, { snapshot: lastSnapshotRef.current, year: currentYear });
+    applyHistoryStep(result);
+    if (result) recordAudit([{ action: 'undo' }], result.entry.year);
+  }, [undoStack, currentYear, recordAudit]);
+
+  const handleRedo = useCallback(() => {
+    const result = redo(undoStack, { snapshot: lastSnapshotRef.current, year: currentYear });
+    applyHistoryStep(result);
+    if (result) recordAudit([{ action: 'redo' }], result.entry.year);
+  }, [undoStack, currentYear, recordAudit]);
+
+  // Ctrl+Z / Ctrl+Y (and Ctrl+Shift+Z). Physical key codes, so it also works with the Arabic layout.
+  // Inside a text field the browser's own undo applies to the text being typed.
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const target = e.target as HTMLElement | null;
+      if (target && (['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName) || target.isContentEditable)) return;
+      if (e.code === 'KeyZ' && !e.shiftKey) {
+        e.preventDefault();
+        handleUndo();
+      } else if (e.code === 'KeyY' || (e.code === 'KeyZ' && e.shiftKey)) {
+        e.preventDefault();
+        handleRedo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [handleUndo, handleRedo]);
+
+  // One-time migration: move base64 attachments out of localStorage into IndexedDB,
+  // then delete stored files that are no longer referenced (removals are kept until now so they can be undone)
+  useEffect(() => {
+    const allSiteLists = [
+      templateSites,
+      ...Object.values(dataByYear),
+      ...Object.values(archivesByYear)
+    ];
+
+    migrateLegacyAttachments(allSiteLists).then(({ migrated, failed }) => {
+      if (failed.length > 0) alert(attachmentMigrationWarning(failed.length));
+
+      // Quarantined or unreadable data may still refer to files, so nothing is pruned while there is any
+      if (quarantineEntries.length === 0 && initialWorkspace.loadedCleanly) {
+        const referencedIds = new Set<string>();
+        allSiteLists.forEach(sites => forEachAttachment(sites, attachment => referencedIds.add(attachment.id)));
+        pruneOrphanAttachmentBlobs(referencedIds).catch(e => console.warn("Failed to prune attachment files", e));
+      }
+
+      if (migrated.size === 0) return;
+
+      const stripYears = (prev: Record<number, SiteData[]>) => {
+        const next = { ...prev };
+        Object.keys(next).forEach(key => {
+          const year = Number(key);
+          next[year] = stripMigratedAttachmentData(next[year], migrated);
+        });
+        return next;
+      };
+
+      skipNextChangeRef.current = true;
+      setTemplateSites(prev => stripMigratedAttachmentData(prev, migrated));
+      setDataByYear(stripYears);
+      setArchivesByYear(stripYears);
+    }).catch(e => {
+      // The attachments keep their inline data, so nothing is lost; it is retried on the next load
+      console.error("Failed to move attachments to IndexedDB", e);
+      alert(attachmentMigrationWarning());
+    });
+  }, []);
 
   // Safe Save Function to handle QuotaExceededError
   const saveData = useCallback((key: string, data: any) => {
+    if (initialWorkspace.lockedKeys.includes(key)) return;
     try {
-      localStorage.setItem(key, JSON.stringify(data));
+      localStorage.setItem(key, serializeEnvelope(data));
     } catch (e: any) {
       if (e.name === 'QuotaExceededError' || e.code === 22) {
-        alert("تنبيه: ذاكرة المتصفح ممتلئة. قد لا يتم حفظ التعديلات الأخيرة أو المرفقات الكبيرة.");
+        alert(STORAGE_FULL_WARNING);
       } else {
         console.error(`Failed to save ${key}`, e);
       }
     }
-  }, []);
+  }, [initialWorkspace]);
 
   // Auto-save Effect
   useEffect(() => {
@@ -85,6 +287,7 @@ function App() {
           saveData(STORAGE_KEYS.DATA, dataByYear);
           saveData(STORAGE_KEYS.TEMPLATE, templateSites);
           saveData(STORAGE_KEYS.ARCHIVES, archivesByYear);
+          saveData(STORAGE_KEYS.AUDIT, auditLog);
           setAutoSaveStatus('saved');
   
           // Show "saved" message for 1.5 seconds, then return to idle.
@@ -99,13 +302,14 @@ function App() {
       saveData(STORAGE_KEYS.DATA, dataByYear);
       saveData(STORAGE_KEYS.TEMPLATE, templateSites);
       saveData(STORAGE_KEYS.ARCHIVES, archivesByYear);
+      saveData(STORAGE_KEYS.AUDIT, auditLog);
     }
 
     // Cleanup timeout on component unmount or before the next effect runs.
     return () => {
         if (saveTimeoutRef.current) clearTimeout(saveTimeoutRef.current);
     }
-  }, [dataByYear, templateSites, archivesByYear, saveData]);
+  }, [dataByYear, templateSites, archivesByYear, auditLog, saveData]);
 
 
   // Manual Save Handler
@@ -118,6 +322,7 @@ function App() {
     saveData(STORAGE_KEYS.DATA, dataByYear);
     saveData(STORAGE_KEYS.TEMPLATE, templateSites);
     saveData(STORAGE_KEYS.ARCHIVES, archivesByYear);
+    saveData(STORAGE_KEYS.AUDIT, auditLog);
     
     // Also trigger the "Saved" status in the header for feedback
     setAutoSaveStatus('saved');
@@ -125,7 +330,106 @@ function App() {
         setAutoSaveStatus('idle');
     }, 1500);
 
-  }, [dataByYear, templateSites, archivesByYear, saveData]);
+  }, [dataByYear, templateSites, archivesByYear, auditLog, saveData]);
+
+  // --- Backup & Restore ---
+
+  const handleBackup = async () => {
+    setIsBackingUp(true);
+    try {
+      const backup = await createBackup({ templateSites, dataByYear, archivesByYear });
+      const url = URL.createObjectURL(new Blob([JSON.stringify(backup)], { type: 'application/json' }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `Saher_Backup_${new Date().toISOString().slice(0, 10)}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (e) {
+      console.error("Backup Error:", e);
+      alert("حدث خطأ أثناء إنشاء النسخة الاحتياطية.");
+    } finally {
+      setIsBackingUp(false);
+    }
+  };
+
+  const handleRestoreFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = (evt) => {
+      try {
+        setPendingRestore({ fileName: file.name, backup: parseBackup(evt.target?.result as string) });
+      } catch (err) {
+        console.error("Restore Error:", err);
+        alert(err instanceof Error ? err.message : "تعذر قراءة ملف النسخة الاحتياطية.");
+      } finally {
+        if (restoreInputRef.current) restoreInputRef.current.value = '';
+      }
+    };
+    reader.readAsText(file);
+  };
+
+  const handleRestore = async (backup: WorkspaceBackup, mode: 'replace' | 'merge') => {
+    const restoredFiles = await restoreAttachmentFiles(backup);
+    const incoming = {
+      templateSites: backup.templateSites,
+      dataByYear: backup.dataByYear,
+      archivesByYear: backup.archivesByYear
+    };
+    const next = mode === 'replace' ? incoming : mergeWorkspaces({ templateSites, dataByYear, archivesByYear }, incoming);
+
+    setTemplateSites(next.templateSites);
+    setDataByYear(next.dataByYear);
+    setArchivesByYear(next.archivesByYear);
+    recordAudit([{ action: 'backup_restore', newValue: mode === 'replace' ? 'استبدال' : 'دمج' }]);
+    alert(`تمت استعادة النسخة الاحتياطية بنجاح (${restoredFiles} مرفق).`);
+  };
+
+  // --- CSV (long format, all years) ---
+
+  const handleCsvExport = () => {
+    const url = URL.createObjectURL(new Blob([exportCsv(comparisonData)], { type: 'text/csv;charset=utf-8' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `Saher_Consumption_${new Date().toISOString().slice(0, 10)}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleCsvFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = (evt) => {
+      try {
+        const parsed = parseCsvImport(evt.target?.result as string);
+        const years = Object.keys(parsed.byYear).map(Number).sort((a, b) => a - b);
+        if (years.length === 0) {
+          alert('لم يتم العثور على بيانات صالحة.');
+          return;
+        }
+        const issues = parsed.issues.length > 0
+          ? `\n\nتم تجاهل ${parsed.issues.length} سطر:\n${parsed.issues.slice(0, 5).map(issue => `سطر ${issue.row}: ${issue.message}`).join('\n')}`
+          : '';
+        if (!window.confirm(`تم العثور على ${parsed.valueCount} قيمة للسنوات ${years.join('، ')}.${issues}\n\nدمج القيم مع البيانات الحالية؟`)) return;
+
+        const merged = mergeCsvImport(dataByYear, archivesByYear, templateSites, parsed);
+        setDataByYear(merged.dataByYear);
+        setTemplateSites(merged.templateSites);
+        years.forEach(year => recordAudit([{ action: 'import', newValue: file.name }], year));
+        const archived = merged.archivedSites > 0 ? `\n\nلم تُستورد قيم ${merged.archivedSites} موقع مؤرشف في سنته. استعد الموقع من الأرشيف ثم أعد الاستيراد.` : '';
+        alert(`تم الاستيراد: ${merged.matchedSites} موقع مطابق (${merged.updatedValues} قيمة محدثة، ${merged.addedRows} بند جديد)، و${merged.newSites} موقع جديد.${archived}`);
+      } catch (err) {
+        console.error("CSV Import Error:", err);
+        alert(err instanceof Error ? err.message : 'حدث خطأ أثناء قراءة الملف.');
+      } finally {
+        if (csvInputRef.current) csvInputRef.current.value = '';
+      }
+    };
+    reader.readAsText(file);
+  };
 
   // Get the data for the currently selected year.
   // If no data exists for this year, generate a fresh copy based on the CURRENT template.
@@ -147,16 +451,40 @@ function App() {
     return archivesByYear[currentYear] || [];
   }, [currentYear, archivesByYear]);
 
-  // Handle value updates from the table (local to the current year)
-  const handleDataChange = (newData: SiteData[]) => {
-    setDataByYear(prev => ({
-      ...prev,
-      [currentYear]: newData
-    }));
+  // Years that hold records, either active or archived
+  const yearsWithData = useMemo(() => {
+    const years = new Set<number>();
+    Object.keys(dataByYear).forEach(key => years.add(Number(key)));
+    Object.keys(archivesByYear).forEach(key => {
+      if (archivesByYear[Number(key)].length > 0) years.add(Number(key));
+    });
+    return [...years];
+  }, [dataByYear, archivesByYear]);
+
+  // Sites over, or on course to exceed, their budget for the selected year
+  const budgetAlerts = useMemo(() => buildBudgetAlerts(currentSitesData), [currentSitesData]);
+
+  // Data for the comparison and dashboard views. The selected year is always included,
+  // even before it has been edited (it then reflects the template).
+  const comparisonData = useMemo(() => ({
+    ...dataByYear,
+    [currentYear]: currentSitesData
+  }), [dataByYear, currentYear, currentSitesData]);
+
+  // Handle value updates from the table (local to the current year). An updater function gets the year's latest
+  // sites, so changes that finish later (attachment uploads) do not overwrite edits made in the meantime.
+  const handleDataChange = (change: SiteData[] | ((sites: SiteData[]) => SiteData[])) => {
+    setDataByYear(prev => {
+      const newData = typeof change === 'function' ? change(prev[currentYear] || currentSitesData) : change;
+      // Rows read from meters in later years continue from this year's last reading
+      return carryReadingsForward({ ...prev, [currentYear]: newData }, currentYear);
+    });
   };
 
   // Handle global site addition (updates ALL years and the template)
   const handleGlobalAddSite = (newSite: SiteData) => {
+    recordAudit([{ action: 'site_add', siteId: newSite.id, siteName: newSite.name }]);
+
     // 1. Update the template
     setTemplateSites(prev => [...prev, JSON.parse(JSON.stringify(newSite))]);
 
@@ -192,6 +520,21 @@ function App() {
 
   // Handle updates to site metadata
   const handleSiteMetadataUpdate = (siteId: string, updates: Partial<SiteData>) => {
+    const previous = currentSitesData.find(s => s.id === siteId) || templateSites.find(s => s.id === siteId);
+    if (previous) {
+      // A meter change also rewrites the joined meter number; the meter list entry already says what changed
+      const fields = (Object.keys(updates) as (keyof SiteData)[]).filter(field => !(field === 'meterNumber' && 'meters' in updates));
+      const auditValue = (site: Partial<SiteData>, field: keyof SiteData) => field === 'meters' ? formatMeters(site.meters) : String(site[field] ?? '');
+      recordAudit(fields.map(field => ({
+        action: 'site_metadata',
+        siteId,
+        siteName: updates.name ?? previous.name,
+        field,
+        oldValue: auditValue(previous, field),
+        newValue: auditValue(updates, field)
+      })));
+    }
+
     const updateList = (list: SiteData[]) => list.map(s => {
       if (s.id === siteId) {
         return { ...s, ...updates };
@@ -207,7 +550,8 @@ function App() {
         const year = Number(key);
         next[year] = updateList(next[year]);
       });
-      return next;
+      // The register digits of a meter decide how rollovers in its readings are counted
+      return 'meters' in updates ? carryReadingsForward(next) : next;
     });
 
     setArchivesByYear(prev => {
@@ -223,6 +567,7 @@ function App() {
   const handleArchiveSite = (siteId: string) => {
     const siteToArchive = currentSitesData.find(s => s.id === siteId);
     if (!siteToArchive) return;
+    recordAudit([{ action: 'site_archive', siteId, siteName: siteToArchive.name }]);
 
     const newActiveData = currentSitesData.filter(s => s.id !== siteId);
     handleDataChange(newActiveData);
@@ -236,6 +581,7 @@ function App() {
   const handleRestoreSite = (siteId: string) => {
     const siteToRestore = currentArchivedData.find(s => s.id === siteId);
     if (!siteToRestore) return;
+    recordAudit([{ action: 'site_restore', siteId, siteName: siteToRestore.name }]);
 
     setArchivesByYear(prev => ({
       ...prev,
@@ -246,6 +592,8 @@ function App() {
   };
 
   const handleDeletePermanently = (siteId: string) => {
+    const deletedSite = currentArchivedData.find(s => s.id === siteId);
+    recordAudit([{ action: 'site_delete', siteId, siteName: deletedSite?.name }]);
     setArchivesByYear(prev => ({
       ...prev,
       [currentYear]: prev[currentYear].filter(s => s.id !== siteId)
@@ -254,25 +602,124 @@ function App() {
 
   return (
     <div className="flex flex-col min-h-screen bg-gray-50 font-sans">
-      <Header currentYear={currentYear} onYearChange={setCurrentYear} autoSaveStatus={autoSaveStatus} />
+      <Header currentYear={currentYear} onYearChange={setCurrentYear} autoSaveStatus={autoSaveStatus} yearsWithData={yearsWithData} budgetAlerts={budgetAlerts} userName={userName} onUserNameChange={handleUserNameChange} />
       
       <main className="flex-grow w-full max-w-[1920px] mx-auto px-4 sm:px-6 lg:px-8 py-8">
-        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-1 md:p-6 min-h-[500px]">
-          <ConsumptionTable 
-            year={currentYear} 
-            data={currentSitesData}
-            archivedData={currentArchivedData}
-            onDataChange={handleDataChange}
-            onAddSite={handleGlobalAddSite}
-            onSiteMetadataUpdate={handleSiteMetadataUpdate}
-            onArchiveSite={handleArchiveSite}
-            onRestoreSite={handleRestoreSite}
-            onDeletePermanently={handleDeletePermanently}
-            onSave={handleManualSave}
+        <div className="flex gap-2 mb-4 print:hidden">
+          <button onClick={() => showView('table')} className={`flex items-center gap-2 px-4 py-2 rounded shadow-sm text-sm font-bold border transition-all ${route.page === 'main' && viewMode === 'table' ? 'bg-[#091526] text-white border-blue-900/50' : 'bg-white text-slate-700 border-gray-200 hover:border-blue-400'}`}>
+            <Table2 size={16} />جدول الاستهلاك
+          </button>
+          <button onClick={() => showView('dashboard')} className={`flex items-center gap-2 px-4 py-2 rounded shadow-sm text-sm font-bold border transition-all ${route.page === 'main' && viewMode === 'dashboard' ? 'bg-[#091526] text-white border-blue-900/50' : 'bg-white text-slate-700 border-gray-200 hover:border-blue-400'}`}>
+            <BarChart3 size={16} />لوحة التحليلات
+          </button>
+          <button onClick={() => showView('comparison')} className={`flex items-center gap-2 px-4 py-2 rounded shadow-sm text-sm font-bold border transition-all ${route.page === 'main' && viewMode === 'comparison' ? 'bg-[#091526] text-white border-blue-900/50' : 'bg-white text-slate-700 border-gray-200 hover:border-blue-400'}`}>
+            <GitCompare size={16} />مقارنة السنوات
+          </button>
+
+          <div className="flex gap-2 mr-auto">
+            <button onClick={handleUndo} disabled={undoStack.past.length === 0} className="flex items-center gap-1 px-3 py-2 rounded shadow-sm text-sm font-bold border bg-white text-slate-700 border-gray-200 hover:border-blue-400 transition-all disabled:opacity-40 disabled:hover:border-gray-200" title="تراجع (Ctrl+Z)">
+              <Undo2 size={16} />
+            </button>
+            <button onClick={handleRedo} disabled={undoStack.future.length === 0} className="flex items-center gap-1 px-3 py-2 rounded shadow-sm text-sm font-bold border bg-white text-slate-700 border-gray-200 hover:border-blue-400 transition-all disabled:opacity-40 disabled:hover:border-gray-200" title="إعادة (Ctrl+Y)">
+              <Redo2 size={16} />
+            </button>
+            <button onClick={() => setAuditTarget({})} className="flex items-center gap-2 px-4 py-2 rounded shadow-sm text-sm font-bold border bg-white text-slate-700 border-gray-200 hover:border-blue-400 transition-all" title="عرض سجل التعديلات وتصديره">
+              <History size={16} />سجل التعديلات
+            </button>
+            <input type="file" ref={csvInputRef} onChange={handleCsvFileChange} accept=".csv,text/csv" className="hidden" />
+            <button onClick={handleCsvExport} className="flex items-center gap-2 px-4 py-2 rounded shadow-sm text-sm font-bold border bg-white text-slate-700 border-gray-200 hover:border-blue-400 transition-all" title="تصدير جميع السنوات بصيغة CSV (سطر لكل قيمة شهرية)">
+              <FileDown size={16} />CSV
+            </button>
+            <button onClick={() => csvInputRef.current?.click()} className="flex items-center gap-2 px-4 py-2 rounded shadow-sm text-sm font-bold border bg-white text-slate-700 border-gray-200 hover:border-blue-400 transition-all" title="استيراد ودمج ملف CSV بنفس الصيغة">
+              <FileUp size={16} />استيراد CSV
+            </button>
+            <input type="file" ref={restoreInputRef} onChange={handleRestoreFileChange} accept=".json,application/json" className="hidden" />
+            <button onClick={handleBackup} disabled={isBackingUp} className="flex items-center gap-2 px-4 py-2 rounded shadow-sm text-sm font-bold border bg-white text-slate-700 border-gray-200 hover:border-blue-400 transition-all disabled:opacity-50" title="تصدير جميع السنوات والقالب والأرشيف والمرفقات في ملف واحد">
+              <DatabaseBackup size={16} />{isBackingUp ? 'جاري التجهيز...' : 'نسخة احتياطية'}
+            </button>
+            <button onClick={() => restoreInputRef.current?.click()} className="flex items-center gap-2 px-4 py-2 rounded shadow-sm text-sm font-bold border bg-white text-slate-700 border-gray-200 hover:border-blue-400 transition-all" title="استعادة من ملف نسخة احتياطية">
+              <ArchiveRestore size={16} />استعادة
+            </button>
+          </div>
+        </div>
+
+        {(quarantineEntries.length > 0 || initialWorkspace.lockedKeys.length > 0) && (
+          <QuarantineNotice
+            entries={quarantineEntries}
+            lockedKeys={initialWorkspace.lockedKeys}
+            onEntriesChange={() => setQuarantineEntries(listQuarantine())}
           />
+        )}
+
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-1 md:p-6 min-h-[500px]">
+          {route.page === 'site' ? (
+            <SiteDetailView
+              key={route.siteId}
+              siteId={route.siteId}
+              year={currentYear}
+              dataByYear={comparisonData}
+              archivesByYear={archivesByYear}
+              auditLog={auditLog}
+              onYearChange={setCurrentYear}
+              onBack={() => showView('table')}
+              onShowAuditLog={(siteId) => setAuditTarget({ siteId })}
+            />
+          ) : viewMode === 'comparison' ? (
+            <ComparisonView currentYear={currentYear} dataByYear={comparisonData} />
+          ) : viewMode === 'dashboard' ? (
+            <AnalyticsDashboard key={currentYear} currentYear={currentYear} dataByYear={comparisonData} />
+          ) : (
+            <ConsumptionTable 
+              year={currentYear} 
+              data={currentSitesData}
+              archivedData={currentArchivedData}
+              previousYearData={dataByYear[currentYear - 1]}
+              getCarriedReading={(siteId, rowId) => carriedReading(dataByYear, currentYear, siteId, rowId)}
+              onDataChange={handleDataChange}
+              onAddSite={handleGlobalAddSite}
+              onSiteMetadataUpdate={handleSiteMetadataUpdate}
+              onArchiveSite={handleArchiveSite}
+              onRestoreSite={handleRestoreSite}
+              onDeletePermanently={handleDeletePermanently}
+              onSave={handleManualSave}
+              onAudit={recordAudit}
+              onShowAuditLog={(siteId) => setAuditTarget({ siteId })}
+              onExportWorkbook={() => setShowWorkbookExport(true)}
+              periodColumns={periodColumns}
+              onOpenSite={(siteId) => setRoute({ page: 'site', siteId })}
+              onPeriodColumnsChange={handlePeriodColumnsChange}
+            />
+          )}
         </div>
       </main>
       
+      {pendingRestore && (
+        <RestoreDialog
+          fileName={pendingRestore.fileName}
+          backup={pendingRestore.backup}
+          onRestore={(mode) => handleRestore(pendingRestore.backup, mode)}
+          onClose={() => setPendingRestore(null)}
+        />
+      )}
+
+      {showWorkbookExport && (
+        <WorkbookExportDialog
+          dataByYear={comparisonData}
+          archivesByYear={archivesByYear}
+          periods={periodColumns}
+          onClose={() => setShowWorkbookExport(false)}
+        />
+      )}
+
+      {auditTarget && (
+        <AuditLogViewer
+          entries={auditLog}
+          initialYear={currentYear}
+          initialSiteId={auditTarget.siteId}
+          onClose={() => setAuditTarget(null)}
+        />
+      )}
+
       <Footer />
     </div>
   );
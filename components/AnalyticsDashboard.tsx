@@ -0,0 +1,153 @@
+import React, { useMemo, useState } from 'react';
+import { SiteData, UtilityKind, MeasureKind } from '../types.ts';
+import { BarChart3, TrendingUp, PieChart as PieChartIcon, Calendar } from 'lucide-react';
+import { ResponsiveContainer, LineChart, Line, BarChart, Bar, PieChart, Pie, Cell, XAxis, YAxis, CartesianGrid, Tooltip, Legend } from 'recharts';
+import { buildSiteTrend, buildCostByUtility, buildSiteCostShare, activeUtilities } from '../utils/analytics.ts';
+import { UTILITIES, MEASURES } from '../utils/classification.ts';
+import { UNITS } from '../utils/units.ts';
+import { formatNumber } from '../utils/calculations.ts';
+import { SITE_COLORS, UTILITY_COLORS } from '../constants.ts';
+
+interface AnalyticsDashboardProps {
+  currentYear: number;
+  dataByYear: Record<number, SiteData[]>;
+}
+
+const ChartCard: React.FC<{ title: string; icon: React.ReactNode; children: React.ReactNode; actions?: React.ReactNode }> = ({ title, icon, children, actions }) => (
+  <div className="bg-white border border-gray-200 rounded-lg shadow-sm">
+    <div className="flex items-center justify-between px-4 py-2 border-b border-gray-200 bg-gray-50 rounded-t-lg">
+      <div className="flex items-center gap-2 font-bold text-slate-700">{icon}<span>{title}</span></div>
+      {actions}
+    </div>
+    <div className="p-2 h-[320px]" dir="ltr">{children}</div>
+  </div>
+);
+
+const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({ currentYear, dataByYear }) => {
+  const availableYears = useMemo(() => Object.keys(dataByYear).map(Number).sort((a, b) => b - a), [dataByYear]);
+
+  const [year, setYear] = useState(currentYear);
+  const [excludedSiteIds, setExcludedSiteIds] = useState<string[]>([]);
+  const [trendUtility, setTrendUtility] = useState<UtilityKind>('electricity');
+  const [trendMeasure, setTrendMeasure] = useState<MeasureKind>('cost');
+
+  const yearSites = dataByYear[year] || [];
+  const selectedSites = useMemo(() => yearSites.filter(s => !excludedSiteIds.includes(s.id)), [yearSites, excludedSiteIds]);
+
+  const toggleSite = (siteId: string) => {
+    setExcludedSiteIds(prev => prev.includes(siteId) ? prev.filter(id => id !== siteId) : [...prev, siteId]);
+  };
+
+  const trend = useMemo(() => buildSiteTrend(selectedSites, trendUtility, trendMeasure), [selectedSites, trendUtility, trendMeasure]);
+  const costByUtility = useMemo(() => buildCostByUtility(selectedSites), [selectedSites]);
+  const stackedUtilities = useMemo(() => activeUtilities(costByUtility), [costByUtility]);
+  const siteShare = useMemo(() => buildSiteCostShare(selectedSites), [selectedSites]);
+
+  // Keep a site's colour stable while others are toggled
+  const siteColor = (siteId: string) => SITE_COLORS[Math.max(0, yearSites.findIndex(s => s.id === siteId)) % SITE_COLORS.length];
+
+  const trendUnitLabel = trendMeasure === 'cost' ? 'درهم' : UTILITIES[trendUtility].defaultUnit ? UNITS[UTILITIES[trendUtility].defaultUnit!].label : '';
+  const tooltipFormatter = (value: unknown) => formatNumber(Number(value));
+
+  const selectClass = "border border-gray-300 rounded px-2 py-1 text-sm bg-white";
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-[#091526] p-4 rounded-t-lg border-b-4 border-yellow-500 shadow-sm text-center">
+        <h2 className="text-xl md:text-2xl font-bold text-white tracking-wide">لوحة التحليلات - لسنة <span className="text-yellow-400">{year}</span></h2>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 px-1 print:hidden">
+        <label className="flex items-center gap-2 text-sm font-bold text-slate-700">
+          <Calendar size={16} />السنة:
+          <select value={year} onChange={e => setYear(Number(e.target.value))} className={`${selectClass} font-mono`}>
+            {availableYears.map(y => <option key={y} value={y}>{y}</option>)}
+          </select>
+        </label>
+        <span className="text-sm font-bold text-slate-700 mr-4">المواقع:</span>
+        {yearSites.map(site => {
+          const isSelected = !excludedSiteIds.includes(site.id);
+          return (
+            <button
+              key={site.id}
+              onClick={() => toggleSite(site.id)}
+              className={`flex items-center gap-1.5 px-3 py-1 rounded-full text-xs border transition-all ${isSelected ? 'bg-white text-slate-800 border-slate-400 shadow-sm' : 'bg-gray-100 text-gray-400 border-gray-200 line-through'}`}
+            >
+              <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: siteColor(site.id) }}></span>
+              {site.name}
+            </button>
+          );
+        })}
+      </div>
+
+      {selectedSites.length === 0 ? (
+        <div className="bg-blue-50 border border-blue-100 rounded-lg p-8 text-center text-blue-900">الرجاء اختيار موقع واحد على الأقل.</div>
+      ) : (
+        <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+          <div className="xl:col-span-2">
+            <ChartCard
+              title={`الاتجاه الشهري - ${UTILITIES[trendUtility].label} (${trendUnitLabel})`}
+              icon={<TrendingUp size={16} />}
+              actions={
+                <div className="flex gap-2 print:hidden">
+                  <select value={trendUtility} onChange={e => setTrendUtility(e.target.value as UtilityKind)} className={selectClass}>
+                    {(Object.keys(UTILITIES) as UtilityKind[]).map(u => <option key={u} value={u}>{UTILITIES[u].label}</option>)}
+                  </select>
+                  <select value={trendMeasure} onChange={e => setTrendMeasure(e.target.value as MeasureKind)} className={selectClass}>
+                    {(Object.keys(MEASURES) as MeasureKind[]).map(m => <option key={m} value={m}>{MEASURES[m].label}</option>)}
+                  </select>
+                </div>
+              }
+            >
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={trend} margin={{ top: 10, right: 20, left: 10, bottom: 0 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+                  <XAxis dataKey="month" tick={{ fontSize: 11 }} />
+                  <YAxis tick={{ fontSize: 11 }} />
+                  <Tooltip formatter={tooltipFormatter} />
+                  <Legend />
+                  {selectedSites.map(site => (
+                    <Line key={site.id} type="monotone" dataKey={site.id} name={site.name} stroke={siteColor(site.id)} strokeWidth={2} dot={{ r: 3 }} />
+                  ))}
+                </LineChart>
+              </ResponsiveContainer>
+            </ChartCard>
+          </div>
+
+          <ChartCard title="التكلفة الشهرية حسب الخدمة (درهم)" icon={<BarChart3 size={16} />}>
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={costByUtility} margin={{ top: 10, right: 20, left: 10, bottom: 0 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+                <XAxis dataKey="month" tick={{ fontSize: 11 }} />
+                <YAxis tick={{ fontSize: 11 }} />
+                <Tooltip formatter={tooltipFormatter} />
+                <Legend />
+                {stackedUtilities.map(utility => (
+                  <Bar key={utility} dataKey={utility} name={UTILITIES[utility].label} stackId="cost" fill={UTILITY_COLORS[utility]} />
+                ))}
+              </BarChart>
+            </ResponsiveContainer>
+          </ChartCard>
+
+          <ChartCard title="حصة كل موقع من إجمالي الإنفاق" icon={<PieChartIcon size={16} />}>
+            {siteShare.every(s => s.value === 0) ? (
+              <div className="h-full flex items-center justify-center text-sm text-gray-500" dir="rtl">لا توجد قيم استهلاك مسجلة لهذه السنة.</div>
+            ) : (
+              <ResponsiveContainer width="100%" height="100%">
+                <PieChart>
+                  <Pie data={siteShare} dataKey="value" nameKey="name" outerRadius={110} label={({ payload }) => `${formatNumber((payload as { percent: number }).percent)}%`}>
+                    {siteShare.map(share => <Cell key={share.siteId} fill={siteColor(share.siteId)} />)}
+                  </Pie>
+                  <Tooltip formatter={tooltipFormatter} />
+                  <Legend />
+                </PieChart>
+              </ResponsiveContainer>
+            )}
+          </ChartCard>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AnalyticsDashboard;
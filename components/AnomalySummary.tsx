@@ -0,0 +1,64 @@
+import React from 'react';
+import { MONTHS } from '../types.ts';
+import { AlertTriangle } from 'lucide-react';
+import { Anomaly, ANOMALY_KIND_LABELS, ANOMALY_SETTINGS } from '../utils/anomalies.ts';
+import { formatNumber } from '../utils/calculations.ts';
+
+interface AnomalySummaryProps {
+  year: number;
+  anomalies: Anomaly[];
+  onClose: () => void;
+}
+
+const AnomalySummary: React.FC<AnomalySummaryProps> = ({ year, anomalies, onClose }) => {
+  const monthLabel = (key: string) => MONTHS.find(m => m.key === key)?.label;
+
+  return (
+    <div className="border border-amber-300 rounded-lg bg-amber-50/60 shadow-sm print:hidden">
+      <div className="flex items-center justify-between px-4 py-2 border-b border-amber-200">
+        <div className="flex items-center gap-2 font-bold text-amber-900">
+          <AlertTriangle size={18} />
+          <span>القيم غير الطبيعية لسنة {year} ({anomalies.length})</span>
+        </div>
+        <button onClick={onClose} className="text-amber-800 underline text-sm hover:text-amber-950">إغلاق</button>
+      </div>
+
+      {anomalies.length === 0 ? (
+        <div className="p-6 text-center text-amber-900 text-sm">لا توجد قيم غير طبيعية لهذه السنة.</div>
+      ) : (
+        <div className="max-h-[320px] overflow-y-auto">
+          <table className="w-full text-sm text-right">
+            <thead className="bg-amber-100 text-amber-900 sticky top-0">
+              <tr>
+                <th className="p-2">الموقع</th>
+                <th className="p-2">البند</th>
+                <th className="p-2">الشهر</th>
+                <th className="p-2">نوع التنبيه</th>
+                <th className="p-2 text-center">القيمة</th>
+                <th className="p-2">التفاصيل</th>
+              </tr>
+            </thead>
+            <tbody>
+              {anomalies.map((anomaly, i) => (
+                <tr key={`${anomaly.siteId}-${anomaly.rowId}-${anomaly.month}-${anomaly.kind}-${i}`} className="border-t border-amber-100">
+                  <td className="p-2 font-bold text-slate-800">{anomaly.siteName}</td>
+                  <td className="p-2 text-slate-700">{anomaly.rowLabel}</td>
+                  <td className="p-2 text-slate-700">{monthLabel(anomaly.month)}</td>
+                  <td className="p-2 text-slate-700">{ANOMALY_KIND_LABELS[anomaly.kind]}</td>
+                  <td className="p-2 text-center font-mono">{formatNumber(anomaly.value)}</td>
+                  <td className={`p-2 ${anomaly.deviationPercent !== null && anomaly.deviationPercent > 0 ? 'text-red-700' : 'text-amber-800'}`}>{anomaly.message}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div className="px-4 py-2 border-t border-amber-200 text-xs text-amber-800">
+        يتم التنبيه عند انحراف القيمة بنسبة {ANOMALY_SETTINGS.ROLLING_DEVIATION_PERCENT}% أو أكثر عن متوسط آخر {ANOMALY_SETTINGS.ROLLING_WINDOW} أشهر، أو بنسبة {ANOMALY_SETTINGS.YEAR_OVER_YEAR_DEVIATION_PERCENT}% أو أكثر عن نفس الشهر من السنة السابقة، وعند تسجيل قراءة صفرية بعد أشهر بها استهلاك.
+      </div>
+    </div>
+  );
+};
+
+export default AnomalySummary;
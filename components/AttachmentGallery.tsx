@@ -0,0 +1,261 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Attachment, ConsumptionRow, MONTHS, MonthKey } from '../types.ts';
+import { X, Upload, Download, Trash2, Pencil, Check, ExternalLink, Paperclip, LoaderCircle } from 'lucide-react';
+import FileIcon from './FileIcon.tsx';
+import { loadAttachmentBlob, formatFileSize, MAX_ATTACHMENT_SIZE_MB } from '../utils/attachmentStore.ts';
+
+interface AttachmentGalleryProps {
+  siteName: string;
+  row: ConsumptionRow;
+  year: number;
+  initialMonth?: MonthKey;
+  readOnly: boolean;
+  onAddFiles: (files: File[], month?: MonthKey) => void;
+  onUpdateAttachment: (attachmentId: string, updates: Partial<Attachment>) => void;
+  onDeleteAttachment: (attachmentId: string) => void;
+  onClose: () => void;
+}
+
+const monthLabel = (month?: MonthKey) => MONTHS.find(m => m.key === month)?.label || 'بدون شهر';
+
+const AttachmentGallery: React.FC<AttachmentGalleryProps> = ({
+  siteName,
+  row,
+  year,
+  initialMonth,
+  readOnly,
+  onAddFiles,
+  onUpdateAttachment,
+  onDeleteAttachment,
+  onClose
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const attachments = row.attachments || [];
+
+  const [monthFilter, setMonthFilter] = useState<MonthKey | 'all'>(initialMonth || 'all');
+  const [uploadMonth, setUploadMonth] = useState<MonthKey | ''>(initialMonth || '');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  const [preview, setPreview] = useState<{ id: string; url: string } | null>(null);
+  const [isLoadingPreview, setIsLoadingPreview] = useState(false);
+
+  const visibleAttachments = useMemo(() => {
+    const list = monthFilter === 'all' ? attachments : attachments.filter(a => a.month === monthFilter);
+    // Chronological by tagged month, untagged files last
+    const order = (a: Attachment) => a.month ? MONTHS.findIndex(m => m.key === a.month) : MONTHS.length;
+    return [...list].sort((a, b) => order(a) - order(b));
+  }, [attachments, monthFilter]);
+
+  const selected = attachments.find(a => a.id === selectedId) || visibleAttachments[0];
+
+  // Lazily load the selected file for the preview pane
+  useEffect(() => {
+    if (!selected) {
+      setPreview(null);
+      return;
+    }
+    let cancelled = false;
+    let url: string | null = null;
+    setIsLoadingPreview(true);
+    loadAttachmentBlob(selected)
+      .then(blob => {
+        if (cancelled || !blob) return;
+        url = URL.createObjectURL(blob);
+        setPreview({ id: selected.id, url });
+      })
+      .catch(err => console.error("Attachment Load Error:", err))
+      .finally(() => {
+        if (!cancelled) setIsLoadingPreview(false);
+      });
+
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [selected?.id]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files: File[] = e.target.files ? Array.from(e.target.files) : [];
+    e.target.value = '';
+    if (files.length === 0) return;
+
+    const tooLarge = files.filter(f => f.size > MAX_ATTACHMENT_SIZE_MB * 1024 * 1024);
+    if (tooLarge.length > 0) {
+      alert(`الملفات التالية أكبر من ${MAX_ATTACHMENT_SIZE_MB} ميجابايت ولن يتم إرفاقها:\n${tooLarge.map(f => f.name).join('\n')}`);
+    }
+    const accepted = files.filter(f => !tooLarge.includes(f));
+    if (accepted.length > 0) onAddFiles(accepted, uploadMonth || undefined);
+  };
+
+  const startRename = (attachment: Attachment) => {
+    setRenamingId(attachment.id);
+    setRenameValue(attachment.name);
+  };
+
+  const commitRename = () => {
+    if (renamingId && renameValue.trim()) {
+      onUpdateAttachment(renamingId, { name: renameValue.trim() });
+    }
+    setRenamingId(null);
+  };
+
+  const handleDelete = (attachment: Attachment) => {
+    if (!window.confirm(`هل أنت متأكد من حذف المرفق "${attachment.name}"؟`)) return;
+    if (selectedId === attachment.id) setSelectedId(null);
+    onDeleteAttachment(attachment.id);
+  };
+
+  const handleDownload = () => {
+    if (!selected || !preview || preview.id !== selected.id) return;
+    const link = document.createElement('a');
+    link.href = preview.url;
+    link.download = selected.name;
+    link.click();
+  };
+
+  const previewUrl = preview && selected && preview.id === selected.id ? preview.url : null;
+  const isImage = selected?.type.startsWith('image/');
+  const isPdf = selected?.type === 'application/pdf' || selected?.name.toLowerCase().endsWith('.pdf');
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-black/50 flex items-center justify-center p-4 print:hidden" onClick={onClose}>
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-5xl h-[80vh] flex flex-col overflow-hidden" onClick={e => e.stopPropagation()}>
+        <div className="bg-[#091526] text-white px-4 py-3 flex items-center justify-between border-b-4 border-yellow-500">
+          <div className="flex items-center gap-2">
+            <Paperclip size={18} className="text-yellow-400" />
+            <h3 className="font-bold">مرفقات: {siteName} - {row.label} <span className="text-yellow-400 font-mono">({year})</span></h3>
+          </div>
+          <button onClick={onClose} className="p-1 rounded hover:bg-blue-800 transition-colors" title="إغلاق"><X size={18} /></button>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2 px-4 py-2 border-b border-gray-200 bg-gray-50">
+          <select value={monthFilter} onChange={e => setMonthFilter(e.target.value as MonthKey | 'all')} className="border border-gray-300 rounded px-2 py-1 text-sm">
+            <option value="all">كل الأشهر ({attachments.length})</option>
+            {MONTHS.map(m => {
+              const count = attachments.filter(a => a.month === m.key).length;
+              return <option key={m.key} value={m.key}>{m.label}{count > 0 ? ` (${count})` : ''}</option>;
+            })}
+          </select>
+
+          {!readOnly && (
+            <div className="flex items-center gap-2 mr-auto">
+              <span className="text-sm text-slate-600">إرفاق لشهر:</span>
+              <select value={uploadMonth} onChange={e => setUploadMonth(e.target.value as MonthKey | '')} className="border border-gray-300 rounded px-2 py-1 text-sm">
+                <option value="">بدون شهر</option>
+                {MONTHS.map(m => <option key={m.key} value={m.key}>{m.label}</option>)}
+              </select>
+              <input type="file" ref={fileInputRef} onChange={handleFileChange} multiple className="hidden" accept="image/*,.pdf,.doc,.docx,.xls,.xlsx,.ppt,.pptx" />
+              <button onClick={() => fileInputRef.current?.click()} className="flex items-center gap-1 bg-[#091526] hover:bg-blue-800 text-white px-3 py-1.5 rounded text-sm font-bold">
+                <Upload size={14} />إضافة ملفات
+              </button>
+            </div>
+          )}
+        </div>
+
+        <div className="flex flex-1 min-h-0">
+          <ul className="w-72 border-l border-gray-200 overflow-y-auto divide-y divide-gray-100">
+            {visibleAttachments.length === 0 && (
+              <li className="p-6 text-center text-sm text-gray-500">لا توجد مرفقات.</li>
+            )}
+            {visibleAttachments.map(attachment => (
+              <li key={attachment.id} onClick={() => setSelectedId(attachment.id)} className={`p-2 cursor-pointer group ${selected?.id === attachment.id ? 'bg-blue-50' : 'hover:bg-gray-50'}`}>
+                <div className="flex items-start gap-2">
+                  <div className="pt-0.5"><FileIcon fileName={attachment.name} mimeType={attachment.type} /></div>
+                  <div className="flex-1 min-w-0">
+                    {renamingId === attachment.id ? (
+                      <input
+                        autoFocus
+                        value={renameValue}
+                        onChange={e => setRenameValue(e.target.value)}
+                        onBlur={commitRename}
+                        onKeyDown={e => {
+                          if (e.key === 'Enter') commitRename();
+                          if (e.key === 'Escape') {
+                            e.stopPropagation();
+                            setRenamingId(null);
+                          }
+                        }}
+                        className="w-full border border-blue-400 rounded px-1 text-sm"
+                      />
+                    ) : (
+                      <div className="text-sm font-medium text-slate-800 truncate" title={attachment.name}>{attachment.name}</div>
+                    )}
+                    <div className="flex items-center gap-2 text-[11px] text-gray-500 mt-0.5">
+                      {readOnly ? (
+                        <span>{monthLabel(attachment.month)}</span>
+                      ) : (
+                        <select
+                          value={attachment.month || ''}
+                          onClick={e => e.stopPropagation()}
+                          onChange={e => onUpdateAttachment(attachment.id, { month: (e.target.value || undefined) as MonthKey | undefined })}
+                          className="border border-gray-200 rounded text-[11px] py-0"
+                        >
+                          <option value="">بدون شهر</option>
+                          {MONTHS.map(m => <option key={m.key} value={m.key}>{m.label}</option>)}
+                        </select>
+                      )}
+                      <span className="font-mono">{formatFileSize(attachment.size)}</span>
+                    </div>
+                  </div>
+                  {!readOnly && (
+                    <div className="flex flex-col gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                      {renamingId === attachment.id ? (
+                        <button onMouseDown={e => e.preventDefault()} onClick={e => { e.stopPropagation(); commitRename(); }} className="text-green-600 hover:text-green-800" title="حفظ الاسم"><Check size={14} /></button>
+                      ) : (
+                        <button onClick={e => { e.stopPropagation(); startRename(attachment); }} className="text-blue-400 hover:text-blue-700" title="إعادة تسمية"><Pencil size={14} /></button>
+                      )}
+                      <button onClick={e => { e.stopPropagation(); handleDelete(attachment); }} className="text-red-300 hover:text-red-600" title="حذف المرفق"><Trash2 size={14} /></button>
+                    </div>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+
+          <div className="flex-1 flex flex-col min-w-0 bg-gray-100">
+            {selected ? (
+              <>
+                <div className="flex items-center justify-between px-3 py-2 bg-white border-b border-gray-200">
+                  <span className="text-sm font-bold text-slate-700 truncate">{selected.name} <span className="text-gray-400 font-normal">- {monthLabel(selected.month)}</span></span>
+                  <div className="flex gap-2">
+                    <button disabled={!previewUrl} onClick={() => previewUrl && window.open(previewUrl, '_blank')} className="flex items-center gap-1 text-sm text-blue-700 hover:text-blue-900 disabled:opacity-40" title="فتح في نافذة جديدة"><ExternalLink size={14} /></button>
+                    <button disabled={!previewUrl} onClick={handleDownload} className="flex items-center gap-1 text-sm text-blue-700 hover:text-blue-900 disabled:opacity-40" title="تنزيل المرفق"><Download size={14} /></button>
+                  </div>
+                </div>
+                <div className="flex-1 flex items-center justify-center overflow-auto p-2">
+                  {isLoadingPreview && !previewUrl ? (
+                    <LoaderCircle size={24} className="animate-spin text-blue-400" />
+                  ) : !previewUrl ? (
+                    <span className="text-sm text-gray-500">لم يتم العثور على محتوى المرفق.</span>
+                  ) : isImage ? (
+                    <img src={previewUrl} alt={selected.name} className="max-w-full max-h-full object-contain shadow" />
+                  ) : isPdf ? (
+                    <iframe src={previewUrl} title={selected.name} className="w-full h-full bg-white" />
+                  ) : (
+                    <div className="flex flex-col items-center gap-3 text-sm text-gray-600">
+                      <FileIcon fileName={selected.name} mimeType={selected.type} size={48} />
+                      <span>لا تتوفر معاينة لهذا النوع من الملفات.</span>
+                    </div>
+                  )}
+                </div>
+              </>
+            ) : (
+              <div className="flex-1 flex items-center justify-center text-sm text-gray-500">اختر ملفاً لمعاينته.</div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AttachmentGallery;
@@ -0,0 +1,179 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { AuditAction, AuditEntry } from '../types.ts';
+import { X, History, Download, Archive } from 'lucide-react';
+import { utils, writeFile } from 'xlsx';
+import { AUDIT_ACTION_LABELS, AUDIT_FIELD_LABELS, formatAuditMonth, formatAuditValue } from '../utils/audit.ts';
+import { countArchivedAuditEntries, loadArchivedAuditEntries } from '../utils/auditArchive.ts';
+
+interface AuditLogViewerProps {
+  entries: AuditEntry[];
+  initialYear?: number;
+  initialSiteId?: string;
+  onClose: () => void;
+}
+
+const ALL = 'all';
+
+const AuditLogViewer: React.FC<AuditLogViewerProps> = ({ entries, initialYear, initialSiteId, onClose }) => {
+  const [yearFilter, setYearFilter] = useState<string>(initialYear ? String(initialYear) : ALL);
+  const [siteFilter, setSiteFilter] = useState<string>(initialSiteId || ALL);
+  const [actionFilter, setActionFilter] = useState<string>(ALL);
+  const [userFilter, setUserFilter] = useState<string>(ALL);
+  const [search, setSearch] = useState('');
+
+  // Older entries live in the IndexedDB archive and are only loaded on request
+  const [archivedCount, setArchivedCount] = useState(0);
+  const [archived, setArchived] = useState<AuditEntry[] | null>(null);
+  useEffect(() => {
+    countArchivedAuditEntries().then(setArchivedCount).catch(err => console.warn("Audit archive unavailable", err));
+  }, []);
+  const allEntries = useMemo(() => archived ? [...archived, ...entries] : entries, [archived, entries]);
+
+  const handleLoadArchive = () => {
+    loadArchivedAuditEntries()
+      .then(setArchived)
+      .catch(err => {
+        console.error("Audit Archive Error:", err);
+        alert("تعذر قراءة السجل الأقدم من ذاكرة المتصفح.");
+      });
+  };
+
+  const years = useMemo(() => Array.from(new Set<number>(allEntries.map(e => e.year))).sort((a, b) => b - a), [allEntries]);
+  const users = useMemo(() => Array.from(new Set<string>(allEntries.map(e => e.user))).sort(), [allEntries]);
+  // Latest known name of every site in the log
+  const sites = useMemo(() => {
+    const names = new Map<string, string>();
+    allEntries.forEach(e => {
+      if (e.siteId) names.set(e.siteId, e.siteName || e.siteId);
+    });
+    return [...names.entries()];
+  }, [allEntries]);
+
+  const filtered = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    return allEntries
+      .filter(e => yearFilter === ALL || e.year === Number(yearFilter))
+      .filter(e => siteFilter === ALL || e.siteId === siteFilter)
+      .filter(e => actionFilter === ALL || e.action === actionFilter)
+      .filter(e => userFilter === ALL || e.user === userFilter)
+      .filter(e => !term || [e.siteName, e.rowLabel, formatAuditValue(e.oldValue), formatAuditValue(e.newValue)].some(v => v?.toLowerCase().includes(term)))
+      .slice()
+      .reverse();
+  }, [allEntries, yearFilter, siteFilter, actionFilter, userFilter, search]);
+
+  const describeTarget = (entry: AuditEntry) => {
+    if (entry.field) return AUDIT_FIELD_LABELS[entry.field] || entry.field;
+    return entry.rowLabel || '';
+  };
+
+  const handleExport = () => {
+    try {
+      const headers = ['التاريخ والوقت', 'المستخدم', 'السنة', 'الإجراء', 'الموقع', 'البند / الحقل', 'الشهر', 'القيمة السابقة', 'القيمة الجديدة'];
+      const body = filtered.map(e => [
+        new Date(e.timestamp).toLocaleString('ar-AE'),
+        e.user,
+        e.year,
+        AUDIT_ACTION_LABELS[e.action] || e.action,
+        e.siteName || '',
+        describeTarget(e),
+        formatAuditMonth(e.month),
+        e.oldValue ?? '',
+        e.newValue ?? ''
+      ]);
+
+      const wb = utils.book_new();
+      const ws = utils.aoa_to_sheet([headers, ...body]);
+      ws['!cols'] = [{ wch: 22 }, { wch: 18 }, { wch: 8 }, { wch: 20 }, { wch: 28 }, { wch: 28 }, { wch: 10 }, { wch: 18 }, { wch: 18 }];
+      utils.book_append_sheet(wb, ws, 'سجل التعديلات');
+      writeFile(wb, `Saher_Audit_Log${yearFilter === ALL ? '' : `_${yearFilter}`}.xlsx`);
+    } catch (e) {
+      console.error("Export Error:", e);
+      alert("حدث خطأ أثناء تصدير السجل.");
+    }
+  };
+
+  const selectClass = "border border-gray-300 rounded px-2 py-1 text-sm bg-white";
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-black/50 flex items-center justify-center p-4 print:hidden" onClick={onClose}>
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-6xl h-[85vh] flex flex-col overflow-hidden" onClick={e => e.stopPropagation()}>
+        <div className="bg-[#091526] text-white px-4 py-3 flex items-center justify-between border-b-4 border-yellow-500">
+          <div className="flex items-center gap-2">
+            <History size={18} className="text-yellow-400" />
+            <h3 className="font-bold">سجل التعديلات</h3>
+          </div>
+          <button onClick={onClose} className="p-1 rounded hover:bg-blue-800 transition-colors" title="إغلاق"><X size={18} /></button>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2 px-4 py-3 border-b border-gray-200 bg-gray-50 text-sm">
+          <select value={yearFilter} onChange={e => setYearFilter(e.target.value)} className={`${selectClass} font-mono`}>
+            <option value={ALL}>كل السنوات</option>
+            {years.map(y => <option key={y} value={y}>{y}</option>)}
+          </select>
+          <select value={siteFilter} onChange={e => setSiteFilter(e.target.value)} className={selectClass}>
+            <option value={ALL}>كل المواقع</option>
+            {sites.map(([id, name]) => <option key={id} value={id}>{name}</option>)}
+          </select>
+          <select value={actionFilter} onChange={e => setActionFilter(e.target.value)} className={selectClass}>
+            <option value={ALL}>كل الإجراءات</option>
+            {(Object.keys(AUDIT_ACTION_LABELS) as AuditAction[]).map(a => <option key={a} value={a}>{AUDIT_ACTION_LABELS[a]}</option>)}
+          </select>
+          <select value={userFilter} onChange={e => setUserFilter(e.target.value)} className={selectClass}>
+            <option value={ALL}>كل المستخدمين</option>
+            {users.map(u => <option key={u} value={u}>{u}</option>)}
+          </select>
+          <input value={search} onChange={e => setSearch(e.target.value)} placeholder="بحث..." className={`${selectClass} w-40`} />
+          {archivedCount > 0 && !archived && (
+            <button onClick={handleLoadArchive} className="flex items-center gap-1 px-3 py-1.5 rounded text-sm border border-gray-300 bg-white hover:bg-gray-100" title="التعديلات الأقدم محفوظة في أرشيف المتصفح؛ اعرضها لتصفيتها وتصديرها">
+              <Archive size={14} />عرض السجل الأقدم ({archivedCount})
+            </button>
+          )}
+          <button onClick={handleExport} disabled={filtered.length === 0} className="mr-auto flex items-center gap-1 px-3 py-1.5 rounded text-sm font-bold bg-[#091526] hover:bg-blue-800 text-white disabled:opacity-40">
+            <Download size={14} />تصدير Excel
+          </button>
+        </div>
+
+        <div className="flex-grow overflow-auto">
+          {filtered.length === 0 ? (
+            <div className="p-8 text-center text-gray-500 text-sm">لا توجد تعديلات مطابقة.</div>
+          ) : (
+            <table className="w-full text-sm text-right">
+              <thead className="bg-gray-100 text-slate-700 sticky top-0">
+                <tr>
+                  <th className="p-2">التاريخ والوقت</th>
+                  <th className="p-2">المستخدم</th>
+                  <th className="p-2">السنة</th>
+                  <th className="p-2">الإجراء</th>
+                  <th className="p-2">الموقع</th>
+                  <th className="p-2">البند / الحقل</th>
+                  <th className="p-2">الشهر</th>
+                  <th className="p-2">القيمة السابقة</th>
+                  <th className="p-2">القيمة الجديدة</th>
+                </tr>
+              </thead>
+              <tbody>
+                {filtered.map(entry => (
+                  <tr key={entry.id} className="border-t border-gray-100 hover:bg-blue-50/50">
+                    <td className="p-2 whitespace-nowrap text-xs text-gray-600">{new Date(entry.timestamp).toLocaleString('ar-AE')}</td>
+                    <td className="p-2">{entry.user}</td>
+                    <td className="p-2 font-mono">{entry.year}</td>
+                    <td className="p-2 font-bold text-slate-700">{AUDIT_ACTION_LABELS[entry.action] || entry.action}</td>
+                    <td className="p-2">{entry.siteName}</td>
+                    <td className="p-2">{describeTarget(entry)}</td>
+                    <td className="p-2">{formatAuditMonth(entry.month)}</td>
+                    <td className="p-2 font-mono text-red-700 break-all">{formatAuditValue(entry.oldValue)}</td>
+                    <td className="p-2 font-mono text-green-700 break-all">{formatAuditValue(entry.newValue)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        <div className="px-4 py-2 border-t border-gray-200 bg-gray-50 text-xs text-gray-500">{filtered.length} من {allEntries.length} تعديل{archivedCount > 0 && !archived ? ` (و${archivedCount} تعديل أقدم في الأرشيف)` : ''}</div>
+      </div>
+    </div>
+  );
+};
+
+export default AuditLogViewer;
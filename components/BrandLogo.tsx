@@ -0,0 +1,39 @@
+import React from 'react';
+
+interface BrandLogoProps {
+  isStatic?: boolean; // Without the animations, e.g. when rendered into a PDF report
+}
+
+// The SAHER logo mark and wordmark, on a dark background
+const BrandLogo: React.FC<BrandLogoProps> = ({ isStatic = false }) => {
+  return (
+    <div className="flex items-center gap-5 group select-none cursor-default">
+      {/* Logo Mark */}
+      <div className="relative w-16 h-16 bg-gradient-to-br from-blue-600 via-blue-700 to-slate-900 rounded-2xl shadow-lg flex items-center justify-center border border-blue-500/30 overflow-hidden transform group-hover:scale-105 transition-all duration-300">
+          {/* Gloss effect */}
+          <div className="absolute top-0 left-0 w-full h-1/2 bg-white/10 blur-[1px]"></div>
+          
+          {/* The Letter S */}
+          <span className="font-black text-4xl text-white italic relative z-10 drop-shadow-md font-sans">S</span>
+          
+          {/* Dot/Accent */}
+          <div className={`absolute bottom-2.5 right-2.5 w-3 h-3 bg-yellow-400 rounded-full shadow-[0_0_8px_rgba(250,204,21,0.8)] ${isStatic ? '' : 'animate-pulse'}`}></div>
+      </div>
+
+      {/* Text Logo */}
+      <div className="flex flex-col justify-center">
+          <h1 className="text-4xl font-black text-white tracking-wider leading-none font-sans drop-shadow-sm">
+              SAHER
+          </h1>
+          <div className="flex items-center gap-2 mt-1.5">
+              <div className="h-[3px] w-5 bg-yellow-500 rounded-full"></div>
+              <span className="text-xs font-bold text-blue-200 tracking-[0.2em] uppercase group-hover:text-white transition-colors whitespace-nowrap">
+                  FOR SMART SERVICES
+              </span>
+          </div>
+      </div>
+    </div>
+  );
+};
+
+export default BrandLogo;
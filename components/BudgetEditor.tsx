@@ -0,0 +1,134 @@
+import React, { useState } from 'react';
+import { MONTHS, MonthKey, SiteData, UtilityBudget, UtilityKind } from '../types.ts';
+import { X, Wallet } from 'lucide-react';
+import { UTILITIES } from '../utils/classification.ts';
+import { getMonthlyBudgets } from '../utils/budgets.ts';
+import { formatNumber } from '../utils/calculations.ts';
+
+interface BudgetEditorProps {
+  site: SiteData;
+  year: number;
+  onSave: (budgets: SiteData['budgets']) => void;
+  onClose: () => void;
+}
+
+type BudgetMap = Partial<Record<UtilityKind, UtilityBudget>>;
+
+const BudgetEditor: React.FC<BudgetEditorProps> = ({ site, year, onSave, onClose }) => {
+  const [budgets, setBudgets] = useState<BudgetMap>(() => JSON.parse(JSON.stringify(site.budgets || {})));
+
+  // Utilities the site records costs for come first; the others can still be budgeted
+  const siteUtilities = (Object.keys(UTILITIES) as UtilityKind[]).filter(u => site.rows.some(r => r.utility === u && r.measure === 'cost'));
+  const otherUtilities = (Object.keys(UTILITIES) as UtilityKind[]).filter(u => !siteUtilities.includes(u));
+  const [shownUtilities, setShownUtilities] = useState<UtilityKind[]>(() => [
+    ...siteUtilities,
+    ...otherUtilities.filter(u => budgets[u])
+  ]);
+  const hiddenUtilities = otherUtilities.filter(u => !shownUtilities.includes(u));
+
+  const setAnnual = (utility: UtilityKind, value: string) => {
+    setBudgets(prev => ({ ...prev, [utility]: { ...prev[utility], annual: parseFloat(value) || 0 } }));
+  };
+
+  const setMonthly = (utility: UtilityKind, month: MonthKey, value: string) => {
+    setBudgets(prev => {
+      const current = prev[utility] || { annual: 0 };
+      const monthly = { ...current.monthly };
+      if (value === '') {
+        delete monthly[month];
+      } else {
+        monthly[month] = parseFloat(value) || 0;
+      }
+      return { ...prev, [utility]: { ...current, monthly } };
+    });
+  };
+
+  const handleSave = () => {
+    // Drop empty budgets so sites without any budget keep no budget row
+    const cleaned: BudgetMap = {};
+    (Object.keys(budgets) as UtilityKind[]).forEach(utility => {
+      const budget = budgets[utility];
+      if (!budget || budget.annual <= 0) return;
+      const monthly = budget.monthly && Object.keys(budget.monthly).length > 0 ? budget.monthly : undefined;
+      cleaned[utility] = monthly ? { annual: budget.annual, monthly } : { annual: budget.annual };
+    });
+    onSave(Object.keys(cleaned).length > 0 ? cleaned : undefined);
+    onClose();
+  };
+
+  const inputClass = "w-full border border-gray-300 rounded px-1 py-1 text-xs text-center focus:ring-2 focus:ring-blue-500 outline-none";
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-black/50 flex items-center justify-center p-4 print:hidden" onClick={onClose}>
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-6xl max-h-[90vh] flex flex-col overflow-hidden" onClick={e => e.stopPropagation()}>
+        <div className="bg-[#091526] text-white px-4 py-3 flex items-center justify-between border-b-4 border-yellow-500">
+          <div className="flex items-center gap-2">
+            <Wallet size={18} className="text-yellow-400" />
+            <h3 className="font-bold">ميزانية {site.name} - لسنة {year}</h3>
+          </div>
+          <button onClick={onClose} className="p-1 rounded hover:bg-blue-800 transition-colors" title="إغلاق"><X size={18} /></button>
+        </div>
+
+        <div className="p-4 space-y-3 overflow-auto">
+          <table className="w-full text-sm text-center border border-gray-200 min-w-[1000px]">
+            <thead className="bg-gray-100 text-slate-700">
+              <tr>
+                <th className="p-2 border-r border-gray-200 w-[110px]">الخدمة</th>
+                <th className="p-2 border-r border-gray-200 w-[110px]">الميزانية السنوية (درهم)</th>
+                {MONTHS.map(m => <th key={m.key} className="p-2 border-r border-gray-200 text-xs">{m.label}</th>)}
+              </tr>
+            </thead>
+            <tbody>
+              {shownUtilities.map(utility => {
+                const budget = budgets[utility];
+                const monthlyBudgets = budget ? getMonthlyBudgets(budget) : null;
+                return (
+                  <tr key={utility} className="border-t border-gray-200">
+                    <td className="p-2 border-r border-gray-200 font-bold text-slate-700">{UTILITIES[utility].label}</td>
+                    <td className="p-1 border-r border-gray-200">
+                      <input type="number" min="0" step="0.01" value={budget?.annual || ''} onChange={e => setAnnual(utility, e.target.value)} className={inputClass} placeholder="0" />
+                    </td>
+                    {MONTHS.map(m => (
+                      <td key={m.key} className="p-1 border-r border-gray-200">
+                        <input
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          value={budget?.monthly?.[m.key] ?? ''}
+                          onChange={e => setMonthly(utility, m.key, e.target.value)}
+                          className={inputClass}
+                          placeholder={monthlyBudgets ? formatNumber(monthlyBudgets[m.key]) : '0'}
+                          disabled={!budget?.annual}
+                        />
+                      </td>
+                    ))}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+
+          {hiddenUtilities.length > 0 && (
+            <div className="flex items-center gap-2 text-sm text-slate-700">
+              <span>إضافة خدمة:</span>
+              {hiddenUtilities.map(utility => (
+                <button key={utility} onClick={() => setShownUtilities(prev => [...prev, utility])} className="px-2 py-0.5 rounded-full border border-gray-300 hover:border-blue-400 text-xs">{UTILITIES[utility].label}</button>
+              ))}
+            </div>
+          )}
+
+          <div className="bg-blue-50 border border-blue-100 rounded p-2 text-xs text-blue-900">
+            الأشهر التي لا تحتوي على ميزانية شهرية يتم توزيع المتبقي من الميزانية السنوية عليها بالتساوي (القيمة الرمادية). تتم المقارنة مع بنود القيمة (درهم) للخدمات التي لها ميزانية فقط.
+          </div>
+        </div>
+
+        <div className="flex items-center justify-end gap-2 px-4 py-3 border-t border-gray-200 bg-gray-50">
+          <button onClick={onClose} className="px-4 py-2 rounded text-sm border border-gray-300 hover:bg-gray-100">إلغاء</button>
+          <button onClick={handleSave} className="px-4 py-2 rounded text-sm font-bold bg-[#091526] hover:bg-blue-800 text-white">حفظ</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BudgetEditor;
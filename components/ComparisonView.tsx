@@ -0,0 +1,129 @@
+import React, { useMemo, useState } from 'react';
+import { SiteData, MONTHS, RowType } from '../types.ts';
+import { MapPin, Hash, Activity, GitCompare, ArrowUp, ArrowDown } from 'lucide-react';
+import { buildComparison, ComparisonCell } from '../utils/comparison.ts';
+import { formatNumber } from '../utils/calculations.ts';
+
+interface ComparisonViewProps {
+  currentYear: number;
+  dataByYear: Record<number, SiteData[]>;
+}
+
+const ComparisonView: React.FC<ComparisonViewProps> = ({ currentYear, dataByYear }) => {
+  const availableYears = useMemo(() => {
+    return Object.keys(dataByYear).map(Number).sort((a, b) => a - b);
+  }, [dataByYear]);
+
+  // Default: the selected year and the one before it (if it has data)
+  const [selectedYears, setSelectedYears] = useState<number[]>(() => {
+    const defaults = [currentYear - 1, currentYear].filter(y => dataByYear[y]);
+    return defaults.length > 0 ? defaults : [currentYear];
+  });
+
+  const toggleYear = (y: number) => {
+    setSelectedYears(prev => prev.includes(y) ? prev.filter(p => p !== y) : [...prev, y]);
+  };
+
+  const comparison = useMemo(() => buildComparison(selectedYears, dataByYear), [selectedYears, dataByYear]);
+  const { years } = comparison;
+
+  // Render one cell: a line per year, with the change vs. the previous year beside it
+  const renderCell = (cell: ComparisonCell, isCost: boolean) => (
+    <div className="flex flex-col items-stretch gap-0.5 py-1 px-1 text-[11px] leading-tight">
+      {cell.values.map((value, i) => {
+        const change = i > 0 ? cell.changes[i - 1] : null;
+        const isIncrease = change ? change.change > 0 : false;
+        const isDecrease = change ? change.change < 0 : false;
+        // For cost, an increase is bad (red). For quantities we stay neutral (amber).
+        const changeColor = isIncrease ? (isCost ? 'text-red-600' : 'text-amber-600') : isDecrease ? 'text-green-600' : 'text-gray-400';
+
+        return (
+          <div key={years[i]} className="flex items-center justify-between gap-1">
+            <span className="text-gray-400 font-mono">{years[i]}</span>
+            <span className="font-semibold text-slate-800">{formatNumber(value)}</span>
+            {change && (
+              <span className={`flex items-center font-mono ${changeColor}`} title={`${formatNumber(change.change)}`}>
+                {isIncrease && <ArrowUp size={10} />}
+                {isDecrease && <ArrowDown size={10} />}
+                {change.changePercent === null ? '—' : `${formatNumber(Math.abs(change.changePercent))}%`}
+              </span>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-[#091526] p-4 rounded-t-lg border-b-4 border-yellow-500 shadow-sm text-center">
+        <h2 className="text-xl md:text-2xl font-bold text-white tracking-wide">مقارنة الاستهلاك بين السنوات</h2>
+      </div>
+
+      <div className="flex flex-wrap justify-start px-1 gap-2 items-center print:hidden">
+        <span className="flex items-center gap-2 text-sm font-bold text-slate-700 ml-2"><GitCompare size={16} />السنوات المقارنة:</span>
+        {availableYears.length === 0 && <span className="text-sm text-gray-500">لا توجد بيانات محفوظة بعد.</span>}
+        {availableYears.map(y => (
+          <button
+            key={y}
+            onClick={() => toggleYear(y)}
+            className={`px-3 py-1 rounded-full text-sm font-mono border transition-all ${selectedYears.includes(y) ? 'bg-[#091526] text-white border-blue-900' : 'bg-white text-slate-600 border-gray-300 hover:border-blue-400'}`}
+          >
+            {y}
+          </button>
+        ))}
+      </div>
+
+      {years.length < 2 ? (
+        <div className="bg-blue-50 border border-blue-100 rounded-lg p-8 text-center text-blue-900">الرجاء اختيار سنتين على الأقل للمقارنة.</div>
+      ) : (
+        <div className="overflow-x-auto border border-blue-900 rounded-b-lg shadow-lg bg-white">
+          <table className="w-full text-sm text-center border-collapse min-w-[1600px] table-fixed">
+            <thead>
+              <tr className="bg-[#334155] text-white font-bold border-b border-slate-600">
+                <th className="p-3 border-r border-slate-600 w-[160px] align-middle"><div className="flex items-center justify-center gap-2"><MapPin size={16} /><span>الموقع</span></div></th>
+                <th className="p-3 border-r border-slate-600 w-[120px] align-middle"><div className="flex items-center justify-center gap-2"><Hash size={16} /><span>رقم العداد</span></div></th>
+                <th className="p-3 border-r border-slate-600 w-[150px] align-middle"><div className="flex items-center justify-center gap-2"><Activity size={16} /><span>نوع الاستهلاك</span></div></th>
+                {MONTHS.map(month => (<th key={month.key} className="p-2 border-r border-slate-600 align-middle">{month.label}</th>))}
+                <th className="p-3 border-r border-slate-600 bg-[#091526] text-white w-[130px] align-middle">المجموع</th>
+              </tr>
+            </thead>
+            <tbody>
+              {comparison.sites.map(site => site.rows.map((row, rowIndex) => {
+                const isTotalRow = row.type === RowType.CALCULATED_TOTAL;
+                return (
+                  <tr key={`${site.id}-${row.id}`} className={`${isTotalRow ? 'bg-blue-100 font-bold text-blue-900' : 'text-slate-700'} ${rowIndex === site.rows.length - 1 ? 'border-b-4 border-blue-900' : 'border-b border-gray-200'}`}>
+                    {rowIndex === 0 && (
+                      <td rowSpan={site.rows.length} className="bg-blue-50/50 font-bold border-r border-blue-200 p-2 align-middle text-blue-900 break-words">{site.name}</td>
+                    )}
+                    {rowIndex === 0 && (
+                      <td rowSpan={site.rows.length} className="bg-gray-50/50 font-mono text-xs border-r border-blue-200 p-2 align-middle break-all text-slate-600">{site.meterNumber}</td>
+                    )}
+                    <td className={`p-2 border-r border-blue-200 align-middle break-words ${row.isCost ? 'text-blue-800 font-bold' : ''}`}>{row.label}</td>
+                    {MONTHS.map(month => (
+                      <td key={month.key} className="border-r border-blue-100 align-middle">{renderCell(row.months[month.key], row.isCost || isTotalRow)}</td>
+                    ))}
+                    <td className="border-r border-blue-200 align-middle bg-yellow-50/50">{renderCell(row.total, row.isCost || isTotalRow)}</td>
+                  </tr>
+                );
+              }))}
+              <tr className="bg-blue-200 text-blue-900 font-bold">
+                <td colSpan={3} className="p-3 border-r border-blue-800 align-middle bg-[#091526] text-white">الإجمالي الكلي (درهم)</td>
+                {MONTHS.map(month => (
+                  <td key={`grand-${month.key}`} className="border-r border-blue-800 align-middle">{renderCell(comparison.grandTotals.months[month.key], true)}</td>
+                ))}
+                <td className="border-r border-blue-800 align-middle bg-yellow-400/60">{renderCell(comparison.grandTotals.total, true)}</td>
+              </tr>
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div className="flex justify-end pt-4">
+        <div className="text-sm text-gray-500 italic">* تظهر نسبة التغير مقارنة بالسنة السابقة لها في الاختيار.<br/>* اللون الأحمر يعني زيادة في التكلفة، والأخضر يعني انخفاضاً.</div>
+      </div>
+    </div>
+  );
+};
+
+export default ComparisonView;
@@ -1,12 +1,33 @@
 import React, { useCallback, useMemo, useRef, useState, useEffect } from 'react';
-import { SiteData, MONTHS, MonthKey, RowType, ConsumptionRow, Attachment } from '../types.ts';
-import { Save, Printer, Plus, Trash2, Archive, RotateCcw, Upload, Download, MapPin, Hash, Activity, Check, Paperclip, FileText, Image as ImageIcon, FileSpreadsheet, X, File, Eye, FolderOpen, PlusCircle, MinusCircle } from 'lucide-react';
-import { read, utils, writeFile } from 'xlsx';
-
-// Helper to prevent floating point errors
-const safeFloat = (num: number): number => {
-  return Math.round((num + Number.EPSILON) * 100) / 100;
-};
+import { SiteData, MONTHS, MonthKey, RowType, ConsumptionRow, Attachment, Tariff, UnitKey, UtilityKind, MeasureKind } from '../types.ts';
+import { Save, Printer, Plus, Trash2, Archive, RotateCcw, Upload, Download, MapPin, Hash, Activity, Check, Paperclip, X, Eye, Calculator, RotateCw, FolderOpen, PlusCircle, MinusCircle, AlertTriangle, Wallet, History, FileSpreadsheet, FileText, Columns3, ExternalLink, Settings2, Gauge } from 'lucide-react';
+import { WorkBook, read, utils, writeFile } from 'xlsx';
+import { saveAttachmentBlob, deleteAttachmentBlob, MAX_ATTACHMENT_SIZE_MB } from '../utils/attachmentStore.ts';
+import AttachmentGallery from './AttachmentGallery.tsx';
+import SiteFilterBar from './SiteFilterBar.tsx';
+import SiteSettingsPanel from './SiteSettingsPanel.tsx';
+import FileIcon from './FileIcon.tsx';
+import TariffEditor from './TariffEditor.tsx';
+import ReadingEditor from './ReadingEditor.tsx';
+import AnomalySummary from './AnomalySummary.tsx';
+import BudgetEditor from './BudgetEditor.tsx';
+import ImportWizard from './ImportWizard.tsx';
+import PdfReportDialog from './PdfReportDialog.tsx';
+import { getTariffCostRowIds } from '../utils/tariffs.ts';
+import { applyReadings, evaluateReadings, rolloverCapacity, setMonthReading } from '../utils/readings.ts';
+import { Anomaly, anomalyKey, detectAnomalies, lastExpectedMonthIndex } from '../utils/anomalies.ts';
+import { BudgetStatus, calculateBudgetVariance } from '../utils/budgets.ts';
+import { AuditDraft, formatAuditMonth } from '../utils/audit.ts';
+import { buildYearSheet, buildSiteDetailsSheet, yearSheetName, SITE_DETAILS_SHEET_NAME } from '../utils/workbook.ts';
+import { ImportResult } from '../utils/excelImport.ts';
+import { PERIODS, PeriodKey, calculatePeriodTotal } from '../utils/periods.ts';
+import { buildPath } from '../utils/routing.ts';
+import { DEFAULT_SITE_FILTERS, SiteFilters, applySiteFilters, isFiltering, siteProviders } from '../utils/siteFilters.ts';
+import { distinctDetailValues } from '../utils/siteDetails.ts';
+import { MeterRowGroup, describeMeter, groupRowsByMeter, joinMeterNumbers, meterLabel } from '../utils/meters.ts';
+import { UNITS } from '../utils/units.ts';
+import { UTILITIES, MEASURES, pairCostRows, calculateConsumptionTotals, calculateCostTotals } from '../utils/classification.ts';
+import { calculateSiteTotals, calculateHorizontalTotal, calculateGrandTotals, createEmptyMonthValues, formatNumber, safeFloat } from '../utils/calculations.ts';
 
 // Auto-resizing textarea component
 const AutoResizeTextarea: React.FC<React.TextareaHTMLAttributes<HTMLTextAreaElement>> = ({ value, onChange, className, style, ...props }) => {
@@ -44,39 +65,76 @@ const AutoResizeTextarea: React.FC<React.TextareaHTMLAttributes<HTMLTextAreaElem
   );
 };
 
+// Budget vs. actual cells: under budget, close to it, or over it
+const BUDGET_STATUS_CLASSES: Record<BudgetStatus, string> = {
+  none: 'text-gray-400',
+  under: 'bg-green-50 text-green-700',
+  warning: 'bg-amber-50 text-amber-700',
+  over: 'bg-red-50 text-red-700 font-bold'
+};
+
+const formatVariance = (variance: number) => `${variance > 0 ? '+' : ''}${formatNumber(variance)}`;
+
+// A line of a site in the table. `row` is missing on the placeholder line of a meter without rows
+type DisplayRow = { group: MeterRowGroup; isGroupStart: boolean; row?: ConsumptionRow; rowIndex?: number };
+
 interface ConsumptionTableProps {
   year: number;
   data: SiteData[];
   archivedData: SiteData[];
-  onDataChange: (newData: SiteData[]) => void;
+  previousYearData?: SiteData[]; // Used as the reference for anomaly detection
+  getCarriedReading: (siteId: string, rowId: string) => number | undefined; // The last meter reading before this year
+  onDataChange: (change: SiteData[] | ((sites: SiteData[]) => SiteData[])) => void; // A function is applied to the latest sites of `year`
   onAddSite: (newSite: SiteData) => void;
   onSiteMetadataUpdate: (siteId: string, updates: Partial<SiteData>) => void;
   onArchiveSite: (siteId: string) => void;
   onRestoreSite: (siteId: string) => void;
   onDeletePermanently: (siteId: string) => void;
   onSave: () => void;
+  onAudit: (drafts: AuditDraft[]) => void;
+  onShowAuditLog: (siteId: string) => void;
+  onExportWorkbook: () => void; // Opens the multi-year export
+  periodColumns: PeriodKey[]; // Aggregate columns shown after the months
+  onPeriodColumnsChange: (periods: PeriodKey[]) => void;
+  onOpenSite: (siteId: string) => void; // Shows the site's detail page
 }
 
 const ConsumptionTable: React.FC<ConsumptionTableProps> = ({ 
   year, 
   data, 
   archivedData,
+  previousYearData,
+  getCarriedReading,
   onDataChange, 
   onAddSite,
   onSiteMetadataUpdate,
   onArchiveSite,
   onRestoreSite,
   onDeletePermanently,
-  onSave
+  onSave,
+  onAudit,
+  onShowAuditLog,
+  onExportWorkbook,
+  periodColumns,
+  onPeriodColumnsChange,
+  onOpenSite
 }) => {
 
-  const fileInputRef = useRef<HTMLInputElement>(null);
   const importInputRef = useRef<HTMLInputElement>(null);
   const [showArchive, setShowArchive] = useState(false);
   const archiveRef = useRef<HTMLDivElement>(null);
   const [saveStatus, setSaveStatus] = useState<'idle' | 'saved'>('idle');
-
-  const [activeUploadRow, setActiveUploadRow] = useState<{siteIndex: number, rowIndex: number} | null>(null);
+  const [showAnomalies, setShowAnomalies] = useState(false);
+
+  const [budgetTargetIndex, setBudgetTargetIndex] = useState<number | null>(null);
+  const [tariffTarget, setTariffTarget] = useState<{siteIndex: number, rowIndex: number} | null>(null);
+  const [readingTarget, setReadingTarget] = useState<{ siteIndex: number; rowIndex: number } | null>(null);
+  const [galleryTarget, setGalleryTarget] = useState<{siteIndex: number, rowIndex: number, isArchive: boolean, month?: MonthKey} | null>(null);
+  const [pendingImport, setPendingImport] = useState<{ fileName: string; workbook: WorkBook } | null>(null);
+  const [showReportDialog, setShowReportDialog] = useState(false);
+  const [showPeriodPicker, setShowPeriodPicker] = useState(false);
+  const [filters, setFilters] = useState<SiteFilters>(DEFAULT_SITE_FILTERS);
+  const [settingsTarget, setSettingsTarget] = useState<{ siteIndex: number; isArchive: boolean } | null>(null);
 
   useEffect(() => {
     if (showArchive && archiveRef.current) {
@@ -84,38 +142,26 @@ const ConsumptionTable: React.FC<ConsumptionTableProps> = ({
     }
   }, [showArchive]);
 
-  const calculateSiteTotals = (siteRows: ConsumptionRow[]): ConsumptionRow[] => {
-    const newRows = [...siteRows];
-    const totalRowIndex = newRows.findIndex(r => r.type === RowType.CALCULATED_TOTAL);
-    
-    if (totalRowIndex !== -1) {
-      const totalRow = { ...newRows[totalRowIndex] };
-      const newTotalValues = { ...totalRow.values };
-
-      MONTHS.forEach(month => {
-        let monthTotalCost = 0;
-        newRows.forEach(r => {
-          if (r.type === RowType.INPUT && r.isCost) {
-            monthTotalCost = safeFloat(monthTotalCost + r.values[month.key]);
-          }
-        });
-        newTotalValues[month.key] = monthTotalCost;
-      });
-      
-      totalRow.values = newTotalValues;
-      newRows[totalRowIndex] = totalRow;
-    }
-    return newRows;
-  };
-
   const handleInputChange = useCallback((siteIndex: number, rowIndex: number, month: MonthKey, value: string) => {
     const numValue = value === '' ? 0 : parseFloat(value);
     
     const newData = [...data];
-    const site = { ...newData[siteIndex] };
+    const site = { ...newData[siteIndex], rows: [...newData[siteIndex].rows] };
     const row = { ...site.rows[rowIndex] };
+    const oldValue = row.values[month];
     
-    row.values = { ...row.values, [month]: numValue };
+    if (getTariffCostRowIds(site.rows).has(row.id)) {
+      // Tariff-driven cost row: typing overrides the calculated value, clearing the cell restores it
+      const overrides = { ...row.manualOverrides };
+      if (value === '') {
+        delete overrides[month];
+      } else {
+        overrides[month] = numValue;
+      }
+      row.manualOverrides = overrides;
+    } else {
+      row.values = { ...row.values, [month]: numValue };
+    }
     site.rows[rowIndex] = row;
 
     // Recalculate totals
@@ -123,47 +169,160 @@ const ConsumptionTable: React.FC<ConsumptionTableProps> = ({
     newData[siteIndex] = site;
 
     onDataChange(newData);
-  }, [data, onDataChange]);
+    onAudit([{ action: 'value', siteId: site.id, siteName: site.name, rowId: row.id, rowLabel: row.label, month, oldValue, newValue: site.rows[rowIndex].values[month] }]);
+  }, [data, onDataChange, onAudit]);
+
+  const handleSetTariff = (siteIndex: number, rowIndex: number, tariff: Tariff | undefined, costRowId: string | undefined) => {
+    const newData = [...data];
+    const site = { ...newData[siteIndex] };
+    const rows = [...site.rows];
+    const previousCostRowId = rows[rowIndex].costRowId;
+
+    rows[rowIndex] = { ...rows[rowIndex], tariff, costRowId };
+
+    // The previously calculated cost row goes back to manual input, keeping its last values
+    if (previousCostRowId && (!tariff || previousCostRowId !== costRowId)) {
+      const previousIndex = rows.findIndex(r => r.id === previousCostRowId);
+      if (previousIndex !== -1) rows[previousIndex] = { ...rows[previousIndex], manualOverrides: undefined };
+    }
+
+    site.rows = calculateSiteTotals(rows);
+    newData[siteIndex] = site;
+    onDataChange(newData);
+  };
+
+  // --- Meter readings ---
+
+  const carriedOpening = (site: SiteData, row: ConsumptionRow) => getCarriedReading(site.id, row.id);
+
+  // `readings` undefined turns reading mode off; the values stay as they were last derived
+  const handleSetReadings = (siteIndex: number, rowIndex: number, readings: ConsumptionRow['readings']) => {
+    const newData = [...data];
+    const site = { ...newData[siteIndex] };
+    const rows = [...site.rows];
+    const previous = rows[rowIndex];
+    rows[rowIndex] = applyReadings({ ...previous, readings }, carriedOpening(site, previous), rolloverCapacity(site, previous));
+
+    site.rows = calculateSiteTotals(rows);
+    newData[siteIndex] = site;
+    onDataChange(newData);
+
+    const row = rows[rowIndex];
+    const changedMonths = MONTHS.filter(m => row.values[m.key] !== previous.values[m.key]);
+    if (changedMonths.length > 0) {
+      onAudit(changedMonths.map(m => ({ action: 'value', siteId: site.id, siteName: site.name, rowId: row.id, rowLabel: row.label, month: m.key, oldValue: previous.values[m.key], newValue: row.values[m.key] })));
+    }
+  };
+
+  const handleClosingReadingChange = (siteIndex: number, rowIndex: number, month: MonthKey, value: string) => {
+    const row = data[siteIndex].rows[rowIndex];
+    const closing = value === '' ? undefined : parseFloat(value);
+    handleSetReadings(siteIndex, rowIndex, setMonthReading(row.readings, month, { ...row.readings?.[month], closing }));
+  };
+
+  // Budgets belong to the current year only, so they are saved with the year's data rather than as site metadata
+  const handleSetBudgets = (siteIndex: number, budgets: SiteData['budgets']) => {
+    const newData = [...data];
+    newData[siteIndex] = { ...newData[siteIndex], budgets };
+    onDataChange(newData);
+  };
+
+  const handleResetOverride = (siteIndex: number, rowIndex: number, month: MonthKey) => {
+    handleInputChange(siteIndex, rowIndex, month, '');
+  };
 
   const handleSiteNameChange = (siteIndex: number, value: string) => {
     onSiteMetadataUpdate(data[siteIndex].id, { name: value });
   };
 
-  const handleMeterNumberChange = (siteIndex: number, value: string) => {
-    onSiteMetadataUpdate(data[siteIndex].id, { meterNumber: value });
+  // Meters are shared by every year; the joined meter number is kept in step for exports and import matching
+  const handleMeterNumberChange = (siteIndex: number, meterId: string, value: string) => {
+    const meters = (data[siteIndex].meters || []).map(m => m.id === meterId ? { ...m, number: value } : m);
+    onSiteMetadataUpdate(data[siteIndex].id, { meters, meterNumber: joinMeterNumbers(meters) });
+  };
+
+  const handleRowMeterChange = (siteIndex: number, rowIndex: number, meterId: string) => {
+    const newData = [...data];
+    const site = { ...newData[siteIndex] };
+    const rows = [...site.rows];
+    rows[rowIndex] = { ...rows[rowIndex], meterId: meterId || undefined };
+    site.rows = rows;
+    newData[siteIndex] = site;
+    onDataChange(newData);
   };
 
   const handleRowLabelChange = (siteIndex: number, rowIndex: number, value: string) => {
     const newData = [...data];
     const site = { ...newData[siteIndex] };
     const rows = [...site.rows];
+    const oldLabel = rows[rowIndex].label;
     rows[rowIndex] = { ...rows[rowIndex], label: value };
     site.rows = rows;
     newData[siteIndex] = site;
     onDataChange(newData);
+    onAudit([{ action: 'row_label', siteId: site.id, siteName: site.name, rowId: rows[rowIndex].id, rowLabel: value, oldValue: oldLabel, newValue: value }]);
   };
 
-  // --- Row Management (Add/Delete) ---
+  const handleRowUnitChange = (siteIndex: number, rowIndex: number, value: UnitKey | '') => {
+    const newData = [...data];
+    const site = { ...newData[siteIndex] };
+    const rows = [...site.rows];
+    rows[rowIndex] = { ...rows[rowIndex], unit: value || undefined };
+    site.rows = rows;
+    newData[siteIndex] = site;
+    onDataChange(newData);
+  };
 
-  const handleAddRow = (siteIndex: number, insertAfterIndex?: number) => {
+  const handleRowClassificationChange = (siteIndex: number, rowIndex: number, updates: { utility?: UtilityKind; measure?: MeasureKind }) => {
     const newData = [...data];
     const site = { ...newData[siteIndex] };
+    let rows = [...site.rows];
+    const row = { ...rows[rowIndex], ...updates };
+
+    if (updates.measure) {
+      row.isCost = updates.measure === 'cost';
+      if (updates.measure === 'cost') {
+        // A cost row cannot carry a tariff or point to another cost row
+        row.unit = 'aed';
+        delete row.tariff;
+        delete row.costRowId;
+        delete row.readings;
+      } else if (row.unit === 'aed') {
+        row.unit = UTILITIES[row.utility].defaultUnit;
+      }
+      // Unpair rows that pointed at this row as their cost row
+      rows = rows.map(r => r.costRowId === row.id && updates.measure === 'quantity' ? { ...r, costRowId: undefined, tariff: undefined } : r);
+    }
+    rows[rowIndex] = row;
+
+    site.rows = calculateSiteTotals(pairCostRows(rows));
+    newData[siteIndex] = site;
+    onDataChange(newData);
+  };
+
+  // --- Row Management (Add/Delete) ---
+
+  const handleAddRow = (siteIndex: number, insertAfterIndex?: number, meterId?: string) => {
+    const newData = [...data];
+    const site = { ...newData[siteIndex], rows: [...newData[siteIndex].rows] };
     const timestamp = Date.now();
 
-    const createEmptyMonthValues = () => {
-      const v: Record<string, number> = {};
-      MONTHS.forEach(m => v[m.key] = 0);
-      return v as Record<MonthKey, number>;
-    };
+    // New rows take the utility and meter of the row they are inserted after, or the utility of the meter they are added to
+    const previousRow = typeof insertAfterIndex === 'number' ? site.rows[insertAfterIndex] : undefined;
+    const meter = site.meters?.find(m => m.id === (previousRow ? previousRow.meterId : meterId));
+    const utility = previousRow ? previousRow.utility : meter?.utility || 'other';
 
     const newRow: ConsumptionRow = {
       id: `s_${site.id}_r_${timestamp}`,
       label: 'بند جديد',
       type: RowType.INPUT,
+      utility,
+      measure: 'quantity',
       isCost: false, // Changed to false to match 'Water (cubic meters)' behavior (no cost contribution)
       values: createEmptyMonthValues(),
       attachments: [],
-      unit: ''
+      unit: UTILITIES[utility].defaultUnit,
+      meterId: meter?.id
     };
 
     if (typeof insertAfterIndex === 'number') {
@@ -181,6 +340,7 @@ const ConsumptionTable: React.FC<ConsumptionTableProps> = ({
 
     newData[siteIndex] = site;
     onDataChange(newData);
+    onAudit([{ action: 'row_add', siteId: site.id, siteName: site.name, rowId: newRow.id, rowLabel: newRow.label }]);
   };
 
   const handleDeleteRow = (siteIndex: number, rowIndex: number) => {
@@ -188,110 +348,101 @@ const ConsumptionTable: React.FC<ConsumptionTableProps> = ({
 
     const newData = [...data];
     const site = { ...newData[siteIndex] };
+    const deletedRow = site.rows[rowIndex];
     
-    // Remove the row
-    site.rows.splice(rowIndex, 1);
+    // Remove the row (on a copy, so earlier snapshots kept for undo stay intact)
+    site.rows = site.rows.filter((_, i) => i !== rowIndex);
     
-    // Recalculate totals after deletion
-    site.rows = calculateSiteTotals(site.rows);
+    // Recalculate totals after deletion (and re-pair rows whose cost row was deleted)
+    site.rows = calculateSiteTotals(pairCostRows(site.rows));
 
     newData[siteIndex] = site;
     onDataChange(newData);
+    onAudit([{ action: 'row_delete', siteId: site.id, siteName: site.name, rowId: deletedRow.id, rowLabel: deletedRow.label, oldValue: deletedRow.label }]);
   };
 
   // --- Attachment Handlers ---
 
-  const triggerFileUpload = (siteIndex: number, rowIndex: number) => {
-    setActiveUploadRow({ siteIndex, rowIndex });
-    if (fileInputRef.current) {
-      fileInputRef.current.value = '';
-      fileInputRef.current.click();
-    }
+  const openGallery = (siteIndex: number, rowIndex: number, isArchive: boolean, month?: MonthKey) => {
+    setGalleryTarget({ siteIndex, rowIndex, isArchive, month });
   };
 
-  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file || !activeUploadRow) return;
-
-    // Size limit check (2MB) for browser safety
-    if (file.size > 2 * 1024 * 1024) {
-      alert("حجم الملف كبير. الرجاء اختيار ملف أصغر من 2 ميجابايت لضمان حفظ البيانات.");
-      return;
-    }
-
-    const reader = new FileReader();
-    reader.onload = (event) => {
-      const base64Data = event.target?.result as string;
-      
-      const newData = [...data];
-      const site = { ...newData[activeUploadRow.siteIndex] };
-      const row = { ...site.rows[activeUploadRow.rowIndex] };
-      
-      const newAttachment: Attachment = {
-        id: `att_${Date.now()}`,
-        name: file.name,
-        type: file.type,
-        data: base64Data
-      };
-
-      // Replace existing attachments with the new one (Single file policy)
-      row.attachments = [newAttachment];
-      
-      site.rows[activeUploadRow.rowIndex] = row;
-      newData[activeUploadRow.siteIndex] = site;
-      
-      onDataChange(newData);
-      setActiveUploadRow(null);
-    };
-    reader.readAsDataURL(file);
+  // Applied to the latest data by site and row id: an upload finishes after other edits may have been made
+  const updateRowAttachments = (siteId: string, rowId: string, updater: (attachments: Attachment[]) => Attachment[]) => {
+    onDataChange(sites => sites.map(site => site.id !== siteId ? site : {
+      ...site,
+      rows: site.rows.map(row => row.id !== rowId ? row : { ...row, attachments: updater(row.attachments || []) })
+    }));
   };
 
-  const handleDeleteAttachment = (siteIndex: number, rowIndex: number, attachmentId: string) => {
-    if (!window.confirm("هل أنت متأكد من حذف هذا المرفق؟")) return;
+  const auditAttachment = (site: SiteData, row: ConsumptionRow, draft: Omit<AuditDraft, 'siteId' | 'siteName' | 'rowId' | 'rowLabel'>) => {
+    onAudit([{ siteId: site.id, siteName: site.name, rowId: row.id, rowLabel: row.label, ...draft }]);
+  };
 
-    const newData = [...data];
-    const site = { ...newData[siteIndex] };
-    const row = { ...site.rows[rowIndex] };
-    
-    row.attachments = []; // Clear attachments
-    site.rows[rowIndex] = row;
-    newData[siteIndex] = site;
-    onDataChange(newData);
+  const handleAddAttachments = (siteIndex: number, rowIndex: number, files: File[], month?: MonthKey) => {
+    const site = data[siteIndex];
+    const row = site.rows[rowIndex];
+    const timestamp = Date.now();
+    const newAttachments: Attachment[] = files.map((file, i) => ({
+      id: `att_${timestamp}_${i}`,
+      name: file.name,
+      type: file.type,
+      size: file.size,
+      month
+    }));
+
+    // The file content goes to IndexedDB; the row only keeps the reference
+    Promise.all(newAttachments.map((attachment, i) => saveAttachmentBlob(attachment.id, files[i])))
+      .then(() => {
+        updateRowAttachments(site.id, row.id, attachments => [...attachments, ...newAttachments]);
+        auditAttachment(site, row, { action: 'attachment_add', month, newValue: newAttachments.map(a => a.name).join('، ') });
+      })
+      .catch(err => {
+        console.error("Attachment Save Error:", err);
+        alert("تعذر حفظ المرفق في ذاكرة المتصفح.");
+        newAttachments.forEach(a => deleteAttachmentBlob(a.id).catch(() => undefined));
+      });
   };
 
-  const getFileIcon = (fileName: string, mimeType: string) => {
-    const ext = fileName.split('.').pop()?.toLowerCase() || '';
-    
-    if (mimeType.startsWith('image/') || ['jpg', 'jpeg', 'png', 'gif', 'svg'].includes(ext)) {
-      return <ImageIcon size={18} className="text-purple-600" strokeWidth={2} />;
+  const handleUpdateAttachment = (siteIndex: number, rowIndex: number, attachmentId: string, updates: Partial<Attachment>) => {
+    const site = data[siteIndex];
+    const row = site.rows[rowIndex];
+    const previous = row.attachments?.find(a => a.id === attachmentId);
+    if (previous) {
+      auditAttachment(site, row, 'name' in updates
+        ? { action: 'attachment_update', month: previous.month, field: 'attachmentName', oldValue: previous.name, newValue: updates.name }
+        : { action: 'attachment_update', month: previous.month, field: 'attachmentMonth', oldValue: formatAuditMonth(previous.month), newValue: formatAuditMonth(updates.month) });
     }
-    if (ext === 'pdf') return <FileText size={18} className="text-red-600" strokeWidth={2} />;
-    if (['doc', 'docx'].includes(ext)) return <FileText size={18} className="text-blue-600" strokeWidth={2} />;
-    if (['xls', 'xlsx', 'csv'].includes(ext)) return <FileSpreadsheet size={18} className="text-emerald-600" strokeWidth={2} />;
-    if (['ppt', 'pptx'].includes(ext)) return <File size={18} className="text-orange-500" strokeWidth={2} />;
-    if (ext === 'txt') return <FileText size={18} className="text-gray-500" strokeWidth={2} />;
-    return <File size={18} className="text-slate-400" strokeWidth={2} />;
+    updateRowAttachments(site.id, row.id, attachments => attachments.map(a => a.id === attachmentId ? { ...a, ...updates } : a));
+  };
+
+  const handleDeleteAttachment = (siteIndex: number, rowIndex: number, attachmentId: string) => {
+    // The file stays in storage so the removal can be undone; unreferenced files are pruned on startup
+    const site = data[siteIndex];
+    const row = site.rows[rowIndex];
+    const removed = row.attachments?.find(a => a.id === attachmentId);
+    if (removed) auditAttachment(site, row, { action: 'attachment_delete', month: removed.month, oldValue: removed.name });
+    updateRowAttachments(site.id, row.id, attachments => attachments.filter(a => a.id !== attachmentId));
   };
 
   const handleAddSite = () => {
     const timestamp = Date.now();
-    const createEmptyMonthValues = () => {
-      const v: Record<string, number> = {};
-      MONTHS.forEach(m => v[m.key] = 0);
-      return v as Record<MonthKey, number>;
-    };
 
     const newSite: SiteData = {
       id: `site_${timestamp}`,
       name: 'موقع جديد',
       meterNumber: '',
       startYear: year,
+      meters: [
+        { id: `s_${timestamp}_m1`, number: '', utility: 'water' },
+        { id: `s_${timestamp}_m2`, number: '', utility: 'electricity' }
+      ],
       rows: [
-        { id: `s_${timestamp}_r1`, label: 'الماء ( متر مكعب)', unit: '', type: RowType.INPUT, isCost: false, values: createEmptyMonthValues(), attachments: [] },
-        { id: `s_${timestamp}_r2`, label: 'قيمة الاستهلاك الماء', type: RowType.INPUT, isCost: true, values: createEmptyMonthValues(), attachments: [] },
-        { id: `s_${timestamp}_r3`, label: 'الكهرباء ( كيلو واط )', unit: '', type: RowType.INPUT, isCost: false, values: createEmptyMonthValues(), attachments: [] },
-        { id: `s_${timestamp}_r4`, label: 'قيمة الاستهلاك الكهرباء', type: RowType.INPUT, isCost: true, values: createEmptyMonthValues(), attachments: [] },
-        { id: `s_${timestamp}_total`, label: 'إجمالي قيمة الاستهلاك', type: RowType.CALCULATED_TOTAL, isCost: false, values: createEmptyMonthValues(), attachments: [] },
+        { id: `s_${timestamp}_r1`, label: 'الماء ( متر مكعب)', unit: 'm3', utility: 'water', measure: 'quantity', type: RowType.INPUT, isCost: false, costRowId: `s_${timestamp}_r2`, meterId: `s_${timestamp}_m1`, values: createEmptyMonthValues(), attachments: [] },
+        { id: `s_${timestamp}_r2`, label: 'قيمة الاستهلاك الماء', unit: 'aed', utility: 'water', measure: 'cost', type: RowType.INPUT, isCost: true, meterId: `s_${timestamp}_m1`, values: createEmptyMonthValues(), attachments: [] },
+        { id: `s_${timestamp}_r3`, label: 'الكهرباء ( كيلو واط )', unit: 'kwh', utility: 'electricity', measure: 'quantity', type: RowType.INPUT, isCost: false, costRowId: `s_${timestamp}_r4`, meterId: `s_${timestamp}_m2`, values: createEmptyMonthValues(), attachments: [] },
+        { id: `s_${timestamp}_r4`, label: 'قيمة الاستهلاك الكهرباء', unit: 'aed', utility: 'electricity', measure: 'cost', type: RowType.INPUT, isCost: true, meterId: `s_${timestamp}_m2`, values: createEmptyMonthValues(), attachments: [] },
+        { id: `s_${timestamp}_total`, label: 'إجمالي قيمة الاستهلاك', unit: 'aed', utility: 'other', measure: 'cost', type: RowType.CALCULATED_TOTAL, isCost: false, values: createEmptyMonthValues(), attachments: [] },
       ]
     };
     onAddSite(newSite);
@@ -337,71 +488,8 @@ const ConsumptionTable: React.FC<ConsumptionTableProps> = ({
       if (!bstr) return;
 
       try {
-        const wb = read(bstr, { type: 'array' });
-        const wsname = wb.SheetNames[0];
-        const ws = wb.Sheets[wsname];
-        const rawData = utils.sheet_to_json<any[]>(ws, { header: 1 });
-
-        const importedSites: SiteData[] = [];
-        let currentSite: SiteData | null = null;
-
-        for (let i = 1; i < rawData.length; i++) {
-          const row = rawData[i];
-          if (!row || row.length === 0) continue;
-
-          const siteName = row[0];
-          const meterNumber = row[1];
-          const label = row[2];
-
-          if (siteName) {
-            if (currentSite) importedSites.push(currentSite);
-            const timestamp = Date.now() + i;
-            currentSite = {
-              id: `site_imp_${timestamp}`,
-              name: String(siteName),
-              meterNumber: meterNumber ? String(meterNumber) : '',
-              startYear: year,
-              rows: []
-            };
-          }
-
-          if (!currentSite && !siteName) continue;
-
-          if (label && currentSite) {
-             const labelStr = String(label);
-             const isTotal = labelStr.includes('إجمالي') || labelStr.includes('Total');
-             const isCost = labelStr.includes('قيمة') || labelStr.includes('Value') || labelStr.includes('Price');
-             
-             const monthValues: Record<MonthKey, number> = {} as any;
-             MONTHS.forEach((m, idx) => {
-               const val = row[3 + idx];
-               monthValues[m.key] = typeof val === 'number' ? val : 0;
-             });
-
-             const newRow: ConsumptionRow = {
-               id: `r_imp_${Date.now()}_${i}`,
-               label: labelStr,
-               type: isTotal ? RowType.CALCULATED_TOTAL : RowType.INPUT,
-               isCost: isCost,
-               unit: '', 
-               values: monthValues,
-               attachments: []
-             };
-             if (isTotal) newRow.isCost = false;
-             currentSite.rows.push(newRow);
-          }
-        }
-
-        if (currentSite) importedSites.push(currentSite);
-
-        if (importedSites.length > 0) {
-          if (window.confirm(`تم العثور على ${importedSites.length} موقع. استبدال البيانات؟`)) {
-            onDataChange(importedSites);
-          }
-        } else {
-          alert('لم يتم العثور على بيانات صالحة.');
-        }
-
+        // The layout is mapped in the import wizard
+        setPendingImport({ fileName: file.name, workbook: read(bstr, { type: 'array' }) });
       } catch (error) {
         console.error("Import Error:", error);
         alert('حدث خطأ أثناء قراءة الملف.');
@@ -412,85 +500,51 @@ const ConsumptionTable: React.FC<ConsumptionTableProps> = ({
     reader.readAsArrayBuffer(file);
   };
 
-  const calculateHorizontalTotal = (values: Record<MonthKey, number>): number => {
-    const sum = Object.values(values).reduce((sum, current) => sum + current, 0);
-    return safeFloat(sum);
+  const handleImportResult = (result: ImportResult) => {
+    onDataChange(result.sites);
+    onAudit([{ action: 'import', newValue: pendingImport?.fileName }]);
+    setPendingImport(null);
+    alert(`تم الاستيراد: ${result.matchedSites} موقع مطابق (${result.updatedValues} قيمة محدثة، ${result.addedRows} بند جديد)، و${result.newSites} موقع جديد.`);
   };
 
-  const formatNumber = (num: number) => {
-    if (Math.abs(num) < 0.005) return "0";
-    return Number.isInteger(num) ? num.toString() : num.toFixed(2);
-  };
+  // Sites shown in the table, as indexes into `data` (handlers edit sites by index)
+  const visibleSiteIndexes = useMemo(() => applySiteFilters(data, filters, lastExpectedMonthIndex(year)), [data, filters, year]);
+  const filtering = isFiltering(filters);
+  const providers = useMemo(() => [...new Set<string>(data.flatMap(siteProviders))].sort((a, b) => a.localeCompare(b, 'ar')), [data]);
+  const emirates = useMemo(() => distinctDetailValues(data, 'emirate'), [data]);
 
-  const grandTotals = useMemo(() => {
-    const totals: Record<MonthKey, number> = {
-      jan: 0, feb: 0, mar: 0, apr: 0, may: 0, jun: 0,
-      jul: 0, aug: 0, sep: 0, oct: 0, nov: 0, dec: 0
-    };
-    
-    data.forEach(site => {
-      const totalRow = site.rows.find(r => r.type === RowType.CALCULATED_TOTAL);
-      if (totalRow) {
-        MONTHS.forEach(month => {
-          totals[month.key] = safeFloat(totals[month.key] + totalRow.values[month.key]);
-        });
-      } else {
-        site.rows.filter(r => r.isCost).forEach(row => {
-          MONTHS.forEach(month => {
-            totals[month.key] = safeFloat(totals[month.key] + row.values[month.key]);
-          });
-        });
-      }
-    });
+  // The footer totals follow the filters, so they always match the rows on screen
+  const totalsSites = useMemo(() => filtering ? visibleSiteIndexes.map(i => data[i]) : data, [filtering, visibleSiteIndexes, data]);
+  const totalsScope = filtering ? `المواقع المعروضة (${visibleSiteIndexes.length} من ${data.length})` : 'جميع المواقع';
 
-    return totals;
-  }, [data]);
+  const grandTotals = useMemo(() => calculateGrandTotals(totalsSites), [totalsSites]);
 
   const grandTotalHorizontal = calculateHorizontalTotal(grandTotals);
 
+  // Physical consumption per utility, in the utility's canonical unit
+  const consumptionTotals = useMemo(() => calculateConsumptionTotals(totalsSites), [totalsSites]);
+  const visibleConsumptionTotals = (Object.keys(UTILITIES) as UtilityKind[]).filter(utility => consumptionTotals[utility]);
+
+  // Cost subtotals per utility, breaking down the grand total
+  const costTotals = useMemo(() => calculateCostTotals(totalsSites), [totalsSites]);
+  const visibleCostTotals = (Object.keys(UTILITIES) as UtilityKind[]).filter(utility => costTotals[utility]);
+
+  // Abnormal monthly values, indexed by cell for highlighting
+  const anomalies = useMemo(() => detectAnomalies(data, previousYearData, lastExpectedMonthIndex(year)), [data, previousYearData, year]);
+  const anomaliesByCell = useMemo(() => {
+    const byCell = new Map<string, Anomaly[]>();
+    anomalies.forEach(anomaly => {
+      const key = anomalyKey(anomaly.siteId, anomaly.rowId, anomaly.month);
+      byCell.set(key, [...(byCell.get(key) || []), anomaly]);
+    });
+    return byCell;
+  }, [anomalies]);
+
   const handleExportClick = () => {
     try {
-      const headers = ['الموقع', 'رقم العداد', 'نوع الاستهلاك', ...MONTHS.map(m => m.label), 'المجموع', 'المرفقات'];
-      const body: any[][] = [];
-
-      data.forEach(site => {
-        site.rows.forEach((row, index) => {
-          const rowTotal = calculateHorizontalTotal(row.values);
-          const attachmentsList = row.attachments?.map(a => a.name).join(', ') || '';
-          body.push([
-            index === 0 ? site.name : '', 
-            index === 0 ? site.meterNumber : '',
-            row.label,
-            ...MONTHS.map(m => row.values[m.key]),
-            rowTotal,
-            attachmentsList
-          ]);
-        });
-        body.push([]);
-      });
-
-      body.push(['الإجمالي الكلي (درهم)', '', '', ...MONTHS.map(m => grandTotals[m.key]), grandTotalHorizontal, '']);
-
       const wb = utils.book_new();
-      const ws = utils.aoa_to_sheet([headers, ...body]);
-      
-      const merges = [];
-      let currentRow = 1;
-      
-      data.forEach(site => {
-        const rowCount = site.rows.length;
-        if (rowCount > 0) {
-          merges.push({ s: { r: currentRow, c: 0 }, e: { r: currentRow + rowCount - 1, c: 0 } });
-          merges.push({ s: { r: currentRow, c: 1 }, e: { r: currentRow + rowCount - 1, c: 1 } });
-          currentRow += rowCount + 1;
-        }
-      });
-      merges.push({ s: { r: currentRow, c: 0 }, e: { r: currentRow, c: 2 } });
-
-      ws['!merges'] = merges;
-      ws['!cols'] = [{ wch: 30 }, { wch: 25 }, { wch: 25 }, ...MONTHS.map(() => ({ wch: 12 })), { wch: 18 }, { wch: 25 }];
-
-      utils.book_append_sheet(wb, ws, `استهلاك ${year}`);
+      utils.book_append_sheet(wb, buildYearSheet(data, year, periodColumns), yearSheetName(year));
+      utils.book_append_sheet(wb, buildSiteDetailsSheet(data), SITE_DETAILS_SHEET_NAME);
       writeFile(wb, `Saher_Consumption_${year}.xlsx`);
     } catch (e) {
       console.error("Export Error:", e);
@@ -504,11 +558,102 @@ const ConsumptionTable: React.FC<ConsumptionTableProps> = ({
     setTimeout(() => setSaveStatus('idle'), 2000);
   };
 
+  // Aggregate columns: one header cell and one value cell per selected period
+  const tableMinWidth = 1200 + periodColumns.length * 80;
+  const togglePeriodColumn = (period: PeriodKey) => {
+    onPeriodColumnsChange(periodColumns.includes(period) ? periodColumns.filter(p => p !== period) : [...periodColumns, period]);
+  };
+  const renderPeriodHeaders = (className: string, keyPrefix = '') => PERIODS.filter(p => periodColumns.includes(p.key)).map(p => (
+    <th key={`${keyPrefix}${p.key}`} className={`p-2 border-r w-[80px] align-middle ${className}`} title={p.title}><div className="flex items-center justify-center h-full w-full text-center text-xs">{p.label}</div></th>
+  ));
+  const renderPeriodCells = (values: Record<MonthKey, number>, keyPrefix: string, className: string) => periodColumns.map(period => (
+    <td key={`${keyPrefix}-${period}`} className={`p-2 border-r border-blue-800 text-center align-middle break-all text-xs sm:text-sm ${className}`}><div className="flex items-center justify-center w-full h-full">{formatNumber(calculatePeriodTotal(values, period, year))}</div></td>
+  ));
+
+  // Plain clicks open the detail page in place; modified clicks keep the browser's behaviour (new tab, ...)
+  const handleSiteLinkClick = (siteId: string, e: React.MouseEvent) => {
+    if (e.ctrlKey || e.metaKey || e.shiftKey || e.button !== 0) return;
+    e.preventDefault();
+    onOpenSite(siteId);
+  };
+
+  // First column of a site: name, details and the site actions
+  const renderSiteCell = (site: SiteData, siteIndex: number, rowSpan: number, isArchive: boolean, hasBudget: boolean, handleAction: (index: number, id: string, e: React.MouseEvent) => void) => (
+    <td rowSpan={rowSpan} className={`${isArchive ? 'bg-red-50' : 'bg-blue-50/50'} font-bold border-r ${isArchive ? 'border-red-200' : 'border-blue-200'} p-2 align-middle text-base break-words relative group`}>
+       <div className="flex flex-col items-center justify-center h-full w-full relative">
+           <div className="flex items-center justify-center gap-2 mb-2 z-20 print:hidden w-full">
+               <button type="button" onClick={(e) => handleAction(siteIndex, site.id, e)} className={`p-1.5 rounded-full shadow-sm border transition-all duration-200 cursor-pointer ${isArchive ? 'text-green-600 bg-white border-green-200 hover:bg-green-50' : 'text-red-500 bg-white border-red-100 hover:bg-red-50 opacity-0 group-hover:opacity-100 translate-y-2 group-hover:translate-y-0'}`} title={isArchive ? "استعادة الموقع" : "حذف الموقع"}>
+                 {isArchive ? <RotateCcw size={16} /> : <Trash2 size={16} />}
+               </button>
+               {!isArchive && (
+                 <button type="button" onClick={() => setBudgetTargetIndex(siteIndex)} className={`p-1.5 rounded-full shadow-sm border transition-all duration-200 cursor-pointer text-emerald-600 bg-white border-emerald-100 hover:bg-emerald-50 ${hasBudget ? '' : 'opacity-0 group-hover:opacity-100 translate-y-2 group-hover:translate-y-0'}`} title="ميزانية الموقع">
+                   <Wallet size={16} />
+                 </button>
+               )}
+               <a href={buildPath({ page: 'site', siteId: site.id }, year)} onClick={(e) => handleSiteLinkClick(site.id, e)} className="p-1.5 rounded-full shadow-sm border transition-all duration-200 cursor-pointer text-blue-600 bg-white border-blue-100 hover:bg-blue-50 opacity-0 group-hover:opacity-100 translate-y-2 group-hover:translate-y-0" title="تفاصيل الموقع">
+                 <ExternalLink size={16} />
+               </a>
+               <button type="button" onClick={() => setSettingsTarget({ siteIndex, isArchive })} className="p-1.5 rounded-full shadow-sm border transition-all duration-200 cursor-pointer text-slate-600 bg-white border-slate-200 hover:bg-slate-50 opacity-0 group-hover:opacity-100 translate-y-2 group-hover:translate-y-0" title="بيانات الموقع (العدادات، الإمارة، المزود، الحسابات، جهة الاتصال)">
+                 <Settings2 size={16} />
+               </button>
+               <button type="button" onClick={() => onShowAuditLog(site.id)} className="p-1.5 rounded-full shadow-sm border transition-all duration-200 cursor-pointer text-slate-600 bg-white border-slate-200 hover:bg-slate-50 opacity-0 group-hover:opacity-100 translate-y-2 group-hover:translate-y-0" title="سجل تعديلات الموقع">
+                 <History size={16} />
+               </button>
+               {isArchive && (
+                 <button type="button" onClick={(e) => handlePermanentDeleteClick(site.id, e)} className="p-1.5 rounded-full shadow-sm border transition-all duration-200 cursor-pointer text-red-600 bg-white border-red-200 hover:bg-red-100" title="حذف نهائي">
+                   <X size={16} />
+                 </button>
+               )}
+           </div>
+           <AutoResizeTextarea disabled={isArchive} value={site.name} onChange={(e) => handleSiteNameChange(siteIndex, e.target.value)} className={`w-full bg-transparent text-center border-none focus:ring-2 focus:ring-blue-500 focus:bg-white p-2 outline-none whitespace-normal break-words leading-tight rounded ${isArchive ? 'cursor-not-allowed text-red-900' : 'text-blue-900'}`} placeholder="اسم الموقع" style={{ margin: '0 auto', minHeight: '60px' }} />
+           {(site.emirate || site.provider) && (
+             <div className={`text-[10px] font-normal ${isArchive ? 'text-red-700' : 'text-slate-500'}`}>{[site.emirate, site.provider].filter(Boolean).join(' · ')}</div>
+           )}
+       </div>
+    </td>
+  );
+
+  // Second column: one cell per meter, spanning the rows linked to it
+  const renderMeterCell = (site: SiteData, siteIndex: number, group: MeterRowGroup, isArchive: boolean) => {
+    const cellClass = `${isArchive ? 'bg-red-50' : 'bg-gray-50/50'} font-mono text-xs md:text-sm border-r border-b ${isArchive ? 'border-red-200' : 'border-blue-200'} p-2 align-middle break-words`;
+    const rowSpan = Math.max(group.rows.length, 1);
+    if (group.isTotal) return <td rowSpan={rowSpan} className={cellClass}></td>;
+    if (!group.meter) {
+      return (
+        <td rowSpan={rowSpan} className={cellClass}>
+          <div className="flex items-center justify-center h-full w-full font-sans text-amber-600 text-xs" title="بنود غير مرتبطة بأي من عدادات الموقع">بدون عداد</div>
+        </td>
+      );
+    }
+    const meter = group.meter;
+    const meterIndex = (site.meters || []).indexOf(meter);
+    return (
+      <td rowSpan={rowSpan} className={cellClass}>
+         <div className="flex flex-col items-center justify-center h-full w-full">
+             <AutoResizeTextarea disabled={isArchive} value={meter.number} onChange={(e) => handleMeterNumberChange(siteIndex, meter.id, e.target.value)} className={`w-full bg-transparent text-center border-none focus:ring-2 focus:ring-blue-500 focus:bg-white p-2 outline-none font-mono whitespace-normal break-all leading-tight rounded ${isArchive ? 'cursor-not-allowed text-red-700' : 'text-slate-600'}`} placeholder={meterLabel({ ...meter, number: '' }, meterIndex)} style={{ margin: 'auto' }} />
+             {describeMeter(meter) && (
+               <div className={`font-sans text-[10px] ${isArchive ? 'text-red-700' : 'text-slate-500'}`}>{describeMeter(meter)}</div>
+             )}
+         </div>
+      </td>
+    );
+  };
+
   // Render Rows logic...
-  const renderRows = (sites: SiteData[], isArchive: boolean, handleAction: (index: number, id: string, e: React.MouseEvent) => void) => {
-     return sites.map((site, siteIndex) => (
+  const renderRows = (sites: SiteData[], isArchive: boolean, handleAction: (index: number, id: string, e: React.MouseEvent) => void, order: number[] = sites.map((_, i) => i)) => {
+     return order.map((siteIndex, position) => {
+      const site = sites[siteIndex];
+      const tariffCostRowIds = getTariffCostRowIds(site.rows);
+      const budgetVariance = isArchive ? null : calculateBudgetVariance(site);
+      // Rows are shown under their meter; a meter without rows this year gets a placeholder line
+      const displayRows: DisplayRow[] = groupRowsByMeter(site).flatMap<DisplayRow>(group => group.rows.length > 0
+        ? group.rows.map((entry, i) => ({ ...entry, group, isGroupStart: i === 0 }))
+        : [{ group, isGroupStart: true }]);
+      const siteRowSpan = displayRows.length + (budgetVariance ? 1 : 0);
+      const siteMeters = site.meters || [];
+      return (
       <React.Fragment key={site.id}>
-        {siteIndex > 0 && (
+        {position > 0 && (
           <tr className={`${isArchive ? 'bg-red-800' : 'bg-[#334155]'} text-white font-bold border-y ${isArchive ? 'border-red-900' : 'border-slate-600'}`}>
             <td className={`p-2 border-r ${isArchive ? 'border-red-700' : 'border-slate-600'} align-middle`}>
                <div className="flex items-center justify-center h-full w-full text-center gap-1"><MapPin size={14} className="text-white" /><span>الموقع</span></div>
@@ -524,6 +669,11 @@ const ConsumptionTable: React.FC<ConsumptionTableProps> = ({
                  <div className="flex items-center justify-center h-full w-full text-center">{month.label}</div>
               </td>
             ))}
+            {PERIODS.filter(p => periodColumns.includes(p.key)).map(p => (
+              <td key={`header-${site.id}-${p.key}`} className={`p-2 border-r ${isArchive ? 'border-red-700 bg-red-900' : 'border-slate-600 bg-[#1e3a5f]'} align-middle`} title={p.title}>
+                 <div className="flex items-center justify-center h-full w-full text-center text-xs">{p.label}</div>
+              </td>
+            ))}
             <td className={`p-2 border-r ${isArchive ? 'border-red-700 bg-red-950' : 'border-slate-600 bg-[#091526]'} text-white align-middle`}>
                <div className="flex items-center justify-center h-full w-full text-center">المجموع</div>
             </td>
@@ -532,44 +682,102 @@ const ConsumptionTable: React.FC<ConsumptionTableProps> = ({
             </td>
           </tr>
         )}
-        {site.rows.map((row, rowIndex) => {
-          const isFirstRow = rowIndex === 0;
+        {displayRows.map((entry, displayIndex) => {
+          const isFirstRow = displayIndex === 0;
+          const isLastRow = displayIndex === displayRows.length - 1;
+          const lastRowBorder = isLastRow && !budgetVariance ? (isArchive ? 'border-b-4 border-red-800' : 'border-b-4 border-blue-900') : 'border-b border-gray-200';
+          const meterCell = entry.isGroupStart && renderMeterCell(site, siteIndex, entry.group, isArchive);
+          const siteCell = isFirstRow && renderSiteCell(site, siteIndex, siteRowSpan, isArchive, budgetVariance !== null, handleAction);
+
+          if (!entry.row) {
+            return (
+              <tr key={`empty-${entry.group.meter!.id}`} className={`text-slate-400 ${lastRowBorder} ${isArchive ? 'bg-red-50/50' : ''}`}>
+                {siteCell}
+                {meterCell}
+                <td colSpan={MONTHS.length + periodColumns.length + 3} className={`p-2 border-r ${isArchive ? 'border-red-200' : 'border-blue-200'} text-center text-xs align-middle`}>
+                  <div className="flex items-center justify-center gap-3">
+                    <span>لا توجد بنود لهذا العداد في {year}</span>
+                    {!isArchive && (
+                      <button type="button" onClick={() => handleAddRow(siteIndex, undefined, entry.group.meter!.id)} className="flex items-center gap-1 text-blue-600 hover:underline print:hidden">
+                        <PlusCircle size={12} />إضافة بند
+                      </button>
+                    )}
+                  </div>
+                </td>
+              </tr>
+            );
+          }
+
+          const row = entry.row;
+          const rowIndex = entry.rowIndex!;
           const isTotalRow = row.type === RowType.CALCULATED_TOTAL;
+          const isTariffCostRow = tariffCostRowIds.has(row.id);
           const rowTotal = calculateHorizontalTotal(row.values);
+          const readingResults = row.readings ? evaluateReadings(row.readings, carriedOpening(site, row), rolloverCapacity(site, row)) : null;
           const hasAttachment = row.attachments && row.attachments.length > 0;
 
           return (
-            <tr key={row.id} className={`hover:bg-blue-50 transition-colors ${isTotalRow ? (isArchive ? 'bg-red-100 text-red-900 border-t border-red-200' : 'bg-blue-100 font-bold text-blue-900 border-t border-blue-300') : 'text-slate-700'} ${rowIndex === site.rows.length - 1 ? (isArchive ? 'border-b-4 border-red-800' : 'border-b-4 border-blue-900') : 'border-b border-gray-200'} ${isArchive && !isTotalRow ? 'bg-red-50/50 text-red-800' : ''}`}>
-              {isFirstRow && (
-                <td rowSpan={site.rows.length} className={`${isArchive ? 'bg-red-50' : 'bg-blue-50/50'} font-bold border-r ${isArchive ? 'border-red-200' : 'border-blue-200'} p-2 align-middle text-base break-words relative group`}>
-                   <div className="flex flex-col items-center justify-center h-full w-full relative">
-                       <div className="flex items-center justify-center gap-2 mb-2 z-20 print:hidden w-full">
-                           <button type="button" onClick={(e) => handleAction(siteIndex, site.id, e)} className={`p-1.5 rounded-full shadow-sm border transition-all duration-200 cursor-pointer ${isArchive ? 'text-green-600 bg-white border-green-200 hover:bg-green-50' : 'text-red-500 bg-white border-red-100 hover:bg-red-50 opacity-0 group-hover:opacity-100 translate-y-2 group-hover:translate-y-0'}`} title={isArchive ? "استعادة الموقع" : "حذف الموقع"}>
-                             {isArchive ? <RotateCcw size={16} /> : <Trash2 size={16} />}
-                           </button>
-                           {isArchive && (
-                             <button type="button" onClick={(e) => handlePermanentDeleteClick(site.id, e)} className="p-1.5 rounded-full shadow-sm border transition-all duration-200 cursor-pointer text-red-600 bg-white border-red-200 hover:bg-red-100" title="حذف نهائي">
-                               <X size={16} />
-                             </button>
-                           )}
-                       </div>
-                       <AutoResizeTextarea disabled={isArchive} value={site.name} onChange={(e) => handleSiteNameChange(siteIndex, e.target.value)} className={`w-full bg-transparent text-center border-none focus:ring-2 focus:ring-blue-500 focus:bg-white p-2 outline-none whitespace-normal break-words leading-tight rounded ${isArchive ? 'cursor-not-allowed text-red-900' : 'text-blue-900'}`} placeholder="اسم الموقع" style={{ margin: '0 auto', minHeight: '60px' }} />
-                   </div>
-                </td>
-              )}
-              {isFirstRow && (
-                <td rowSpan={site.rows.length} className={`${isArchive ? 'bg-red-50' : 'bg-gray-50/50'} font-mono text-xs md:text-sm border-r ${isArchive ? 'border-red-200' : 'border-blue-200'} p-2 align-middle break-words`}>
-                   <div className="flex items-center justify-center h-full w-full">
-                       <AutoResizeTextarea disabled={isArchive} value={site.meterNumber} onChange={(e) => handleMeterNumberChange(siteIndex, e.target.value)} className={`w-full bg-transparent text-center border-none focus:ring-2 focus:ring-blue-500 focus:bg-white p-2 outline-none font-mono whitespace-normal break-all leading-tight rounded ${isArchive ? 'cursor-not-allowed text-red-700' : 'text-slate-600'}`} placeholder="رقم العداد" style={{ margin: 'auto' }} />
-                   </div>
-                </td>
-              )}
+            <tr key={row.id} className={`hover:bg-blue-50 transition-colors ${isTotalRow ? (isArchive ? 'bg-red-100 text-red-900 border-t border-red-200' : 'bg-blue-100 font-bold text-blue-900 border-t border-blue-300') : 'text-slate-700'} ${lastRowBorder} ${isArchive && !isTotalRow ? 'bg-red-50/50 text-red-800' : ''}`}>
+              {siteCell}
+              {meterCell}
               <td className={`p-1 border-r ${isArchive ? 'border-red-200' : 'border-blue-200'} relative align-middle ${row.isCost && !isArchive ? 'text-blue-800 font-semibold' : ''} ${isArchive && row.isCost ? 'text-red-800 font-bold' : ''} group`}>
                  <div className="flex items-center justify-center w-full h-full min-h-[40px] relative">
                    <div className="flex flex-col items-center justify-center w-full">
-                    {row.unit && <span className={`text-[10px] whitespace-nowrap mb-1 px-1 rounded ${isArchive ? 'bg-red-100 text-red-600' : 'bg-blue-50/50 text-blue-400'}`}>{row.unit}</span>}
+                    {!isTotalRow && (
+                      <div className="flex items-center justify-center gap-1 mb-1 print:hidden">
+                        <select disabled={isArchive} value={row.utility} onChange={(e) => handleRowClassificationChange(siteIndex, rowIndex, { utility: e.target.value as UtilityKind })} className={`text-[10px] px-1 rounded border-none outline-none cursor-pointer appearance-none text-center ${isArchive ? 'bg-red-100 text-red-600 cursor-not-allowed' : 'bg-slate-100 text-slate-600'}`} title="الخدمة">
+                          {(Object.keys(UTILITIES) as UtilityKind[]).map(utility => <option key={utility} value={utility}>{UTILITIES[utility].label}</option>)}
+                        </select>
+                        <select disabled={isArchive} value={row.measure} onChange={(e) => handleRowClassificationChange(siteIndex, rowIndex, { measure: e.target.value as MeasureKind })} className={`text-[10px] px-1 rounded border-none outline-none cursor-pointer appearance-none text-center ${isArchive ? 'bg-red-100 text-red-600 cursor-not-allowed' : row.measure === 'cost' ? 'bg-blue-100 text-blue-700' : 'bg-slate-100 text-slate-600'}`} title="نوع القيمة">
+                          {(Object.keys(MEASURES) as MeasureKind[]).map(measure => <option key={measure} value={measure}>{MEASURES[measure].label}</option>)}
+                        </select>
+                      </div>
+                    )}
+                    {!isTotalRow && siteMeters.length > 1 && (
+                      <select disabled={isArchive} value={row.meterId && siteMeters.some(m => m.id === row.meterId) ? row.meterId : ''} onChange={(e) => handleRowMeterChange(siteIndex, rowIndex, e.target.value)} className={`text-[10px] whitespace-nowrap mb-1 px-1 rounded border-none outline-none cursor-pointer appearance-none text-center font-mono ${isArchive ? 'bg-red-100 text-red-600 cursor-not-allowed' : 'bg-slate-100 text-slate-600'}`} title="العداد">
+                        <option value="">بدون عداد</option>
+                        {siteMeters.map((meter, i) => <option key={meter.id} value={meter.id}>{meterLabel(meter, i)}</option>)}
+                      </select>
+                    )}
+                    {!isTotalRow && (
+                      <select disabled={isArchive} value={row.unit || ''} onChange={(e) => handleRowUnitChange(siteIndex, rowIndex, e.target.value as UnitKey | '')} className={`text-[10px] whitespace-nowrap mb-1 px-1 rounded border-none outline-none cursor-pointer appearance-none text-center print:appearance-none ${isArchive ? 'bg-red-100 text-red-600 cursor-not-allowed' : row.unit ? 'bg-blue-50 text-blue-500' : 'bg-amber-50 text-amber-600'}`} title="وحدة القياس">
+                        <option value="">بدون وحدة</option>
+                        {(Object.keys(UNITS) as UnitKey[]).map(unit => <option key={unit} value={unit}>{UNITS[unit].label}</option>)}
+                      </select>
+                    )}
                     <AutoResizeTextarea disabled={isArchive} value={row.label} onChange={(e) => handleRowLabelChange(siteIndex, rowIndex, e.target.value)} className={`w-full bg-transparent border-none focus:ring-1 focus:ring-blue-500 focus:bg-blue-50 outline-none text-center leading-tight whitespace-normal break-words ${row.isCost ? 'font-bold' : ''} ${isArchive ? 'cursor-not-allowed' : ''}`} style={{ margin: 'auto' }} />
+                    {row.tariff && (
+                      <button type="button" disabled={isArchive} onClick={() => setTariffTarget({ siteIndex, rowIndex })} className="flex items-center gap-1 text-[10px] mt-1 px-1 rounded bg-emerald-50 text-emerald-700 border border-emerald-200 hover:bg-emerald-100 disabled:cursor-default" title="تعديل التعرفة">
+                        <Calculator size={10} />{row.tariff.provider ? `${row.tariff.provider} - ` : ''}{row.tariff.name}
+                      </button>
+                    )}
+                    {isTariffCostRow && (
+                      <span className="text-[10px] mt-1 px-1 rounded bg-emerald-50 text-emerald-700">محسوب من التعرفة</span>
+                    )}
+                    {row.readings && (
+                      <button type="button" disabled={isArchive} onClick={() => setReadingTarget({ siteIndex, rowIndex })} className="flex items-center gap-1 text-[10px] mt-1 px-1 rounded bg-violet-50 text-violet-700 border border-violet-200 hover:bg-violet-100 disabled:cursor-default" title="تعديل قراءات العداد">
+                        <Gauge size={10} />من قراءات العداد
+                      </button>
+                    )}
                    </div>
+                   {!isArchive && !isTotalRow && !row.isCost && !row.tariff && (
+                     <button 
+                       onClick={() => setTariffTarget({ siteIndex, rowIndex })} 
+                       className="absolute left-1 bottom-0 text-emerald-400 hover:text-emerald-600 p-1 opacity-0 group-hover:opacity-100 transition-opacity print:hidden"
+                       title="ربط تعرفة"
+                     >
+                       <Calculator size={12} />
+                     </button>
+                   )}
+                   {!isArchive && !isTotalRow && !row.isCost && !row.readings && (
+                     <button
+                       onClick={() => setReadingTarget({ siteIndex, rowIndex })}
+                       className="absolute right-1 bottom-0 text-violet-400 hover:text-violet-600 p-1 opacity-0 group-hover:opacity-100 transition-opacity print:hidden"
+                       title="إدخال بقراءات العداد"
+                     >
+                       <Gauge size={12} />
+                     </button>
+                   )}
                    {!isArchive && !isTotalRow && (
                      <>
                         <button 
@@ -590,13 +798,44 @@ const ConsumptionTable: React.FC<ConsumptionTableProps> = ({
                    )}
                  </div>
               </td>
-              {MONTHS.map((month) => (
-                <td key={`${row.id}-${month.key}`} className={`border-r ${isArchive ? 'border-red-100' : 'border-blue-100'} p-0 relative align-middle min-h-[3rem] h-auto ${isTotalRow ? (isArchive ? 'bg-red-100' : 'bg-blue-100/50') : ''}`}>
-                   {isTotalRow || isArchive ? (
+              {MONTHS.map((month) => {
+                const monthAttachmentCount = row.attachments?.filter(a => a.month === month.key).length || 0;
+                const isOverridden = isTariffCostRow && row.manualOverrides?.[month.key] !== undefined;
+                const cellAnomalies = isArchive ? undefined : anomaliesByCell.get(anomalyKey(site.id, row.id, month.key));
+                const reading = readingResults?.[month.key];
+                return (
+                <td key={`${row.id}-${month.key}`} className={`border-r ${isArchive ? 'border-red-100' : 'border-blue-100'} p-0 relative align-middle min-h-[3rem] h-auto ${isTotalRow ? (isArchive ? 'bg-red-100' : 'bg-blue-100/50') : ''} ${cellAnomalies || reading?.issue ? 'ring-2 ring-inset ring-red-400' : ''}`}>
+                   {readingResults && !isArchive ? (
+                     <div className="flex flex-col items-stretch w-full min-h-[3rem]">
+                       <input type="number" min="0" step="any" value={row.readings?.[month.key]?.closing ?? ''} onChange={(e) => handleClosingReadingChange(siteIndex, rowIndex, month.key, e.target.value)} className="w-full text-center bg-violet-50/60 focus:bg-blue-100 focus:outline-none focus:ring-2 focus:ring-inset focus:ring-blue-500 placeholder-gray-300 text-[10px] font-mono p-1" placeholder="القراءة" title={reading!.opening !== undefined ? `القراءة الختامية - الافتتاحية: ${formatNumber(reading!.opening)}` : 'القراءة الختامية'} dir="ltr" />
+                       <div className={`flex-1 flex items-center justify-center text-xs sm:text-sm font-medium px-1 ${reading!.derived ? 'text-slate-700' : 'text-gray-400'}`}>{formatNumber(row.values[month.key])}</div>
+                     </div>
+                   ) : isTotalRow || isArchive ? (
                      <div className={`w-full min-h-full flex items-center justify-center bg-transparent text-center text-xs sm:text-sm break-all px-1 py-3 ${isArchive ? 'text-red-900' : 'text-blue-900'}`}>{formatNumber(row.values[month.key])}</div>
                    ) : (
-                     <input type="number" min="0" step="0.01" value={row.values[month.key] === 0 ? '' : row.values[month.key]} onChange={(e) => handleInputChange(siteIndex, rowIndex, month.key, e.target.value)} className="w-full h-full min-h-[3rem] text-center bg-transparent focus:bg-blue-100 focus:outline-none focus:ring-2 focus:ring-inset focus:ring-blue-500 transition-all placeholder-gray-300 text-xs sm:text-sm flex items-center justify-center text-slate-700 font-medium p-1" placeholder="0" />
+                     <input type="number" min="0" step="0.01" value={row.values[month.key] === 0 ? '' : row.values[month.key]} onChange={(e) => handleInputChange(siteIndex, rowIndex, month.key, e.target.value)} className={`w-full h-full min-h-[3rem] text-center focus:bg-blue-100 focus:outline-none focus:ring-2 focus:ring-inset focus:ring-blue-500 transition-all placeholder-gray-300 text-xs sm:text-sm flex items-center justify-center font-medium p-1 ${isTariffCostRow ? (isOverridden ? 'bg-amber-100 text-amber-900' : 'bg-emerald-50/60 text-emerald-800 italic') : 'bg-transparent text-slate-700'}`} placeholder="0" title={isTariffCostRow ? (isOverridden ? 'قيمة يدوية (تجاوز للتعرفة)' : 'محسوب من التعرفة - اكتب قيمة لتجاوزها') : undefined} />
+                   )}
+                   {(cellAnomalies || reading?.issue) && (
+                     <span className="absolute top-0.5 right-0.5 text-red-500 cursor-help print:hidden" title={[...(reading?.issue ? [reading.issue] : []), ...(cellAnomalies || []).map(a => a.message)].join('\n')}>
+                       <AlertTriangle size={10} />
+                     </span>
                    )}
+                   {isOverridden && !isArchive && (
+                     <button type="button" onClick={() => handleResetOverride(siteIndex, rowIndex, month.key)} className="absolute bottom-0.5 left-0.5 text-amber-600 hover:text-amber-800 print:hidden" title="العودة للقيمة المحسوبة">
+                       <RotateCw size={10} />
+                     </button>
+                   )}
+                   {monthAttachmentCount > 0 && (
+                     <button type="button" onClick={() => openGallery(siteIndex, rowIndex, isArchive, month.key)} className="absolute top-0.5 left-0.5 text-blue-500 hover:text-blue-700 print:hidden" title={`${monthAttachmentCount} مرفق لشهر ${month.label}`}>
+                       <Paperclip size={10} />
+                     </button>
+                   )}
+                </td>
+                );
+              })}
+              {periodColumns.map(period => (
+                <td key={`${row.id}-${period}`} className={`border-r ${isArchive ? 'border-red-200 bg-red-50 text-red-900' : 'border-blue-200 bg-slate-50 text-slate-700'} ${isTotalRow ? 'font-bold' : ''} align-middle px-1 break-all text-xs sm:text-sm`}>
+                  <div className="flex items-center justify-center w-full h-full">{formatNumber(calculatePeriodTotal(row.values, period, year))}</div>
                 </td>
               ))}
               <td className={`border-r ${isArchive ? 'border-red-200' : 'border-blue-200'} font-bold align-middle px-1 break-all text-xs sm:text-sm ${isArchive ? 'bg-red-100 text-red-900' : 'bg-yellow-50/50 text-slate-800'}`}>
@@ -605,27 +844,15 @@ const ConsumptionTable: React.FC<ConsumptionTableProps> = ({
               <td className={`border-r ${isArchive ? 'border-red-200' : 'border-blue-200'} align-middle px-1 w-[40px]`}>
                 <div className="flex items-center justify-center w-full h-full p-1 min-h-[40px]">
                   {hasAttachment ? (
-                     <div className="relative group flex items-center justify-center" title={row.attachments![0].name}>
-                        <a href={row.attachments![0].data} download={row.attachments![0].name} className="block p-1.5 bg-white rounded border border-gray-200 hover:border-blue-400 shadow-sm transition-all">
-                          {getFileIcon(row.attachments![0].name, row.attachments![0].type)}
-                        </a>
-                        {!isArchive && (
-                          <button
-                            onClick={(e) => {
-                              e.preventDefault();
-                              e.stopPropagation();
-                              handleDeleteAttachment(siteIndex, rowIndex, row.attachments![0].id);
-                            }}
-                            className="absolute -top-1.5 -right-1.5 bg-red-500 text-white rounded-full p-[2px] shadow-sm hover:bg-red-600 transition-colors z-10 opacity-0 group-hover:opacity-100"
-                            title="حذف المرفق"
-                          >
-                            <X size={10} />
-                          </button>
+                     <button type="button" onClick={() => openGallery(siteIndex, rowIndex, isArchive)} className="relative p-1.5 bg-white rounded border border-gray-200 hover:border-blue-400 shadow-sm transition-all" title={row.attachments!.map(a => a.name).join('\n')}>
+                        <FileIcon fileName={row.attachments![0].name} mimeType={row.attachments![0].type} />
+                        {row.attachments!.length > 1 && (
+                          <span className="absolute -top-1.5 -right-1.5 bg-blue-600 text-white text-[9px] font-bold rounded-full min-w-[14px] h-[14px] px-0.5 flex items-center justify-center">{row.attachments!.length}</span>
                         )}
-                     </div>
+                     </button>
                   ) : (
                     !isArchive && (
-                      <button onClick={() => triggerFileUpload(siteIndex, rowIndex)} className="text-gray-400 hover:text-blue-600 transition-colors p-1 flex items-center justify-center" title="إرفاق ملف">
+                      <button onClick={() => openGallery(siteIndex, rowIndex, isArchive)} className="text-gray-400 hover:text-blue-600 transition-colors p-1 flex items-center justify-center" title="إرفاق ملف">
                         <Paperclip size={18} />
                       </button>
                     )
@@ -635,19 +862,46 @@ const ConsumptionTable: React.FC<ConsumptionTableProps> = ({
             </tr>
           );
         })}
+        {budgetVariance && (
+          <tr className="border-b-4 border-blue-900 bg-slate-50 text-xs sm:text-sm">
+            <td colSpan={2} className="p-1 border-r border-blue-200 align-middle">
+              <button type="button" onClick={() => setBudgetTargetIndex(siteIndex)} className="flex items-center justify-center gap-1 w-full font-bold text-slate-700 hover:text-blue-700 min-h-[40px]" title="تعديل الميزانية">
+                <Wallet size={14} className="print:hidden" />الميزانية مقابل الفعلي
+              </button>
+            </td>
+            {MONTHS.map(month => (
+              <td key={`budget-${site.id}-${month.key}`} className={`border-r border-blue-100 align-middle px-1 break-all ${BUDGET_STATUS_CLASSES[budgetVariance.status[month.key]]}`} title={`الميزانية: ${formatNumber(budgetVariance.budget[month.key])}\nالفعلي: ${formatNumber(budgetVariance.actual[month.key])}`}>
+                <div className="flex items-center justify-center w-full h-full">
+                  {budgetVariance.status[month.key] === 'none' ? formatNumber(budgetVariance.budget[month.key]) : formatVariance(budgetVariance.variance[month.key])}
+                </div>
+              </td>
+            ))}
+            {periodColumns.map(period => <td key={`budget-${site.id}-${period}`} className="border-r border-blue-100"></td>)}
+            <td className={`border-r border-blue-200 font-bold align-middle px-1 break-all ${BUDGET_STATUS_CLASSES[budgetVariance.annualStatus]}`} title={`الميزانية السنوية: ${formatNumber(budgetVariance.annualBudget)}\nالفعلي حتى الآن: ${formatNumber(budgetVariance.actualToDate)}\nالمتوقع لنهاية السنة: ${formatNumber(budgetVariance.projectedAnnual)}`}>
+              <div className="flex items-center justify-center w-full h-full">{formatVariance(safeFloat(budgetVariance.actualToDate - budgetVariance.annualBudget))}</div>
+            </td>
+            <td className="border-r border-blue-200 align-middle">
+              {budgetVariance.isTrendingOver && (
+                <div className="flex items-center justify-center text-amber-600" title={`المتوقع لنهاية السنة (${formatNumber(budgetVariance.projectedAnnual)}) يتجاوز الميزانية`}><AlertTriangle size={14} /></div>
+              )}
+            </td>
+          </tr>
+        )}
       </React.Fragment>
-    ));
+      );
+    });
   };
 
   return (
     <div className="space-y-6">
-      <input type="file" ref={fileInputRef} onChange={handleFileSelect} className="hidden" accept="image/*,.pdf,.doc,.docx,.xls,.xlsx,.ppt,.pptx" />
       <div className="bg-[#091526] p-4 rounded-t-lg border-b-4 border-yellow-500 shadow-sm text-center relative">
         <h2 className="text-xl md:text-2xl font-bold text-white tracking-wide">نسبة استهلاك الماء والكهرباء لمقرات ساهر - لسنة <span className="text-yellow-400">{year}</span></h2>
         <div className="absolute left-4 top-1/2 -translate-y-1/2 flex gap-2 print:hidden">
            <input type="file" ref={importInputRef} onChange={handleImportFileChange} accept=".xlsx, .xls" className="hidden" />
            <button onClick={handleImportClick} className="bg-blue-800 hover:bg-blue-700 text-blue-100 p-2 rounded transition-all border border-blue-700 flex items-center gap-1" title="استيراد من Excel"><Upload size={18} /><span className="hidden md:inline text-xs">استيراد</span></button>
            <button onClick={handleExportClick} className="bg-blue-800 hover:bg-blue-700 text-blue-100 p-2 rounded transition-all border border-blue-700 flex items-center gap-1" title="تصدير الى Excel"><Download size={18} /><span className="hidden md:inline text-xs">تصدير</span></button>
+           <button onClick={onExportWorkbook} className="bg-blue-800 hover:bg-blue-700 text-blue-100 p-2 rounded transition-all border border-blue-700 flex items-center gap-1" title="تصدير عدة سنوات مع الأرشيف والملخص في ملف واحد"><FileSpreadsheet size={18} /><span className="hidden md:inline text-xs">تصدير شامل</span></button>
+           <button onClick={() => setShowReportDialog(true)} className="bg-blue-800 hover:bg-blue-700 text-blue-100 p-2 rounded transition-all border border-blue-700 flex items-center gap-1" title="تحميل تقرير PDF للسنة أو لموقع"><FileText size={18} /><span className="hidden md:inline text-xs">تقرير PDF</span></button>
            <button onClick={() => window.print()} className="bg-blue-800 hover:bg-blue-700 text-blue-100 p-2 rounded transition-all border border-blue-700" title="طباعة"><Printer size={18} /></button>
         </div>
       </div>
@@ -662,21 +916,57 @@ const ConsumptionTable: React.FC<ConsumptionTableProps> = ({
           <Archive size={16} />سجل الأرشيف
           {archivedData.length > 0 && <span className="bg-red-500 text-white text-[10px] px-1.5 rounded-full mr-1">{archivedData.length}</span>}
         </button>
+
+        <button onClick={() => setShowAnomalies(!showAnomalies)} className={`flex items-center gap-2 px-4 py-2 rounded shadow transition-all text-sm font-bold border ${showAnomalies ? 'bg-amber-500 text-black border-amber-600' : 'bg-[#091526] hover:bg-blue-800 text-white border-blue-900/50'}`}>
+          <AlertTriangle size={16} />القيم غير الطبيعية
+          {anomalies.length > 0 && <span className="bg-amber-500 text-black text-[10px] px-1.5 rounded-full mr-1">{anomalies.length}</span>}
+        </button>
+
+        <div className="relative">
+          <button onClick={() => setShowPeriodPicker(!showPeriodPicker)} className={`flex items-center gap-2 px-4 py-2 rounded shadow transition-all text-sm font-bold border ${periodColumns.length > 0 ? 'bg-[#1e3a5f] text-white border-blue-900/50' : 'bg-[#091526] hover:bg-blue-800 text-white border-blue-900/50'}`}>
+            <Columns3 size={16} />أعمدة الفترات
+            {periodColumns.length > 0 && <span className="bg-yellow-500 text-black text-[10px] px-1.5 rounded-full mr-1">{periodColumns.length}</span>}
+          </button>
+          {showPeriodPicker && (
+            <div className="absolute top-full right-0 mt-1 z-30 w-60 bg-white border border-gray-200 rounded-lg shadow-xl p-2 text-sm text-slate-700">
+              {PERIODS.map(p => (
+                <label key={p.key} className="flex items-center gap-2 px-2 py-1 rounded hover:bg-gray-50 cursor-pointer">
+                  <input type="checkbox" checked={periodColumns.includes(p.key)} onChange={() => togglePeriodColumn(p.key)} />
+                  <span>{p.title}</span>
+                </label>
+              ))}
+              <div className="flex justify-between border-t border-gray-100 mt-1 pt-1 px-2 text-xs">
+                <button onClick={() => onPeriodColumnsChange(['q1', 'q2', 'q3', 'q4'])} className="text-blue-700 hover:underline">الأرباع فقط</button>
+                <button onClick={() => onPeriodColumnsChange([])} className="text-gray-500 hover:underline">إخفاء الكل</button>
+              </div>
+            </div>
+          )}
+        </div>
       </div>
 
+      {showAnomalies && <AnomalySummary year={year} anomalies={anomalies} onClose={() => setShowAnomalies(false)} />}
+
+      <SiteFilterBar filters={filters} providers={providers} emirates={emirates} shownCount={visibleSiteIndexes.length} totalCount={data.length} onChange={setFilters} />
+
       <div className="overflow-x-auto border border-blue-900 rounded-b-lg shadow-lg bg-white print:shadow-none print:border-none">
-        <table className="w-full text-sm text-center border-collapse min-w-[1200px] table-fixed">
+        <table className="w-full text-sm text-center border-collapse min-w-[1200px] table-fixed" style={{ minWidth: tableMinWidth }}>
           <thead>
             <tr className="bg-[#334155] text-white font-bold border-b border-slate-600">
               <th className="p-3 border-r border-slate-600 w-[180px] align-middle"><div className="flex items-center justify-center h-full w-full text-center gap-2"><MapPin size={16} className="text-white" /><span>الموقع</span></div></th>
               <th className="p-3 border-r border-slate-600 w-[135px] align-middle"><div className="flex items-center justify-center h-full w-full text-center gap-2"><Hash size={16} className="text-white" /><span>رقم العداد</span></div></th>
               <th className="p-3 border-r border-slate-600 w-[160px] align-middle"><div className="flex items-center justify-center h-full w-full text-center gap-2"><Activity size={16} className="text-white" /><span>نوع الاستهلاك</span></div></th>
               {MONTHS.map((month) => (<th key={month.key} className="p-2 border-r border-slate-600 align-middle"><div className="flex items-center justify-center h-full w-full text-center">{month.label}</div></th>))}
+              {renderPeriodHeaders('border-slate-600 bg-[#1e3a5f]')}
               <th className="p-3 border-r border-slate-600 bg-[#091526] text-white w-[85px] align-middle"><div className="flex items-center justify-center h-full w-full text-center">المجموع</div></th>
               <th className="p-3 border-r border-slate-600 bg-[#091526] text-white w-[40px] align-middle"><div className="flex items-center justify-center h-full w-full text-center"><FolderOpen size={16} /></div></th>
             </tr>
           </thead>
-          <tbody>{renderRows(data, false, (idx, id, e) => handleDeleteSite(idx, e))}</tbody>
+          <tbody>
+            {renderRows(data, false, (idx, id, e) => handleDeleteSite(idx, e), visibleSiteIndexes)}
+            {visibleSiteIndexes.length === 0 && data.length > 0 && (
+              <tr><td colSpan={MONTHS.length + periodColumns.length + 5} className="p-8 text-center text-gray-500">لا توجد مواقع مطابقة لخيارات البحث والتصفية.</td></tr>
+            )}
+          </tbody>
         </table>
       </div>
 
@@ -685,21 +975,51 @@ const ConsumptionTable: React.FC<ConsumptionTableProps> = ({
       </div>
 
       <div className="mt-4 overflow-x-auto border border-blue-900 rounded-lg shadow-lg bg-white print:shadow-none print:border-none">
-        <table className="w-full text-sm text-center border-collapse min-w-[1200px] table-fixed">
+        <table className="w-full text-sm text-center border-collapse min-w-[1200px] table-fixed" style={{ minWidth: tableMinWidth }}>
           <colgroup>
             <col className="w-[180px]" /><col className="w-[135px]" /><col className="w-[160px]" />
             {MONTHS.map(m => <col key={m.key} />)}
+            {periodColumns.map(period => <col key={period} className="w-[80px]" />)}
             <col className="w-[85px]" /><col className="w-[40px]" />
           </colgroup>
           <tbody>
             <tr className="bg-blue-200 text-blue-900 font-bold text-sm">
-               <td colSpan={3} className="p-3 text-center border-r border-blue-800 align-middle bg-[#091526] text-white"><div className="flex items-center justify-center w-full h-full">الإجمالي الكلي (درهم)</div></td>
+               <td colSpan={3} className="p-3 text-center border-r border-blue-800 align-middle bg-[#091526] text-white"><div className="flex flex-col items-center justify-center w-full h-full">{filtering ? 'إجمالي المواقع المعروضة' : 'الإجمالي الكلي'} (درهم)<span className={`block text-[10px] font-normal mt-0.5 ${filtering ? 'text-yellow-400' : 'text-blue-200'}`}>{totalsScope}</span></div></td>
                {MONTHS.map((month) => (
                   <td key={`grand-${month.key}`} className="p-2 border-r border-blue-800 text-center bg-blue-200 align-middle break-all text-xs sm:text-sm"><div className="flex items-center justify-center w-full h-full">{formatNumber(grandTotals[month.key])}</div></td>
                ))}
+               {renderPeriodCells(grandTotals, 'grand', 'bg-blue-100')}
                <td className="p-2 bg-yellow-500 text-black text-center border-r border-blue-800 align-middle break-all text-xs sm:text-sm shadow-inner"><div className="flex items-center justify-center w-full h-full font-black text-base">{formatNumber(grandTotalHorizontal)}</div></td>
                <td className="p-2 bg-blue-200 border-r border-blue-800"></td>
             </tr>
+            {visibleCostTotals.map(utility => {
+              const values = costTotals[utility]!;
+              return (
+                <tr key={`cost-${utility}`} className="bg-blue-50 text-blue-900 font-bold text-sm border-t border-blue-800">
+                  <td colSpan={3} className="p-2 text-center border-r border-blue-800 align-middle bg-[#1e3a5f] text-white"><div className="flex items-center justify-center w-full h-full">إجمالي تكلفة {UTILITIES[utility].label} (درهم)</div></td>
+                  {MONTHS.map((month) => (
+                    <td key={`cost-${utility}-${month.key}`} className="p-2 border-r border-blue-800 text-center align-middle break-all text-xs sm:text-sm"><div className="flex items-center justify-center w-full h-full">{formatNumber(values[month.key])}</div></td>
+                  ))}
+                  {renderPeriodCells(values, `cost-${utility}`, 'bg-blue-100/50')}
+                  <td className="p-2 bg-yellow-100 text-black text-center border-r border-blue-800 align-middle break-all text-xs sm:text-sm"><div className="flex items-center justify-center w-full h-full">{formatNumber(calculateHorizontalTotal(values))}</div></td>
+                  <td className="p-2 border-r border-blue-800"></td>
+                </tr>
+              );
+            })}
+            {visibleConsumptionTotals.map(utility => {
+              const values = consumptionTotals[utility]!;
+              return (
+                <tr key={utility} className="bg-slate-100 text-slate-800 font-bold text-sm border-t border-blue-800">
+                  <td colSpan={3} className="p-2 text-center border-r border-blue-800 align-middle bg-[#334155] text-white"><div className="flex items-center justify-center w-full h-full">إجمالي استهلاك {UTILITIES[utility].label} ({UNITS[UTILITIES[utility].defaultUnit!].label})</div></td>
+                  {MONTHS.map((month) => (
+                    <td key={`${utility}-${month.key}`} className="p-2 border-r border-blue-800 text-center align-middle break-all text-xs sm:text-sm"><div className="flex items-center justify-center w-full h-full">{formatNumber(values[month.key])}</div></td>
+                  ))}
+                  {renderPeriodCells(values, utility, 'bg-slate-200/60')}
+                  <td className="p-2 bg-yellow-100 text-black text-center border-r border-blue-800 align-middle break-all text-xs sm:text-sm"><div className="flex items-center justify-center w-full h-full">{formatNumber(calculateHorizontalTotal(values))}</div></td>
+                  <td className="p-2 border-r border-blue-800"></td>
+                </tr>
+              );
+            })}
           </tbody>
         </table>
       </div>
@@ -712,13 +1032,14 @@ const ConsumptionTable: React.FC<ConsumptionTableProps> = ({
           </div>
           {archivedData.length === 0 ? (<div className="bg-red-50 border border-red-100 rounded-lg p-8 text-center text-red-800">لا يوجد مواقع في الأرشيف حالياً.</div>) : (
             <div className="overflow-x-auto border border-red-200 rounded-lg shadow-sm bg-white">
-              <table className="w-full text-sm text-center border-collapse min-w-[1200px] table-fixed">
+              <table className="w-full text-sm text-center border-collapse min-w-[1200px] table-fixed" style={{ minWidth: tableMinWidth }}>
                 <thead>
                   <tr className="bg-red-800 text-white font-bold border-b border-red-900">
                     <th className="p-3 border-r border-red-700 w-[180px] align-middle"><div className="flex items-center justify-center h-full w-full text-center gap-2"><MapPin size={16} className="text-white" /><span>الموقع</span></div></th>
                     <th className="p-3 border-r border-red-700 w-[135px] align-middle"><div className="flex items-center justify-center h-full w-full text-center gap-2"><Hash size={16} className="text-white" /><span>رقم العداد</span></div></th>
                     <th className="p-3 border-r border-red-700 w-[160px] align-middle"><div className="flex items-center justify-center h-full w-full text-center gap-2"><Activity size={16} className="text-white" /><span>نوع الاستهلاك</span></div></th>
                     {MONTHS.map((month) => (<th key={month.key} className="p-2 border-r border-red-700 align-middle">{month.label}</th>))}
+                    {renderPeriodHeaders('border-red-700 bg-red-900', 'archive-')}
                     <th className="p-3 border-r border-red-700 bg-red-950 text-white w-[85px] align-middle">المجموع</th>
                     <th className="p-3 border-r border-red-700 bg-red-950 text-white w-[40px] align-middle"><div className="flex items-center justify-center w-full"><FolderOpen size={16} /></div></th>
                   </tr>
@@ -730,8 +1051,90 @@ const ConsumptionTable: React.FC<ConsumptionTableProps> = ({
         </div>
       )}
 
+      {pendingImport && (
+        <ImportWizard
+          year={year}
+          fileName={pendingImport.fileName}
+          workbook={pendingImport.workbook}
+          existingSites={data}
+          onImport={handleImportResult}
+          onClose={() => setPendingImport(null)}
+        />
+      )}
+
+      {budgetTargetIndex !== null && data[budgetTargetIndex] && (
+        <BudgetEditor
+          site={data[budgetTargetIndex]}
+          year={year}
+          onSave={(budgets) => handleSetBudgets(budgetTargetIndex, budgets)}
+          onClose={() => setBudgetTargetIndex(null)}
+        />
+      )}
+
+      {tariffTarget && data[tariffTarget.siteIndex]?.rows[tariffTarget.rowIndex] && (
+        <TariffEditor
+          siteName={data[tariffTarget.siteIndex].name}
+          rows={data[tariffTarget.siteIndex].rows}
+          rowIndex={tariffTarget.rowIndex}
+          onSave={(tariff, costRowId) => handleSetTariff(tariffTarget.siteIndex, tariffTarget.rowIndex, tariff, costRowId)}
+          onClose={() => setTariffTarget(null)}
+        />
+      )}
+
+      {readingTarget && data[readingTarget.siteIndex]?.rows[readingTarget.rowIndex] && (
+        <ReadingEditor
+          siteName={data[readingTarget.siteIndex].name}
+          row={data[readingTarget.siteIndex].rows[readingTarget.rowIndex]}
+          year={year}
+          carriedOpening={carriedOpening(data[readingTarget.siteIndex], data[readingTarget.siteIndex].rows[readingTarget.rowIndex])}
+          capacity={rolloverCapacity(data[readingTarget.siteIndex], data[readingTarget.siteIndex].rows[readingTarget.rowIndex])}
+          onSave={(readings) => handleSetReadings(readingTarget.siteIndex, readingTarget.rowIndex, readings)}
+          onClose={() => setReadingTarget(null)}
+        />
+      )}
+
+      {settingsTarget && (() => {
+        const site = (settingsTarget.isArchive ? archivedData : data)[settingsTarget.siteIndex];
+        if (!site) return null;
+        return (
+          <SiteSettingsPanel
+            site={site}
+            providerSuggestions={providers}
+            readOnly={settingsTarget.isArchive}
+            onSave={(updates) => onSiteMetadataUpdate(site.id, updates)}
+            onClose={() => setSettingsTarget(null)}
+          />
+        );
+      })()}
+
+      {showReportDialog && (
+        <PdfReportDialog year={year} sites={data} onClose={() => setShowReportDialog(false)} />
+      )}
+
+      {galleryTarget && (() => {
+        const sites = galleryTarget.isArchive ? archivedData : data;
+        const site = sites[galleryTarget.siteIndex];
+        const row = site?.rows[galleryTarget.rowIndex];
+        if (!row) return null;
+        const { siteIndex, rowIndex } = galleryTarget;
+        return (
+          <AttachmentGallery
+            key={`${row.id}-${galleryTarget.month || 'all'}`}
+            siteName={site.name}
+            row={row}
+            year={year}
+            initialMonth={galleryTarget.month}
+            readOnly={galleryTarget.isArchive}
+            onAddFiles={(files, month) => handleAddAttachments(siteIndex, rowIndex, files, month)}
+            onUpdateAttachment={(attachmentId, updates) => handleUpdateAttachment(siteIndex, rowIndex, attachmentId, updates)}
+            onDeleteAttachment={(attachmentId) => handleDeleteAttachment(siteIndex, rowIndex, attachmentId)}
+            onClose={() => setGalleryTarget(null)}
+          />
+        );
+      })()}
+
       <div className="flex justify-end pt-4">
-          <div className="text-sm text-gray-500 italic">* يتم حساب المجاميع أفقياً وعمودياً بشكل تلقائي.<br/>* يمكن تعديل أسماء المواقع، أرقام العدادات، ومسميات الاستهلاك بالضغط عليها مباشرة.<br/>* لارفاق ملف، اضغط على أيقونة المشبك. يتم حفظ الملفات محلياً (الحجم الأقصى 2MB).</div>
+          <div className="text-sm text-gray-500 italic">* يتم حساب المجاميع أفقياً وعمودياً بشكل تلقائي.<br/>* يمكن تعديل أسماء المواقع، أرقام العدادات، ومسميات الاستهلاك بالضغط عليها مباشرة.<br/>* إجماليات الاستهلاك تُحوّل إلى وحدة موحدة لكل خدمة (الجالون إلى م³، وBTU إلى طن تبريد/ساعة).<br/>* لحساب قيمة الاستهلاك تلقائياً، اربط تعرفة ببند الاستهلاك (أيقونة الآلة الحاسبة). الخلايا المعدلة يدوياً تظهر باللون البرتقالي.<br/>* الخلايا المحاطة بالأحمر تحتوي على قيم غير طبيعية مقارنة بالأشهر السابقة أو بالسنة السابقة، مرر المؤشر على علامة التنبيه لمعرفة السبب.<br/>* يمكن التراجع عن أي تعديل (بما في ذلك حذف البنود والمواقع) باستخدام Ctrl+Z وإعادته باستخدام Ctrl+Y.<br/>* لتحديد ميزانية الموقع اضغط على أيقونة المحفظة. صف "الميزانية مقابل الفعلي" يعرض الفرق (الفعلي - الميزانية): الأخضر ضمن الميزانية، البرتقالي قريب منها، والأحمر تجاوزها.<br/>* أعمدة الفترات (الأرباع، الأنصاف، ومنذ بداية السنة حتى الشهر الحالي) تُختار من زر "أعمدة الفترات" وتظهر أيضاً في ملف Excel المُصدّر.<br/>* لارفاق فواتير الأشهر، اضغط على أيقونة المشبك. يتم حفظ الملفات محلياً (الحجم الأقصى {MAX_ATTACHMENT_SIZE_MB}MB).</div>
       </div>
     </div>
   );
@@ -0,0 +1,24 @@
+import React from 'react';
+import { FileText, Image as ImageIcon, FileSpreadsheet, File } from 'lucide-react';
+
+interface FileIconProps {
+  fileName: string;
+  mimeType: string;
+  size?: number;
+}
+
+const FileIcon: React.FC<FileIconProps> = ({ fileName, mimeType, size = 18 }) => {
+  const ext = fileName.split('.').pop()?.toLowerCase() || '';
+
+  if (mimeType.startsWith('image/') || ['jpg', 'jpeg', 'png', 'gif', 'svg'].includes(ext)) {
+    return <ImageIcon size={size} className="text-purple-600" strokeWidth={2} />;
+  }
+  if (ext === 'pdf') return <FileText size={size} className="text-red-600" strokeWidth={2} />;
+  if (['doc', 'docx'].includes(ext)) return <FileText size={size} className="text-blue-600" strokeWidth={2} />;
+  if (['xls', 'xlsx', 'csv'].includes(ext)) return <FileSpreadsheet size={size} className="text-emerald-600" strokeWidth={2} />;
+  if (['ppt', 'pptx'].includes(ext)) return <File size={size} className="text-orange-500" strokeWidth={2} />;
+  if (ext === 'txt') return <FileText size={size} className="text-gray-500" strokeWidth={2} />;
+  return <File size={size} className="text-slate-400" strokeWidth={2} />;
+};
+
+export default FileIcon;
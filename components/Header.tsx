@@ -1,17 +1,36 @@
-import React from 'react';
-import { Calendar, LoaderCircle, CheckCircle } from 'lucide-react';
+import React, { useState } from 'react';
+import { Calendar, LoaderCircle, CheckCircle, Wallet, UserRound } from 'lucide-react';
+import { YEAR_RANGE } from '../constants.ts';
+import { BudgetAlert } from '../utils/budgets.ts';
+import { formatNumber } from '../utils/calculations.ts';
+import BrandLogo from './BrandLogo.tsx';
 
 interface HeaderProps {
   currentYear: number;
   onYearChange: (year: number) => void;
   autoSaveStatus: 'idle' | 'saving' | 'saved';
+  yearsWithData: number[];
+  budgetAlerts: BudgetAlert[];
+  userName: string; // Recorded with every change in the audit log
+  onUserNameChange: (name: string) => void;
 }
 
-const Header: React.FC<HeaderProps> = ({ currentYear, onYearChange, autoSaveStatus }) => {
-  // Generate years from current year to 2099
-  const startYear = new Date().getFullYear();
-  const endYear = 2099;
-  const years = Array.from({ length: endYear - startYear + 1 }, (_, i) => startYear + i);
+const Header: React.FC<HeaderProps> = ({ currentYear, onYearChange, autoSaveStatus, yearsWithData, budgetAlerts, userName, onUserNameChange }) => {
+  const [showBudgetAlerts, setShowBudgetAlerts] = useState(false);
+
+  // Generate years from the configured past range up to the end year
+  const startYear = new Date().getFullYear() - YEAR_RANGE.PAST_YEARS;
+  const endYear = YEAR_RANGE.END_YEAR;
+  const rangeYears = Array.from({ length: endYear - startYear + 1 }, (_, i) => startYear + i);
+
+  // Years holding records are listed first, whether or not they fall inside the range
+  const recordedYears = Array.from(new Set<number>(yearsWithData)).sort((a, b) => b - a);
+  const emptyYears = Array.from(new Set<number>([...rangeYears, currentYear])).filter(y => !recordedYears.includes(y)).sort((a, b) => a - b);
+
+  const handleUserNameClick = () => {
+    const name = window.prompt("اسم المستخدم (يظهر في سجل التعديلات):", userName);
+    if (name !== null) onUserNameChange(name.trim());
+  };
 
   return (
     <header className="bg-[#091526] border-b-4 border-[#eab308] shadow-xl sticky top-0 z-50 h-28 print:hidden transition-all duration-300">
@@ -20,32 +39,7 @@ const Header: React.FC<HeaderProps> = ({ currentYear, onYearChange, autoSaveStat
           
           {/* Branding Section - Right (RTL Start) */}
           <div className="flex items-center gap-6 z-20 relative shrink-0">
-             <div className="flex items-center gap-5 group select-none cursor-default">
-               {/* Logo Mark */}
-               <div className="relative w-16 h-16 bg-gradient-to-br from-blue-600 via-blue-700 to-slate-900 rounded-2xl shadow-lg flex items-center justify-center border border-blue-500/30 overflow-hidden transform group-hover:scale-105 transition-all duration-300">
-                   {/* Gloss effect */}
-                   <div className="absolute top-0 left-0 w-full h-1/2 bg-white/10 blur-[1px]"></div>
-                   
-                   {/* The Letter S */}
-                   <span className="font-black text-4xl text-white italic relative z-10 drop-shadow-md font-sans">S</span>
-                   
-                   {/* Dot/Accent */}
-                   <div className="absolute bottom-2.5 right-2.5 w-3 h-3 bg-yellow-400 rounded-full shadow-[0_0_8px_rgba(250,204,21,0.8)] animate-pulse"></div>
-               </div>
-
-               {/* Text Logo */}
-               <div className="flex flex-col justify-center">
-                   <h1 className="text-4xl font-black text-white tracking-wider leading-none font-sans drop-shadow-sm">
-                       SAHER
-                   </h1>
-                   <div className="flex items-center gap-2 mt-1.5">
-                       <div className="h-[3px] w-5 bg-yellow-500 rounded-full"></div>
-                       <span className="text-xs font-bold text-blue-200 tracking-[0.2em] uppercase group-hover:text-white transition-colors whitespace-nowrap">
-                           FOR SMART SERVICES
-                       </span>
-                   </div>
-               </div>
-            </div>
+             <BrandLogo />
           </div>
 
           {/* Centered Title Section - Absolute Center */}
@@ -60,6 +54,51 @@ const Header: React.FC<HeaderProps> = ({ currentYear, onYearChange, autoSaveStat
 
           {/* Controls - Left (RTL End) */}
           <div className="flex items-center gap-4 z-20 relative shrink-0">
+            {/* Budget Alerts */}
+            {budgetAlerts.length > 0 && (
+              <div className="relative">
+                <button
+                  onClick={() => setShowBudgetAlerts(!showBudgetAlerts)}
+                  className="relative flex items-center gap-2 h-10 px-3 rounded-xl border border-red-500/60 bg-red-900/40 text-red-100 hover:bg-red-800/60 transition-colors text-sm font-bold"
+                  title="مواقع تجاوزت الميزانية أو في طريقها لتجاوزها"
+                >
+                  <Wallet size={18} className="text-red-300" />
+                  <span className="hidden lg:inline">تنبيهات الميزانية</span>
+                  <span className="bg-red-500 text-white text-[10px] px-1.5 rounded-full">{budgetAlerts.length}</span>
+                </button>
+                {showBudgetAlerts && (
+                  <div className="absolute left-0 top-12 w-80 bg-white rounded-lg shadow-2xl border border-gray-200 text-slate-800 overflow-hidden">
+                    <div className="bg-gray-50 px-3 py-2 border-b border-gray-200 text-sm font-bold">تنبيهات الميزانية - {currentYear}</div>
+                    <ul className="max-h-72 overflow-y-auto divide-y divide-gray-100">
+                      {budgetAlerts.map(alert => (
+                        <li key={alert.siteId} className="px-3 py-2 text-xs">
+                          <div className="flex items-center justify-between gap-2">
+                            <span className="font-bold text-sm">{alert.siteName}</span>
+                            <span className={`px-1.5 py-0.5 rounded-full font-bold ${alert.kind === 'over' ? 'bg-red-100 text-red-700' : 'bg-amber-100 text-amber-700'}`}>
+                              {alert.kind === 'over' ? 'تجاوز الميزانية' : 'متوقع التجاوز'}
+                            </span>
+                          </div>
+                          <div className="text-gray-500 mt-1">
+                            الميزانية: {formatNumber(alert.annualBudget)} | الفعلي: {formatNumber(alert.actualToDate)} | المتوقع: {formatNumber(alert.projectedAnnual)}
+                          </div>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+              </div>
+            )}
+
+            {/* Current user, recorded in the audit log */}
+            <button
+              onClick={handleUserNameClick}
+              className={`flex items-center gap-2 h-10 px-3 rounded-xl border text-sm font-bold transition-colors ${userName ? 'border-blue-800/50 bg-blue-950/50 text-blue-100 hover:border-blue-600' : 'border-yellow-500/60 bg-yellow-900/30 text-yellow-200 hover:bg-yellow-800/40'}`}
+              title="تغيير اسم المستخدم"
+            >
+              <UserRound size={18} className={userName ? 'text-blue-300' : 'text-yellow-400'} />
+              <span className="hidden lg:inline max-w-[10rem] truncate">{userName || 'تحديد المستخدم'}</span>
+            </button>
+
             {/* Auto Save Status Indicator */}
             <div className="relative h-10 w-40 hidden lg:block">
               <div className={`absolute inset-0 flex items-center justify-center bg-blue-950/50 rounded-xl p-2 border border-blue-800/50 shadow-inner text-xs transition-opacity duration-300 ${autoSaveStatus !== 'idle' ? 'opacity-100' : 'opacity-0'}`}>
@@ -85,9 +124,18 @@ const Header: React.FC<HeaderProps> = ({ currentYear, onYearChange, autoSaveStat
                 onChange={(e) => onYearChange(Number(e.target.value))}
                 className="bg-transparent border-none text-lg font-bold text-white focus:ring-0 rounded py-0 pl-2 pr-8 cursor-pointer outline-none [&>option]:text-slate-900 font-mono h-10"
               >
-                {years.map(y => (
-                  <option key={y} value={y}>{y}</option>
-                ))}
+                {recordedYears.length > 0 && (
+                  <optgroup label="سنوات بها بيانات">
+                    {recordedYears.map(y => (
+                      <option key={y} value={y}>{y}</option>
+                    ))}
+                  </optgroup>
+                )}
+                <optgroup label="سنوات بدون بيانات" className="text-gray-400">
+                  {emptyYears.map(y => (
+                    <option key={y} value={y} className="text-gray-400">{y}</option>
+                  ))}
+                </optgroup>
               </select>
               <div className="px-2 text-yellow-500 border-r border-blue-800/50 mr-1 group-hover:text-yellow-400 transition-colors">
                 <Calendar size={22} />
@@ -0,0 +1,193 @@
+import React, { useMemo, useState } from 'react';
+import { SiteData, MONTHS, MonthKey, RowType } from '../types.ts';
+import { X, Upload, AlertTriangle, Link2, PlusCircle } from 'lucide-react';
+import { WorkBook, utils } from 'xlsx';
+import {
+  ColumnMapping, ImportField, ImportResult, IMPORT_FIELD_LABELS, REQUIRED_IMPORT_FIELDS,
+  detectColumnMapping, mappingErrors, matchImportedSites, mergeImport, parseImportRows
+} from '../utils/excelImport.ts';
+
+interface ImportWizardProps {
+  year: number;
+  fileName: string;
+  workbook: WorkBook;
+  existingSites: SiteData[];
+  onImport: (result: ImportResult) => void;
+  onClose: () => void;
+}
+
+const readSheetRows = (workbook: WorkBook, sheetName: string) =>
+  utils.sheet_to_json<unknown[]>(workbook.Sheets[sheetName], { header: 1, blankrows: true });
+
+const ImportWizard: React.FC<ImportWizardProps> = ({ year, fileName, workbook, existingSites, onImport, onClose }) => {
+  const [step, setStep] = useState<'mapping' | 'preview'>('mapping');
+  const [sheetName, setSheetName] = useState(workbook.SheetNames[0]);
+  const rows = useMemo(() => readSheetRows(workbook, sheetName), [workbook, sheetName]);
+  const [mapping, setMapping] = useState<ColumnMapping>(() => detectColumnMapping(rows));
+
+  const handleSheetChange = (name: string) => {
+    setSheetName(name);
+    setMapping(detectColumnMapping(readSheetRows(workbook, name)));
+  };
+
+  // Column options, named after the header row
+  const columnCount = Math.max(0, ...rows.slice(0, 50).map(row => row?.length || 0));
+  const headerCells = rows[mapping.headerRow] || [];
+  const columnOptions = Array.from({ length: columnCount }, (_, i) => {
+    const header = String(headerCells[i] ?? '').trim();
+    return { value: i, label: `${utils.encode_col(i)}${header ? ` - ${header}` : ''}` };
+  });
+
+  const errors = mappingErrors(mapping);
+  const preview = useMemo(() => parseImportRows(rows, mapping), [rows, mapping]);
+  const matches = useMemo(() => matchImportedSites(preview.sites, existingSites), [preview, existingSites]);
+
+  const setField = (field: ImportField, value: string) => {
+    setMapping({ ...mapping, fields: { ...mapping.fields, [field]: value === '' ? null : Number(value) } });
+  };
+
+  const setMonth = (month: MonthKey, value: string) => {
+    setMapping({ ...mapping, months: { ...mapping.months, [month]: value === '' ? null : Number(value) } });
+  };
+
+  const handleImport = () => {
+    onImport(mergeImport(existingSites, matches, year));
+  };
+
+  const renderColumnSelect = (value: number | null, onChange: (value: string) => void, required = false) => (
+    <select value={value ?? ''} onChange={e => onChange(e.target.value)} className={`w-full border rounded px-2 py-1 text-xs bg-white ${required && value === null ? 'border-red-400' : 'border-gray-300'}`}>
+      <option value="">— غير موجود —</option>
+      {columnOptions.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+    </select>
+  );
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-black/50 flex items-center justify-center p-4 print:hidden" onClick={onClose}>
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-5xl h-[85vh] flex flex-col overflow-hidden" onClick={e => e.stopPropagation()}>
+        <div className="bg-[#091526] text-white px-4 py-3 flex items-center justify-between border-b-4 border-yellow-500">
+          <div className="flex items-center gap-2">
+            <Upload size={18} className="text-yellow-400" />
+            <h3 className="font-bold">استيراد من Excel - {step === 'mapping' ? 'تحديد الأعمدة' : 'معاينة البيانات'}</h3>
+            <span className="text-xs text-blue-200 font-mono">{fileName}</span>
+          </div>
+          <button onClick={onClose} className="p-1 rounded hover:bg-blue-800 transition-colors" title="إغلاق"><X size={18} /></button>
+        </div>
+
+        <div className="flex-grow overflow-y-auto p-4 text-sm text-slate-700">
+          {step === 'mapping' ? (
+            <div className="space-y-4">
+              <div className="flex flex-wrap items-center gap-4">
+                <label className="flex items-center gap-2">
+                  <span className="font-bold">الورقة:</span>
+                  <select value={sheetName} onChange={e => handleSheetChange(e.target.value)} className="border border-gray-300 rounded px-2 py-1 bg-white">
+                    {workbook.SheetNames.map(name => <option key={name} value={name}>{name}</option>)}
+                  </select>
+                </label>
+                <label className="flex items-center gap-2">
+                  <span className="font-bold">صف العناوين:</span>
+                  <input type="number" min={1} max={rows.length} value={mapping.headerRow + 1} onChange={e => setMapping({ ...mapping, headerRow: Math.max(0, Number(e.target.value) - 1) })} className="w-20 border border-gray-300 rounded px-2 py-1 font-mono" />
+                </label>
+                <span className="text-xs text-gray-500">تم اقتراح الأعمدة تلقائياً من صف العناوين، ويمكن تعديلها.</span>
+              </div>
+
+              <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+                {(Object.keys(IMPORT_FIELD_LABELS) as ImportField[]).map(field => (
+                  <label key={field} className="block">
+                    <span className="block text-xs font-bold mb-1">{IMPORT_FIELD_LABELS[field]}{REQUIRED_IMPORT_FIELDS.includes(field) && <span className="text-red-600"> *</span>}</span>
+                    {renderColumnSelect(mapping.fields[field], value => setField(field, value), REQUIRED_IMPORT_FIELDS.includes(field))}
+                  </label>
+                ))}
+              </div>
+
+              <div>
+                <span className="block text-xs font-bold mb-1">أعمدة الأشهر</span>
+                <div className="grid grid-cols-3 md:grid-cols-6 gap-2">
+                  {MONTHS.map(m => (
+                    <label key={m.key} className="block">
+                      <span className="block text-xs text-gray-500 mb-0.5">{m.label}</span>
+                      {renderColumnSelect(mapping.months[m.key], value => setMonth(m.key, value))}
+                    </label>
+                  ))}
+                </div>
+              </div>
+
+              {errors.length > 0 && (
+                <ul className="bg-red-50 border border-red-200 rounded p-2 text-xs text-red-800 list-disc list-inside">
+                  {errors.map(error => <li key={error}>{error}</li>)}
+                </ul>
+              )}
+            </div>
+          ) : (
+            <div className="space-y-4">
+              <div className="flex flex-wrap gap-3 text-xs">
+                <span className="px-2 py-1 rounded bg-blue-50 border border-blue-200">{preview.sites.length} موقع في الملف</span>
+                <span className="px-2 py-1 rounded bg-green-50 border border-green-200">{matches.filter(m => m.existing).length} مطابق لمواقع حالية</span>
+                <span className="px-2 py-1 rounded bg-amber-50 border border-amber-200">{matches.filter(m => !m.existing).length} موقع جديد</span>
+              </div>
+
+              {preview.issues.length > 0 && (
+                <div className="bg-amber-50 border border-amber-200 rounded p-2 text-xs text-amber-900">
+                  <div className="flex items-center gap-1 font-bold mb-1"><AlertTriangle size={14} />ملاحظات على الملف ({preview.issues.length}) - تم تجاهل القيم غير الصالحة</div>
+                  <ul className="max-h-32 overflow-y-auto space-y-0.5">
+                    {preview.issues.map((issue, i) => <li key={i}><span className="font-mono">صف {issue.row}:</span> {issue.message}</li>)}
+                  </ul>
+                </div>
+              )}
+
+              <table className="w-full text-xs text-right border border-gray-200">
+                <thead className="bg-gray-100 text-slate-700 sticky top-0">
+                  <tr>
+                    <th className="p-2">الموقع في الملف</th>
+                    <th className="p-2">رقم العداد</th>
+                    <th className="p-2">المطابقة</th>
+                    <th className="p-2">البنود</th>
+                    <th className="p-2">القيم</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {matches.map(({ imported, existing }) => (
+                    <tr key={imported.sourceRow} className="border-t border-gray-100 align-top">
+                      <td className="p-2 font-bold">{imported.name}<div className="font-normal text-gray-400 font-mono">صف {imported.sourceRow}</div></td>
+                      <td className="p-2 font-mono">{imported.meterNumber || '-'}</td>
+                      <td className="p-2">
+                        {existing
+                          ? <span className="inline-flex items-center gap-1 text-green-700"><Link2 size={12} />{existing.name}</span>
+                          : <span className="inline-flex items-center gap-1 text-amber-700"><PlusCircle size={12} />موقع جديد</span>}
+                      </td>
+                      <td className="p-2">
+                        {imported.rows.map(row => (
+                          <div key={row.sourceRow} className={row.type === RowType.CALCULATED_TOTAL ? 'text-gray-400' : ''}>{row.label}</div>
+                        ))}
+                      </td>
+                      <td className="p-2 font-mono text-gray-500">
+                        {imported.rows.map(row => <div key={row.sourceRow}>{Object.keys(row.values).length} شهر</div>)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+
+              <p className="text-xs text-gray-500">
+                سيتم دمج القيم في سنة {year}: تُحدَّث الأشهر التي لها قيمة في الملف فقط، وتضاف البنود والمواقع غير الموجودة. المواقع الأخرى والأشهر الفارغة في الملف لا تتغير، والإجماليات يعاد حسابها.
+              </p>
+            </div>
+          )}
+        </div>
+
+        <div className="flex items-center justify-end gap-2 px-4 py-3 border-t border-gray-200 bg-gray-50">
+          <button onClick={onClose} className="px-4 py-2 rounded text-sm border border-gray-300 hover:bg-gray-100">إلغاء</button>
+          {step === 'mapping' ? (
+            <button onClick={() => setStep('preview')} disabled={errors.length > 0} className="px-4 py-2 rounded text-sm font-bold text-white bg-[#091526] hover:bg-blue-800 disabled:opacity-40">التالي: معاينة</button>
+          ) : (
+            <>
+              <button onClick={() => setStep('mapping')} className="px-4 py-2 rounded text-sm border border-gray-300 hover:bg-gray-100">السابق</button>
+              <button onClick={handleImport} disabled={preview.sites.length === 0} className="px-4 py-2 rounded text-sm font-bold text-white bg-[#091526] hover:bg-blue-800 disabled:opacity-40">دمج في سنة {year}</button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImportWizard;
@@ -0,0 +1,105 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { SiteData } from '../types.ts';
+import { X, FileText, Loader2 } from 'lucide-react';
+import ReportPages from './ReportPages.tsx';
+import { downloadPagesAsPdf, reportFileName } from '../utils/pdfReport.ts';
+
+interface PdfReportDialogProps {
+  year: number;
+  sites: SiteData[];
+  onClose: () => void;
+}
+
+const nextFrame = () => new Promise<void>(resolve => requestAnimationFrame(() => resolve()));
+
+const PdfReportDialog: React.FC<PdfReportDialogProps> = ({ year, sites, onClose }) => {
+  const [siteId, setSiteId] = useState<string>(''); // Empty: all sites
+  const [includeAttachments, setIncludeAttachments] = useState(true);
+  const [generating, setGenerating] = useState(false);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const pagesRef = useRef<HTMLDivElement>(null);
+
+  const selectedSite = sites.find(s => s.id === siteId);
+  const reportSites = selectedSite ? [selectedSite] : sites;
+
+  // The pages are mounted off screen once generation starts, then captured one by one
+  useEffect(() => {
+    if (!generating) return;
+    let cancelled = false;
+
+    const capture = async () => {
+      try {
+        await document.fonts.ready;
+        await nextFrame();
+        await nextFrame();
+        const pages = Array.from<HTMLElement>(pagesRef.current?.querySelectorAll('[data-report-page]') || []);
+        setProgress({ done: 0, total: pages.length });
+        await downloadPagesAsPdf(pages, reportFileName(year, selectedSite?.name), done => {
+          if (!cancelled) setProgress({ done, total: pages.length });
+        });
+        if (!cancelled) onClose();
+      } catch (e) {
+        console.error("PDF Report Error:", e);
+        alert("حدث خطأ أثناء إنشاء التقرير.");
+        if (!cancelled) {
+          setGenerating(false);
+          setProgress(null);
+        }
+      }
+    };
+
+    capture();
+    return () => { cancelled = true; };
+  }, [generating]);
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-black/50 flex items-center justify-center p-4 print:hidden" onClick={generating ? undefined : onClose}>
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-md flex flex-col overflow-hidden" onClick={e => e.stopPropagation()}>
+        <div className="bg-[#091526] text-white px-4 py-3 flex items-center justify-between border-b-4 border-yellow-500">
+          <div className="flex items-center gap-2">
+            <FileText size={18} className="text-yellow-400" />
+            <h3 className="font-bold">تقرير PDF لسنة {year}</h3>
+          </div>
+          <button onClick={onClose} disabled={generating} className="p-1 rounded hover:bg-blue-800 transition-colors disabled:opacity-40" title="إغلاق"><X size={18} /></button>
+        </div>
+
+        <div className="p-4 space-y-4 text-sm text-slate-700">
+          <label className="block">
+            <span className="font-bold block mb-1">نطاق التقرير</span>
+            <select value={siteId} onChange={e => setSiteId(e.target.value)} disabled={generating} className="w-full border border-gray-300 rounded px-2 py-1.5 bg-white">
+              <option value="">جميع المواقع (غلاف، ملخص، صفحة لكل موقع)</option>
+              {sites.map(site => <option key={site.id} value={site.id}>{site.name}</option>)}
+            </select>
+          </label>
+
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input type="checkbox" checked={includeAttachments} onChange={e => setIncludeAttachments(e.target.checked)} disabled={generating} />
+            <span>قائمة الفواتير المرفقة</span>
+          </label>
+
+          {progress && (
+            <div className="flex items-center gap-2 text-xs text-blue-800">
+              <Loader2 size={14} className="animate-spin" />
+              <span>جاري إنشاء الصفحات ({progress.done} من {progress.total})...</span>
+            </div>
+          )}
+        </div>
+
+        <div className="flex items-center justify-end gap-2 px-4 py-3 border-t border-gray-200 bg-gray-50">
+          <button onClick={onClose} disabled={generating} className="px-4 py-2 rounded text-sm border border-gray-300 hover:bg-gray-100 disabled:opacity-40">إلغاء</button>
+          <button onClick={() => setGenerating(true)} disabled={generating || reportSites.length === 0} className="px-4 py-2 rounded text-sm font-bold text-white bg-[#091526] hover:bg-blue-800 disabled:opacity-40">
+            تحميل التقرير
+          </button>
+        </div>
+      </div>
+
+      {generating && (
+        <div ref={pagesRef} dir="rtl" style={{ position: 'fixed', left: -20000, top: 0 }} aria-hidden>
+          <ReportPages year={year} sites={reportSites} siteReport={!!selectedSite} includeAttachments={includeAttachments} />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PdfReportDialog;
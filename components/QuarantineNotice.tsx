@@ -0,0 +1,64 @@
+import React from 'react';
+import { ShieldAlert, Download, Trash2 } from 'lucide-react';
+import { QuarantineEntry, readQuarantinedRaw, deleteQuarantine, STORAGE_KEYS } from '../utils/storage.ts';
+
+interface QuarantineNoticeProps {
+  entries: QuarantineEntry[];
+  lockedKeys: string[]; // Invalid keys that could not be moved aside and are left untouched
+  onEntriesChange: () => void;
+}
+
+const KEY_LABELS: Record<string, string> = {
+  [STORAGE_KEYS.DATA]: 'بيانات السنوات',
+  [STORAGE_KEYS.TEMPLATE]: 'قالب المواقع',
+  [STORAGE_KEYS.ARCHIVES]: 'الأرشيف'
+};
+
+const QuarantineNotice: React.FC<QuarantineNoticeProps> = ({ entries, lockedKeys, onEntriesChange }) => {
+  const handleDownload = (entry: QuarantineEntry) => {
+    const url = URL.createObjectURL(new Blob([readQuarantinedRaw(entry)], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${entry.sourceKey || 'quarantine'}_${entry.quarantinedAt.slice(0, 10)}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleDelete = (entry: QuarantineEntry) => {
+    if (!window.confirm("هل تريد حذف هذه البيانات المعزولة نهائياً؟ يُنصح بتنزيلها أولاً.")) return;
+    deleteQuarantine(entry);
+    onEntriesChange();
+  };
+
+  return (
+    <div className="mb-4 border border-red-300 bg-red-50 rounded-lg p-3 text-sm text-red-900 print:hidden">
+      <div className="flex items-center gap-2 font-bold mb-2">
+        <ShieldAlert size={18} />
+        <span>تم العثور على بيانات محفوظة تالفة أو غير متوافقة، وتم عزلها حتى لا يتم الكتابة فوقها.</span>
+      </div>
+
+      {lockedKeys.length > 0 && (
+        <p className="mb-2 text-xs">
+          تعذر عزل: {lockedKeys.map(key => KEY_LABELS[key] || key).join('، ')} (ذاكرة المتصفح ممتلئة). لن يتم حفظ التعديلات على هذه البيانات حتى يتم تفريغ مساحة وإعادة تحميل الصفحة.
+        </p>
+      )}
+
+      <ul className="space-y-1">
+        {entries.map(entry => (
+          <li key={entry.storageKey} className="flex items-start justify-between gap-3 bg-white/70 border border-red-100 rounded px-2 py-1.5">
+            <div className="min-w-0">
+              <div className="font-bold">{KEY_LABELS[entry.sourceKey] || entry.sourceKey} <span className="font-normal text-xs text-red-700">({entry.quarantinedAt ? new Date(entry.quarantinedAt).toLocaleString('ar-AE') : '-'})</span></div>
+              <div className="text-xs text-red-700 whitespace-pre-line break-words">{entry.reason}</div>
+            </div>
+            <div className="flex gap-1 shrink-0">
+              <button onClick={() => handleDownload(entry)} className="p-1.5 rounded border border-red-200 bg-white hover:bg-red-100" title="تنزيل البيانات الأصلية"><Download size={14} /></button>
+              <button onClick={() => handleDelete(entry)} className="p-1.5 rounded border border-red-200 bg-white hover:bg-red-100 text-red-600" title="حذف"><Trash2 size={14} /></button>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default QuarantineNotice;
@@ -0,0 +1,140 @@
+import React, { useMemo, useState } from 'react';
+import { ConsumptionRow, MeterReading, MONTHS, MonthKey } from '../types.ts';
+import { X, Gauge, AlertTriangle } from 'lucide-react';
+import { evaluateReadings, setMonthReading } from '../utils/readings.ts';
+import { formatNumber } from '../utils/calculations.ts';
+import { UNITS } from '../utils/units.ts';
+
+interface ReadingEditorProps {
+  siteName: string;
+  row: ConsumptionRow;
+  year: number;
+  carriedOpening?: number; // Last reading of an earlier year
+  capacity?: number; // Where the register restarts; undefined when the meter's digits are not set
+  onSave: (readings: ConsumptionRow['readings']) => void; // undefined turns reading mode off
+  onClose: () => void;
+}
+
+const parseReading = (value: string) => value === '' ? undefined : parseFloat(value);
+
+const ReadingEditor: React.FC<ReadingEditorProps> = ({ siteName, row, year, carriedOpening, capacity, onSave, onClose }) => {
+  const [readings, setReadings] = useState<NonNullable<ConsumptionRow['readings']>>(() => row.readings || {});
+  const results = useMemo(() => evaluateReadings(readings, carriedOpening, capacity), [readings, carriedOpening, capacity]);
+
+  const updateMonth = (month: MonthKey, updates: Partial<MeterReading>) => {
+    setReadings(prev => setMonthReading(prev, month, { ...prev[month], ...updates }));
+  };
+
+  const handleSave = () => {
+    onSave(readings);
+    onClose();
+  };
+
+  const handleTurnOff = () => {
+    if (!window.confirm("هل تريد إيقاف وضع القراءات؟ تبقى القيم الحالية وتعود للإدخال اليدوي، وتُحذف القراءات.")) return;
+    onSave(undefined);
+    onClose();
+  };
+
+  const inputClass = "w-full border border-gray-300 rounded px-1.5 py-1 text-sm font-mono focus:ring-2 focus:ring-blue-500 outline-none";
+  const unitLabel = row.unit ? UNITS[row.unit].label : '';
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-black/50 flex items-center justify-center p-4 print:hidden" onClick={onClose}>
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-5xl max-h-[90vh] flex flex-col overflow-hidden" onClick={e => e.stopPropagation()}>
+        <div className="bg-[#091526] text-white px-4 py-3 flex items-center justify-between border-b-4 border-yellow-500">
+          <div className="flex items-center gap-2">
+            <Gauge size={18} className="text-yellow-400" />
+            <h3 className="font-bold">قراءات العداد {year}: {siteName} - {row.label}</h3>
+          </div>
+          <button onClick={onClose} className="p-1 rounded hover:bg-blue-800 transition-colors" title="إغلاق"><X size={18} /></button>
+        </div>
+
+        <div className="p-4 space-y-3 overflow-y-auto text-sm text-slate-700">
+          <p className="text-xs text-gray-500">
+            يُحسب الاستهلاك من الفرق بين القراءة الختامية والافتتاحية. تُترك القراءة الافتتاحية فارغة لتستمر من قراءة الشهر السابق
+            {carriedOpening !== undefined ? ` (يبدأ يناير من آخر قراءة قبل ${year}: ${formatNumber(carriedOpening)})` : ''}.
+            الأشهر التي تسبق أول قراءة تحتفظ بقيمها المُدخلة.
+            {capacity !== undefined
+              ? ` يعود العداد إلى الصفر بعد ${formatNumber(capacity - 1)}.`
+              : ' لحساب العودة إلى الصفر حدد عدد خانات العداد في بيانات الموقع.'}
+          </p>
+          <table className="w-full text-center border border-gray-200">
+            <thead className="bg-gray-100 text-slate-700 text-xs">
+              <tr>
+                <th className="p-2 border-r border-gray-200">الشهر</th>
+                <th className="p-2 border-r border-gray-200">القراءة الافتتاحية</th>
+                <th className="p-2 border-r border-gray-200">القراءة الختامية</th>
+                <th className="p-2 border-r border-gray-200" title="تجاوز العداد حده الأقصى وعاد إلى الصفر (حسب عدد خانات العداد)">عودة للصفر</th>
+                <th className="p-2 border-r border-gray-200" title="استُبدل العداد خلال الشهر">استبدال العداد</th>
+                <th className="p-2 border-r border-gray-200">الاستهلاك{unitLabel ? ` (${unitLabel})` : ''}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {MONTHS.map(month => {
+                const reading = readings[month.key] || {};
+                const result = results[month.key];
+                return (
+                  <React.Fragment key={month.key}>
+                    <tr className={`border-t border-gray-200 ${result.issue ? 'bg-red-50' : ''}`}>
+                      <td className="p-2 border-r border-gray-200 font-bold">{month.label}</td>
+                      <td className="p-1 border-r border-gray-200">
+                        <input type="number" min="0" step="any" value={reading.opening ?? ''} onChange={e => updateMonth(month.key, { opening: parseReading(e.target.value) })} placeholder={result.carried ? formatNumber(result.opening!) : ''} className={inputClass} dir="ltr" title={result.carried ? 'مستمرة من القراءة السابقة' : undefined} />
+                      </td>
+                      <td className="p-1 border-r border-gray-200">
+                        <input type="number" min="0" step="any" value={reading.closing ?? ''} onChange={e => updateMonth(month.key, { closing: parseReading(e.target.value) })} className={`${inputClass} ${result.issue ? 'border-red-400' : ''}`} dir="ltr" />
+                      </td>
+                      <td className="p-1 border-r border-gray-200">
+                        <input type="checkbox" checked={!!reading.rollover} onChange={e => updateMonth(month.key, { rollover: e.target.checked })} disabled={!!reading.replacement} />
+                      </td>
+                      <td className="p-1 border-r border-gray-200">
+                        <input type="checkbox" checked={!!reading.replacement} onChange={e => updateMonth(month.key, { replacement: e.target.checked ? { oldClosing: result.opening ?? 0, newOpening: 0 } : undefined, rollover: undefined })} />
+                      </td>
+                      <td className={`p-2 border-r border-gray-200 font-bold ${result.derived ? 'text-blue-900' : 'text-gray-400'}`} title={result.derived ? undefined : 'قبل أول قراءة: القيمة المُدخلة يدوياً'}>
+                        {result.derived ? formatNumber(result.consumption) : formatNumber(row.values[month.key])}
+                      </td>
+                    </tr>
+                    {reading.replacement && (
+                      <tr className="bg-amber-50 text-xs">
+                        <td className="p-1 border-r border-gray-200"></td>
+                        <td colSpan={5} className="p-1">
+                          <div className="flex flex-wrap items-center gap-2">
+                            <label className="flex items-center gap-1">آخر قراءة للعداد القديم
+                              <input type="number" min="0" step="any" value={reading.replacement.oldClosing} onChange={e => updateMonth(month.key, { replacement: { ...reading.replacement!, oldClosing: parseFloat(e.target.value) || 0 } })} className={`${inputClass} w-32`} dir="ltr" />
+                            </label>
+                            <label className="flex items-center gap-1">أول قراءة للعداد الجديد
+                              <input type="number" min="0" step="any" value={reading.replacement.newOpening} onChange={e => updateMonth(month.key, { replacement: { ...reading.replacement!, newOpening: parseFloat(e.target.value) || 0 } })} className={`${inputClass} w-32`} dir="ltr" />
+                            </label>
+                            <span className="text-gray-500">القراءة الختامية للشهر هي قراءة العداد الجديد.</span>
+                          </div>
+                        </td>
+                      </tr>
+                    )}
+                    {result.issue && (
+                      <tr className="bg-red-50 text-xs text-red-700">
+                        <td className="p-1 border-r border-gray-200"></td>
+                        <td colSpan={5} className="p-1 text-right"><span className="inline-flex items-center gap-1"><AlertTriangle size={12} />{result.issue}</span></td>
+                      </tr>
+                    )}
+                  </React.Fragment>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="flex items-center justify-between px-4 py-3 border-t border-gray-200 bg-gray-50">
+          {row.readings ? (
+            <button onClick={handleTurnOff} className="text-sm text-red-600 hover:text-red-800 underline">إيقاف وضع القراءات</button>
+          ) : <span />}
+          <div className="flex gap-2">
+            <button onClick={onClose} className="px-4 py-2 rounded text-sm border border-gray-300 hover:bg-gray-100">إلغاء</button>
+            <button onClick={handleSave} className="px-4 py-2 rounded text-sm font-bold bg-[#091526] hover:bg-blue-800 text-white">حفظ</button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReadingEditor;
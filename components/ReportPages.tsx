@@ -0,0 +1,271 @@
+import React, { useMemo } from 'react';
+import { SiteData, MONTHS, RowType, UtilityKind } from '../types.ts';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Legend } from 'recharts';
+import BrandLogo from './BrandLogo.tsx';
+import { buildCostByUtility, activeUtilities } from '../utils/analytics.ts';
+import { UTILITIES, calculateConsumptionTotals, calculateCostTotals } from '../utils/classification.ts';
+import { UNITS } from '../utils/units.ts';
+import { calculateGrandTotals, calculateHorizontalTotal, formatNumber } from '../utils/calculations.ts';
+import { formatFileSize } from '../utils/attachmentStore.ts';
+import { REPORT_PAGE_SIZE, REPORT_TABLE_ROWS_PER_PAGE, buildSiteReportTotals, chunk } from '../utils/pdfReport.ts';
+import { UTILITY_COLORS } from '../constants.ts';
+import { SITE_DETAIL_FIELDS } from '../utils/siteDetails.ts';
+
+interface ReportPagesProps {
+  year: number;
+  sites: SiteData[];
+  siteReport: boolean; // A report of a single site: no organisation-wide summary
+  includeAttachments: boolean;
+}
+
+const CHART_SIZE = { width: 1040, height: 250 };
+
+const utilityUnitLabel = (utility: UtilityKind) => UNITS[UTILITIES[utility].defaultUnit!].label;
+
+const MonthlyCostChart: React.FC<{ sites: SiteData[] }> = ({ sites }) => {
+  const series = buildCostByUtility(sites);
+  const utilities = activeUtilities(series);
+  if (utilities.length === 0) return <div className="h-24 flex items-center justify-center text-sm text-gray-400">لا توجد تكاليف مسجلة لعرضها في الرسم البياني.</div>;
+
+  return (
+    <div dir="ltr">
+      <BarChart width={CHART_SIZE.width} height={CHART_SIZE.height} data={series} margin={{ top: 10, right: 20, left: 10, bottom: 0 }}>
+        <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+        <XAxis dataKey="month" tick={{ fontSize: 11 }} />
+        <YAxis tick={{ fontSize: 11 }} />
+        <Legend />
+        {utilities.map(utility => (
+          <Bar key={utility} dataKey={utility} name={`${UTILITIES[utility].label} (درهم)`} stackId="cost" fill={UTILITY_COLORS[utility]} isAnimationActive={false} />
+        ))}
+      </BarChart>
+    </div>
+  );
+};
+
+const ReportPage: React.FC<{ year: number; title: string; pageNumber: number; pageCount: number; children: React.ReactNode }> = ({ year, title, pageNumber, pageCount, children }) => (
+  <div data-report-page className="bg-white text-slate-800 flex flex-col overflow-hidden" style={REPORT_PAGE_SIZE}>
+    <div className="bg-[#091526] border-b-4 border-yellow-500 px-8 py-3 flex items-center justify-between text-white">
+      <h2 className="text-lg font-bold">{title}</h2>
+      <span className="text-sm text-yellow-400 font-bold">سنة {year}</span>
+    </div>
+    <div className="flex-grow px-8 py-5 overflow-hidden">{children}</div>
+    <div className="px-8 py-2 border-t border-gray-200 text-xs text-gray-500 flex justify-between">
+      <span>نظام تسجيل نسبة استهلاك الماء والكهرباء لمقرات ساهر</span>
+      <span>صفحة {pageNumber} من {pageCount}</span>
+    </div>
+  </div>
+);
+
+const tableClass = "w-full text-[11px] text-center border-collapse";
+const headCellClass = "p-1.5 border border-slate-600 bg-[#334155] text-white font-bold";
+const cellClass = "p-1.5 border border-gray-200";
+
+/**
+ * The pages of the PDF report, rendered off screen at the size of an A4 landscape page:
+ * cover, summary (organisation-wide reports only), one page per site and the attached bills.
+ */
+const ReportPages: React.FC<ReportPagesProps> = ({ year, sites, siteReport, includeAttachments }) => {
+  const siteTotals = useMemo(() => buildSiteReportTotals(sites), [sites]);
+  const grandTotals = useMemo(() => calculateGrandTotals(sites), [sites]);
+  const consumptionTotals = useMemo(() => calculateConsumptionTotals(sites), [sites]);
+  const consumptionUtilities = (Object.keys(UTILITIES) as UtilityKind[]).filter(utility => consumptionTotals[utility]);
+  const costTotals = useMemo(() => calculateCostTotals(sites), [sites]);
+  const costUtilities = (Object.keys(UTILITIES) as UtilityKind[]).filter(utility => costTotals[utility]);
+
+  const attachments = useMemo(() => sites.flatMap(site => site.rows.flatMap(row =>
+    (row.attachments || []).map(attachment => ({ site, row, attachment }))
+  )), [sites]);
+
+  const pages: { key: string; title: string; content: React.ReactNode }[] = [];
+
+  if (!siteReport) {
+    pages.push({
+      key: 'summary',
+      title: 'ملخص السنة',
+      content: (
+        <div className="space-y-4">
+          <div className="flex gap-3">
+            <div className="flex-1 border border-blue-200 bg-blue-50 rounded-lg p-3">
+              <div className="text-xs text-gray-500">إجمالي قيمة الاستهلاك</div>
+              <div className="text-2xl font-black text-blue-900">{formatNumber(calculateHorizontalTotal(grandTotals))} <span className="text-sm font-bold">درهم</span></div>
+            </div>
+            {consumptionUtilities.map(utility => (
+              <div key={utility} className="flex-1 border border-gray-200 rounded-lg p-3">
+                <div className="text-xs text-gray-500">إجمالي استهلاك {UTILITIES[utility].label}</div>
+                <div className="text-2xl font-black text-slate-800">{formatNumber(calculateHorizontalTotal(consumptionTotals[utility]!))} <span className="text-sm font-bold">{utilityUnitLabel(utility)}</span></div>
+              </div>
+            ))}
+            <div className="flex-1 border border-gray-200 rounded-lg p-3">
+              <div className="text-xs text-gray-500">عدد المواقع</div>
+              <div className="text-2xl font-black text-slate-800">{sites.length}</div>
+            </div>
+          </div>
+
+          <table className={tableClass}>
+            <thead>
+              <tr>
+                <th className={`${headCellClass} w-48`}>البند</th>
+                {MONTHS.map(m => <th key={m.key} className={headCellClass}>{m.label}</th>)}
+                <th className={`${headCellClass} bg-[#091526]`}>المجموع</th>
+              </tr>
+            </thead>
+            <tbody>
+              <tr className="bg-blue-50 font-bold text-blue-900">
+                <td className={cellClass}>الإجمالي الكلي (درهم)</td>
+                {MONTHS.map(m => <td key={m.key} className={cellClass}>{formatNumber(grandTotals[m.key])}</td>)}
+                <td className={`${cellClass} bg-yellow-400 text-black`}>{formatNumber(calculateHorizontalTotal(grandTotals))}</td>
+              </tr>
+              {costUtilities.map(utility => (
+                <tr key={`cost-${utility}`} className="bg-blue-50/50">
+                  <td className={cellClass}>تكلفة {UTILITIES[utility].label} (درهم)</td>
+                  {MONTHS.map(m => <td key={m.key} className={cellClass}>{formatNumber(costTotals[utility]![m.key])}</td>)}
+                  <td className={`${cellClass} font-bold`}>{formatNumber(calculateHorizontalTotal(costTotals[utility]!))}</td>
+                </tr>
+              ))}
+              {consumptionUtilities.map(utility => (
+                <tr key={utility}>
+                  <td className={cellClass}>استهلاك {UTILITIES[utility].label} ({utilityUnitLabel(utility)})</td>
+                  {MONTHS.map(m => <td key={m.key} className={cellClass}>{formatNumber(consumptionTotals[utility]![m.key])}</td>)}
+                  <td className={`${cellClass} font-bold`}>{formatNumber(calculateHorizontalTotal(consumptionTotals[utility]!))}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <MonthlyCostChart sites={sites} />
+        </div>
+      )
+    });
+
+    chunk(siteTotals, REPORT_TABLE_ROWS_PER_PAGE).forEach((rows, i) => {
+      pages.push({
+        key: `site-totals-${i}`,
+        title: 'الإجماليات السنوية للمواقع',
+        content: (
+          <table className={`${tableClass} text-xs`}>
+            <thead>
+              <tr>
+                <th className={headCellClass}>الموقع</th>
+                <th className={headCellClass}>رقم العداد</th>
+                {consumptionUtilities.map(utility => <th key={utility} className={headCellClass}>استهلاك {UTILITIES[utility].label} ({utilityUnitLabel(utility)})</th>)}
+                <th className={`${headCellClass} bg-[#091526]`}>قيمة الاستهلاك (درهم)</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(({ site, cost, consumption }) => (
+                <tr key={site.id}>
+                  <td className={`${cellClass} font-bold text-right`}>{site.name}</td>
+                  <td className={`${cellClass} font-mono`}>{site.meterNumber}</td>
+                  {consumptionUtilities.map(utility => <td key={utility} className={cellClass}>{consumption[utility] === undefined ? '-' : formatNumber(consumption[utility]!)}</td>)}
+                  <td className={`${cellClass} font-bold`}>{formatNumber(cost)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )
+      });
+    });
+  }
+
+  sites.forEach(site => {
+    pages.push({
+      key: `site-${site.id}`,
+      title: site.name,
+      content: (
+        <div className="space-y-4">
+          <div className="flex gap-6 text-sm">
+            <span><span className="text-gray-500">رقم العداد: </span><span className="font-mono font-bold">{site.meterNumber || '-'}</span></span>
+            {SITE_DETAIL_FIELDS.filter(f => ['emirate', 'provider', 'accountNumber'].includes(f.key) && site[f.key]).map(f => (
+              <span key={f.key}><span className="text-gray-500">{f.label}: </span><span className="font-bold">{site[f.key]}</span></span>
+            ))}
+            <span><span className="text-gray-500">إجمالي قيمة الاستهلاك: </span><span className="font-bold">{formatNumber(siteTotals.find(t => t.site.id === site.id)?.cost || 0)} درهم</span></span>
+          </div>
+          <table className={tableClass}>
+            <thead>
+              <tr>
+                <th className={`${headCellClass} w-48`}>نوع الاستهلاك</th>
+                {MONTHS.map(m => <th key={m.key} className={headCellClass}>{m.label}</th>)}
+                <th className={`${headCellClass} bg-[#091526]`}>المجموع</th>
+              </tr>
+            </thead>
+            <tbody>
+              {site.rows.map(row => {
+                const isTotalRow = row.type === RowType.CALCULATED_TOTAL;
+                return (
+                  <tr key={row.id} className={isTotalRow ? 'bg-blue-50 font-bold text-blue-900' : ''}>
+                    <td className={`${cellClass} text-right`}>{row.label}</td>
+                    {MONTHS.map(m => <td key={m.key} className={cellClass}>{formatNumber(row.values[m.key])}</td>)}
+                    <td className={`${cellClass} font-bold`}>{formatNumber(calculateHorizontalTotal(row.values))}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+          <MonthlyCostChart sites={[site]} />
+        </div>
+      )
+    });
+  });
+
+  if (includeAttachments) {
+    const attachmentPages = attachments.length > 0 ? chunk(attachments, REPORT_TABLE_ROWS_PER_PAGE) : [[]];
+    attachmentPages.forEach((rows, i) => {
+      pages.push({
+        key: `attachments-${i}`,
+        title: 'الفواتير والمرفقات',
+        content: rows.length === 0 ? (
+          <div className="h-full flex items-center justify-center text-gray-400">لا توجد مرفقات لهذه السنة.</div>
+        ) : (
+          <table className={`${tableClass} text-xs`}>
+            <thead>
+              <tr>
+                <th className={headCellClass}>الموقع</th>
+                <th className={headCellClass}>البند</th>
+                <th className={headCellClass}>الشهر</th>
+                <th className={headCellClass}>اسم الملف</th>
+                <th className={headCellClass}>الحجم</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(({ site, row, attachment }) => (
+                <tr key={attachment.id}>
+                  <td className={`${cellClass} text-right`}>{site.name}</td>
+                  <td className={`${cellClass} text-right`}>{row.label}</td>
+                  <td className={cellClass}>{MONTHS.find(m => m.key === attachment.month)?.label || '-'}</td>
+                  <td className={`${cellClass} text-right font-mono`} dir="ltr">{attachment.name}</td>
+                  <td className={`${cellClass} font-mono`}>{formatFileSize(attachment.size)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )
+      });
+    });
+  }
+
+  const pageCount = pages.length + 1;
+
+  return (
+    <>
+      <div data-report-page className="bg-[#091526] text-white flex flex-col items-center justify-center gap-10 relative border-b-[12px] border-yellow-500" style={REPORT_PAGE_SIZE}>
+        <div className="scale-150"><BrandLogo isStatic /></div>
+        <div className="text-center space-y-3">
+          <div className="text-yellow-500 text-xl font-bold">إدارة الخدمات العامة / قسم إدارة المرافق</div>
+          <h1 className="text-4xl font-black">تقرير استهلاك الماء والكهرباء</h1>
+          {siteReport && sites[0] && <div className="text-2xl font-bold text-blue-100">{sites[0].name}</div>}
+          <div className="text-6xl font-black text-yellow-400 font-mono">{year}</div>
+        </div>
+        <div className="absolute bottom-8 text-sm text-blue-200">
+          تاريخ الإصدار: {new Date().toLocaleDateString('ar-AE')} | {siteReport ? 'تقرير موقع' : `${sites.length} موقع`}
+        </div>
+      </div>
+      {pages.map((page, i) => (
+        <ReportPage key={page.key} year={year} title={page.title} pageNumber={i + 2} pageCount={pageCount}>
+          {page.content}
+        </ReportPage>
+      ))}
+    </>
+  );
+};
+
+export default ReportPages;
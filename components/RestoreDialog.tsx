@@ -0,0 +1,86 @@
+import React, { useMemo, useState } from 'react';
+import { X, DatabaseBackup, AlertTriangle } from 'lucide-react';
+import { WorkspaceBackup, summarizeBackup } from '../utils/backup.ts';
+
+interface RestoreDialogProps {
+  fileName: string;
+  backup: WorkspaceBackup;
+  onRestore: (mode: 'replace' | 'merge') => Promise<void>;
+  onClose: () => void;
+}
+
+const RestoreDialog: React.FC<RestoreDialogProps> = ({ fileName, backup, onRestore, onClose }) => {
+  const summary = useMemo(() => summarizeBackup(backup), [backup]);
+  const [mode, setMode] = useState<'replace' | 'merge'>('merge');
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  const handleRestore = async () => {
+    if (mode === 'replace' && !window.confirm("سيتم حذف جميع البيانات الحالية واستبدالها بمحتوى النسخة الاحتياطية. هل أنت متأكد؟")) return;
+    setIsRestoring(true);
+    try {
+      await onRestore(mode);
+      onClose();
+    } catch (e) {
+      console.error("Restore Error:", e);
+      alert("حدث خطأ أثناء استعادة النسخة الاحتياطية.");
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  const exportedAt = summary.exportedAt ? new Date(summary.exportedAt).toLocaleString('ar-AE') : 'غير معروف';
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-black/50 flex items-center justify-center p-4 print:hidden" onClick={onClose}>
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-lg flex flex-col overflow-hidden" onClick={e => e.stopPropagation()}>
+        <div className="bg-[#091526] text-white px-4 py-3 flex items-center justify-between border-b-4 border-yellow-500">
+          <div className="flex items-center gap-2">
+            <DatabaseBackup size={18} className="text-yellow-400" />
+            <h3 className="font-bold">استعادة نسخة احتياطية</h3>
+          </div>
+          <button onClick={onClose} className="p-1 rounded hover:bg-blue-800 transition-colors" title="إغلاق"><X size={18} /></button>
+        </div>
+
+        <div className="p-4 space-y-4 text-sm text-slate-700">
+          <table className="w-full">
+            <tbody className="divide-y divide-gray-100">
+              <tr><td className="py-1.5 font-bold w-40">الملف</td><td className="py-1.5 font-mono text-xs break-all">{fileName}</td></tr>
+              <tr><td className="py-1.5 font-bold">تاريخ النسخة</td><td className="py-1.5">{exportedAt}</td></tr>
+              <tr><td className="py-1.5 font-bold">إصدار الملف</td><td className="py-1.5 font-mono">{summary.schemaVersion}</td></tr>
+              <tr><td className="py-1.5 font-bold">السنوات</td><td className="py-1.5 font-mono">{summary.years.length > 0 ? summary.years.join('، ') : 'لا يوجد'}</td></tr>
+              <tr><td className="py-1.5 font-bold">عدد المواقع</td><td className="py-1.5">{summary.siteCount} (منها {summary.archivedSiteCount} في الأرشيف)</td></tr>
+              <tr><td className="py-1.5 font-bold">المرفقات</td><td className="py-1.5">{summary.attachmentCount} ملف</td></tr>
+            </tbody>
+          </table>
+
+          {summary.missingAttachmentCount > 0 && (
+            <div className="flex items-start gap-2 bg-amber-50 border border-amber-200 rounded p-2 text-amber-900 text-xs">
+              <AlertTriangle size={14} className="shrink-0 mt-0.5" />
+              <span>{summary.missingAttachmentCount} مرفق غير موجود في الملف وسيظهر بدون محتوى.</span>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <label className="flex items-start gap-2 cursor-pointer">
+              <input type="radio" name="restore-mode" checked={mode === 'merge'} onChange={() => setMode('merge')} className="mt-1" />
+              <span><span className="font-bold">دمج مع البيانات الحالية</span><br /><span className="text-xs text-gray-500">تضاف المواقع والبنود والسنوات الجديدة، وتُملأ الأشهر الفارغة فقط. القيم المدخلة حالياً لا تتغير.</span></span>
+            </label>
+            <label className="flex items-start gap-2 cursor-pointer">
+              <input type="radio" name="restore-mode" checked={mode === 'replace'} onChange={() => setMode('replace')} className="mt-1" />
+              <span><span className="font-bold text-red-700">استبدال جميع البيانات</span><br /><span className="text-xs text-gray-500">تحذف البيانات الحالية بالكامل ويحل محلها محتوى النسخة الاحتياطية.</span></span>
+            </label>
+          </div>
+        </div>
+
+        <div className="flex items-center justify-end gap-2 px-4 py-3 border-t border-gray-200 bg-gray-50">
+          <button onClick={onClose} className="px-4 py-2 rounded text-sm border border-gray-300 hover:bg-gray-100">إلغاء</button>
+          <button onClick={handleRestore} disabled={isRestoring} className={`px-4 py-2 rounded text-sm font-bold text-white disabled:opacity-40 ${mode === 'replace' ? 'bg-red-700 hover:bg-red-800' : 'bg-[#091526] hover:bg-blue-800'}`}>
+            {isRestoring ? 'جاري الاستعادة...' : 'استعادة'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RestoreDialog;
@@ -0,0 +1,313 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { SiteData, MONTHS, MonthKey, RowType, AuditEntry } from '../types.ts';
+import { ArrowRight, MapPin, Hash, CalendarRange, Paperclip, History, BarChart3, TrendingUp, Eye, Table2 } from 'lucide-react';
+import { ResponsiveContainer, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend } from 'recharts';
+import AttachmentGallery from './AttachmentGallery.tsx';
+import { buildCostByUtility, activeUtilities, buildSiteYears, buildRowHistory } from '../utils/analytics.ts';
+import { UTILITIES } from '../utils/classification.ts';
+import { UNITS } from '../utils/units.ts';
+import { calculateHorizontalTotal, formatNumber } from '../utils/calculations.ts';
+import { formatFileSize } from '../utils/attachmentStore.ts';
+import { AUDIT_ACTION_LABELS, AUDIT_FIELD_LABELS, formatAuditMonth, formatAuditValue } from '../utils/audit.ts';
+import { UTILITY_COLORS } from '../constants.ts';
+import { SITE_DETAIL_FIELDS } from '../utils/siteDetails.ts';
+import { describeMeter, meterLabel } from '../utils/meters.ts';
+
+interface SiteDetailViewProps {
+  siteId: string;
+  year: number;
+  dataByYear: Record<number, SiteData[]>;
+  archivesByYear: Record<number, SiteData[]>;
+  auditLog: AuditEntry[];
+  onYearChange: (year: number) => void;
+  onBack: () => void;
+  onShowAuditLog: (siteId: string) => void;
+}
+
+// Number of recent changes listed on the page; the audit log viewer has the rest
+const RECENT_CHANGES = 15;
+
+const Section: React.FC<{ title: string; icon: React.ReactNode; children: React.ReactNode; actions?: React.ReactNode }> = ({ title, icon, children, actions }) => (
+  <div className="bg-white border border-gray-200 rounded-lg shadow-sm">
+    <div className="flex items-center justify-between px-4 py-2 border-b border-gray-200 bg-gray-50 rounded-t-lg">
+      <div className="flex items-center gap-2 font-bold text-slate-700">{icon}<span>{title}</span></div>
+      {actions}
+    </div>
+    <div className="p-3">{children}</div>
+  </div>
+);
+
+const SiteDetailView: React.FC<SiteDetailViewProps> = ({ siteId, year, dataByYear, archivesByYear, auditLog, onYearChange, onBack, onShowAuditLog }) => {
+  const siteYears = useMemo(() => buildSiteYears(siteId, dataByYear, archivesByYear), [siteId, dataByYear, archivesByYear]);
+  const rowHistory = useMemo(() => buildRowHistory(siteYears), [siteYears]);
+  const [galleryTarget, setGalleryTarget] = useState<{ year: number; rowId: string; month?: MonthKey } | null>(null);
+
+  const selected = siteYears.find(y => y.year === year);
+  const latest = siteYears[siteYears.length - 1];
+  const site = selected?.site || latest?.site;
+
+  const costByUtility = useMemo(() => buildCostByUtility(selected ? [selected.site] : []), [selected]);
+  const stackedUtilities = useMemo(() => activeUtilities(costByUtility), [costByUtility]);
+  const annualCosts = useMemo(() => siteYears.map(y => ({ year: String(y.year), cost: y.cost })), [siteYears]);
+
+  const bills = useMemo(() => siteYears.flatMap(({ year: billYear, site: yearSite }) => yearSite.rows.flatMap(row =>
+    (row.attachments || []).map(attachment => ({ year: billYear, row, attachment }))
+  )).reverse(), [siteYears]);
+
+  const changes = useMemo(() => auditLog.filter(e => e.siteId === siteId).slice(-RECENT_CHANGES).reverse(), [auditLog, siteId]);
+
+  const tooltipFormatter = (value: unknown) => formatNumber(Number(value));
+
+  // The page is opened from deep inside the table
+  useEffect(() => {
+    window.scrollTo({ top: 0 });
+  }, []);
+
+  if (!site) {
+    return (
+      <div className="p-12 text-center space-y-4">
+        <p className="text-gray-500">هذا الموقع غير موجود في أي سنة.</p>
+        <button onClick={onBack} className="inline-flex items-center gap-2 bg-[#091526] hover:bg-blue-800 text-white px-4 py-2 rounded shadow transition-all text-sm font-bold"><ArrowRight size={16} />العودة إلى الجدول</button>
+      </div>
+    );
+  }
+
+  const galleryRow = galleryTarget && siteYears.find(y => y.year === galleryTarget.year)?.site.rows.find(r => r.id === galleryTarget.rowId);
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-[#091526] p-4 rounded-t-lg border-b-4 border-yellow-500 shadow-sm text-center relative">
+        <h2 className="text-xl md:text-2xl font-bold text-white tracking-wide">{site.name} - لسنة <span className="text-yellow-400">{year}</span></h2>
+        <button onClick={onBack} className="absolute right-4 top-1/2 -translate-y-1/2 bg-blue-800 hover:bg-blue-700 text-blue-100 p-2 rounded transition-all border border-blue-700 flex items-center gap-1 print:hidden" title="العودة إلى جدول الاستهلاك"><ArrowRight size={18} /><span className="hidden md:inline text-xs">العودة</span></button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-3 text-sm">
+        <div className="border border-gray-200 rounded-lg p-3 bg-blue-50/50">
+          <div className="flex items-center gap-1 text-xs text-gray-500"><MapPin size={12} />الموقع</div>
+          <div className="font-bold text-blue-900 mt-1">{site.name}</div>
+        </div>
+        <div className="border border-gray-200 rounded-lg p-3">
+          <div className="flex items-center gap-1 text-xs text-gray-500"><Hash size={12} />{site.meters && site.meters.length > 1 ? 'العدادات' : 'رقم العداد'}</div>
+          {site.meters && site.meters.length > 0 ? site.meters.map((meter, i) => (
+            <div key={meter.id} className="mt-1 flex items-baseline gap-2">
+              <span className="font-bold font-mono text-slate-700">{meterLabel(meter, i)}</span>
+              <span className="text-xs text-gray-500">{describeMeter(meter)}</span>
+            </div>
+          )) : <div className="font-bold font-mono text-slate-700 mt-1">{site.meterNumber || '-'}</div>}
+        </div>
+        <div className="border border-gray-200 rounded-lg p-3">
+          <div className="flex items-center gap-1 text-xs text-gray-500"><CalendarRange size={12} />سنة الإضافة</div>
+          <div className="font-bold font-mono text-slate-700 mt-1">{site.startYear || siteYears[0]?.year || '-'}</div>
+        </div>
+        <div className="border border-gray-200 rounded-lg p-3">
+          <div className="text-xs text-gray-500">الحالة في {year}</div>
+          <div className={`font-bold mt-1 ${!selected ? 'text-gray-400' : selected.archived ? 'text-red-700' : 'text-green-700'}`}>{!selected ? 'لا توجد بيانات' : selected.archived ? 'مؤرشف' : 'نشط'}</div>
+        </div>
+      </div>
+
+      {SITE_DETAIL_FIELDS.some(f => site[f.key]) && (
+        <dl className="grid grid-cols-2 md:grid-cols-4 gap-x-6 gap-y-2 text-sm border border-gray-200 rounded-lg p-3">
+          {SITE_DETAIL_FIELDS.filter(f => site[f.key]).map(f => (
+            <div key={f.key} className={f.key === 'address' ? 'col-span-2' : ''}>
+              <dt className="text-xs text-gray-500">{f.label}</dt>
+              <dd className={`font-bold text-slate-700 break-words ${f.ltr ? 'font-mono' : ''}`} dir={f.ltr ? 'ltr' : undefined}>{site[f.key]}</dd>
+            </div>
+          ))}
+        </dl>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2 px-1 print:hidden">
+        <span className="text-sm font-bold text-slate-700">السنوات:</span>
+        {siteYears.map(y => (
+          <button key={y.year} onClick={() => onYearChange(y.year)} className={`px-3 py-1 rounded border text-sm font-mono transition-all ${y.year === year ? 'bg-[#091526] text-white border-blue-900/50' : y.archived ? 'bg-red-50 text-red-700 border-red-200 hover:border-red-400' : 'bg-white text-slate-700 border-gray-200 hover:border-blue-400'}`} title={y.archived ? 'مؤرشف في هذه السنة' : undefined}>
+            {y.year}
+          </button>
+        ))}
+      </div>
+
+      <Section title={`الاستهلاك الشهري - ${year}`} icon={<Table2 size={16} />}>
+        {!selected ? (
+          <p className="text-center text-sm text-gray-500 py-6">لا توجد بيانات لهذا الموقع في سنة {year}.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs sm:text-sm text-center border-collapse min-w-[1000px]">
+              <thead>
+                <tr className="bg-[#334155] text-white font-bold">
+                  <th className="p-2 border-r border-slate-600 w-[180px]">نوع الاستهلاك</th>
+                  {MONTHS.map(m => <th key={m.key} className="p-2 border-r border-slate-600">{m.label}</th>)}
+                  <th className="p-2 border-r border-slate-600 bg-[#091526]">المجموع</th>
+                </tr>
+              </thead>
+              <tbody>
+                {selected.site.rows.map(row => {
+                  const isTotalRow = row.type === RowType.CALCULATED_TOTAL;
+                  return (
+                    <tr key={row.id} className={`border-b border-gray-200 ${isTotalRow ? 'bg-blue-100 font-bold text-blue-900' : 'text-slate-700'}`}>
+                      <td className="p-2 border-r border-blue-100 text-right">
+                        {row.label}
+                        {row.unit && <span className="text-[10px] text-blue-500 mr-1">({UNITS[row.unit].label})</span>}
+                      </td>
+                      {MONTHS.map(m => {
+                        const hasBill = row.attachments?.some(a => a.month === m.key);
+                        return (
+                          <td key={m.key} className="p-2 border-r border-blue-100 relative">
+                            {formatNumber(row.values[m.key])}
+                            {hasBill && (
+                              <button type="button" onClick={() => setGalleryTarget({ year, rowId: row.id, month: m.key })} className="absolute top-0.5 left-0.5 text-blue-500 hover:text-blue-700 print:hidden" title={`فواتير شهر ${m.label}`}>
+                                <Paperclip size={10} />
+                              </button>
+                            )}
+                          </td>
+                        );
+                      })}
+                      <td className="p-2 border-r border-blue-100 font-bold bg-yellow-50/50">{formatNumber(calculateHorizontalTotal(row.values))}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </Section>
+
+      <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+        <Section title={`التكلفة الشهرية حسب الخدمة - ${year}`} icon={<BarChart3 size={16} />}>
+          <div className="h-[280px]" dir="ltr">
+            {stackedUtilities.length === 0 ? (
+              <div className="h-full flex items-center justify-center text-sm text-gray-400">لا توجد تكاليف مسجلة.</div>
+            ) : (
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={costByUtility}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+                  <XAxis dataKey="month" tick={{ fontSize: 11 }} />
+                  <YAxis tick={{ fontSize: 11 }} />
+                  <Tooltip formatter={tooltipFormatter} />
+                  <Legend />
+                  {stackedUtilities.map(utility => (
+                    <Bar key={utility} dataKey={utility} name={UTILITIES[utility].label} stackId="cost" fill={UTILITY_COLORS[utility]} />
+                  ))}
+                </BarChart>
+              </ResponsiveContainer>
+            )}
+          </div>
+        </Section>
+
+        <Section title="إجمالي التكلفة السنوية (درهم)" icon={<TrendingUp size={16} />}>
+          <div className="h-[280px]" dir="ltr">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={annualCosts}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+                <XAxis dataKey="year" tick={{ fontSize: 11 }} />
+                <YAxis tick={{ fontSize: 11 }} />
+                <Tooltip formatter={tooltipFormatter} />
+                <Bar dataKey="cost" name="التكلفة" fill="#1e3a8a" />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        </Section>
+      </div>
+
+      <Section title="البنود عبر السنوات (المجموع السنوي)" icon={<CalendarRange size={16} />}>
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs sm:text-sm text-center border-collapse">
+            <thead>
+              <tr className="bg-[#334155] text-white font-bold">
+                <th className="p-2 border-r border-slate-600 text-right">البند</th>
+                {siteYears.map(y => <th key={y.year} className={`p-2 border-r border-slate-600 font-mono ${y.year === year ? 'bg-[#091526] text-yellow-400' : ''}`}>{y.year}</th>)}
+              </tr>
+            </thead>
+            <tbody>
+              {rowHistory.map(row => (
+                <tr key={row.rowId} className={`border-b border-gray-200 ${row.type === RowType.CALCULATED_TOTAL ? 'bg-blue-50 font-bold text-blue-900' : 'text-slate-700'}`}>
+                  <td className="p-2 border-r border-blue-100 text-right">
+                    {row.label}
+                    {row.unit && <span className="text-[10px] text-blue-500 mr-1">({UNITS[row.unit].label})</span>}
+                  </td>
+                  {siteYears.map(y => <td key={y.year} className="p-2 border-r border-blue-100">{row.totals[y.year] === undefined ? '-' : formatNumber(row.totals[y.year])}</td>)}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </Section>
+
+      <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+        <Section title="الفواتير والمرفقات" icon={<Paperclip size={16} />}>
+          {bills.length === 0 ? (
+            <p className="text-center text-sm text-gray-500 py-6">لا توجد مرفقات لهذا الموقع.</p>
+          ) : (
+            <div className="max-h-[320px] overflow-y-auto">
+              <table className="w-full text-sm text-right">
+                <thead className="bg-gray-100 text-slate-700 sticky top-0">
+                  <tr>
+                    <th className="p-2">السنة</th>
+                    <th className="p-2">البند</th>
+                    <th className="p-2">الشهر</th>
+                    <th className="p-2">الملف</th>
+                    <th className="p-2"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {bills.map(({ year: billYear, row, attachment }) => (
+                    <tr key={attachment.id} className="border-t border-gray-100 hover:bg-blue-50/50">
+                      <td className="p-2 font-mono">{billYear}</td>
+                      <td className="p-2">{row.label}</td>
+                      <td className="p-2">{formatAuditMonth(attachment.month) || '-'}</td>
+                      <td className="p-2">
+                        <div className="truncate max-w-[220px]" dir="ltr" title={attachment.name}>{attachment.name}</div>
+                        <div className="text-[10px] text-gray-400">{formatFileSize(attachment.size)}</div>
+                      </td>
+                      <td className="p-2">
+                        <button onClick={() => setGalleryTarget({ year: billYear, rowId: row.id, month: attachment.month })} className="text-blue-600 hover:text-blue-800" title="عرض"><Eye size={16} /></button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </Section>
+
+        <Section
+          title="آخر التعديلات"
+          icon={<History size={16} />}
+          actions={<button onClick={() => onShowAuditLog(siteId)} className="text-xs text-blue-700 hover:underline print:hidden">عرض السجل الكامل</button>}
+        >
+          {changes.length === 0 ? (
+            <p className="text-center text-sm text-gray-500 py-6">لا توجد تعديلات مسجلة لهذا الموقع.</p>
+          ) : (
+            <ul className="max-h-[320px] overflow-y-auto divide-y divide-gray-100 text-sm">
+              {changes.map(entry => (
+                <li key={entry.id} className="py-2 flex flex-wrap items-baseline gap-x-2">
+                  <span className="font-bold text-slate-700">{AUDIT_ACTION_LABELS[entry.action] || entry.action}</span>
+                  {(entry.field || entry.rowLabel) && <span className="text-slate-600">{entry.field ? AUDIT_FIELD_LABELS[entry.field] || entry.field : entry.rowLabel}</span>}
+                  {entry.month && <span className="text-slate-500">{formatAuditMonth(entry.month)}</span>}
+                  {(entry.oldValue !== undefined || entry.newValue !== undefined) && (
+                    <span className="font-mono text-xs"><span className="text-red-700">{formatAuditValue(entry.oldValue)}</span> ← <span className="text-green-700">{formatAuditValue(entry.newValue)}</span></span>
+                  )}
+                  <span className="text-xs text-gray-400 mr-auto">{entry.user} · {entry.year} · {new Date(entry.timestamp).toLocaleString('ar-AE')}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </Section>
+      </div>
+
+      {galleryTarget && galleryRow && (
+        <AttachmentGallery
+          siteName={site.name}
+          row={galleryRow}
+          year={galleryTarget.year}
+          initialMonth={galleryTarget.month}
+          readOnly
+          onAddFiles={() => {}}
+          onUpdateAttachment={() => {}}
+          onDeleteAttachment={() => {}}
+          onClose={() => setGalleryTarget(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default SiteDetailView;
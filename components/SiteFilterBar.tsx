@@ -0,0 +1,68 @@
+import React from 'react';
+import { UtilityKind } from '../types.ts';
+import { Search, X, ArrowDownUp, CalendarX } from 'lucide-react';
+import { UTILITIES } from '../utils/classification.ts';
+import { DEFAULT_SITE_FILTERS, SITE_SORT_LABELS, SiteFilters, SiteSortKey, isFiltering } from '../utils/siteFilters.ts';
+
+interface SiteFilterBarProps {
+  filters: SiteFilters;
+  providers: string[];
+  emirates: string[];
+  shownCount: number;
+  totalCount: number;
+  onChange: (filters: SiteFilters) => void;
+}
+
+const selectClass = "border border-gray-300 rounded px-2 py-1.5 text-sm bg-white";
+
+const SiteFilterBar: React.FC<SiteFilterBarProps> = ({ filters, providers, emirates, shownCount, totalCount, onChange }) => {
+  const update = (updates: Partial<SiteFilters>) => onChange({ ...filters, ...updates });
+  const filtering = isFiltering(filters);
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 px-3 py-2 bg-slate-50 border border-gray-200 rounded-lg print:hidden">
+      <div className="relative">
+        <Search size={14} className="absolute right-2 top-1/2 -translate-y-1/2 text-gray-400" />
+        <input type="search" value={filters.search} onChange={e => update({ search: e.target.value })} placeholder="بحث بالاسم أو رقم العداد أو الحساب" className="border border-gray-300 rounded pr-7 pl-2 py-1.5 text-sm w-64 bg-white" />
+      </div>
+
+      <select value={filters.utility} onChange={e => update({ utility: e.target.value as UtilityKind | '' })} className={selectClass} title="الخدمة">
+        <option value="">كل الخدمات</option>
+        {(Object.keys(UTILITIES) as UtilityKind[]).map(utility => <option key={utility} value={utility}>{UTILITIES[utility].label}</option>)}
+      </select>
+
+      <select value={filters.emirate} onChange={e => update({ emirate: e.target.value })} className={selectClass} title="الإمارة" disabled={emirates.length === 0}>
+        <option value="">كل الإمارات</option>
+        {emirates.map(emirate => <option key={emirate} value={emirate}>{emirate}</option>)}
+      </select>
+
+      <select value={filters.provider} onChange={e => update({ provider: e.target.value })} className={selectClass} title="مزود الخدمة (من بيانات الموقع أو التعرفات المرتبطة)" disabled={providers.length === 0}>
+        <option value="">كل المزودين</option>
+        {providers.map(provider => <option key={provider} value={provider}>{provider}</option>)}
+      </select>
+
+      <label className={`flex items-center gap-1.5 px-2 py-1.5 rounded border text-sm cursor-pointer ${filters.missingMonthsOnly ? 'border-amber-400 bg-amber-50 text-amber-800' : 'border-gray-300 bg-white text-slate-700'}`} title="المواقع التي لم تُدخل قيمها لأحد الأشهر المنقضية">
+        <input type="checkbox" checked={filters.missingMonthsOnly} onChange={e => update({ missingMonthsOnly: e.target.checked })} />
+        <CalendarX size={14} />أشهر ناقصة
+      </label>
+
+      <div className="flex items-center gap-1">
+        <ArrowDownUp size={14} className="text-gray-500" />
+        <select value={filters.sort} onChange={e => update({ sort: e.target.value as SiteSortKey })} className={selectClass} title="الترتيب">
+          {(Object.keys(SITE_SORT_LABELS) as SiteSortKey[]).map(sort => <option key={sort} value={sort}>{SITE_SORT_LABELS[sort]}</option>)}
+        </select>
+      </div>
+
+      <div className="flex items-center gap-2 mr-auto text-sm">
+        <span className={filtering ? 'font-bold text-blue-800' : 'text-gray-500'}>
+          {filtering ? `عرض ${shownCount} من ${totalCount} موقع` : `${totalCount} موقع`}
+        </span>
+        {(filtering || filters.sort !== 'table') && (
+          <button onClick={() => onChange(DEFAULT_SITE_FILTERS)} className="flex items-center gap-1 text-xs text-red-600 hover:underline"><X size={12} />مسح</button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SiteFilterBar;
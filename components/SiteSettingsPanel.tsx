@@ -0,0 +1,137 @@
+import React, { useState } from 'react';
+import { Meter, SiteData, UtilityKind } from '../types.ts';
+import { X, Settings2, Plus, Trash2 } from 'lucide-react';
+import { EMIRATES, SITE_DETAIL_FIELDS, SiteDetailField } from '../utils/siteDetails.ts';
+import { UTILITIES } from '../utils/classification.ts';
+import { joinMeterNumbers, meterLabel } from '../utils/meters.ts';
+
+interface SiteSettingsPanelProps {
+  site: SiteData;
+  providerSuggestions: string[];
+  readOnly: boolean; // Archived sites are shown but not edited
+  onSave: (updates: Partial<SiteData>) => void;
+  onClose: () => void;
+}
+
+type EditableField = 'name' | SiteDetailField;
+
+const SiteSettingsPanel: React.FC<SiteSettingsPanelProps> = ({ site, providerSuggestions, readOnly, onSave, onClose }) => {
+  const [values, setValues] = useState<Record<EditableField, string>>(() => {
+    const initial = { name: site.name } as Record<EditableField, string>;
+    SITE_DETAIL_FIELDS.forEach(f => initial[f.key] = site[f.key] || '');
+    return initial;
+  });
+  const [meters, setMeters] = useState<Meter[]>(() => site.meters || []);
+
+  const setValue = (field: EditableField, value: string) => setValues(prev => ({ ...prev, [field]: value }));
+  const updateMeter = (meterId: string, updates: Partial<Meter>) => setMeters(prev => prev.map(m => m.id === meterId ? { ...m, ...updates } : m));
+
+  const handleRemoveMeter = (meter: Meter) => {
+    // Rows stay; in every year they move under "بدون عداد" until they are linked to another meter
+    const linkedRows = site.rows.filter(r => r.meterId === meter.id).length;
+    if (linkedRows > 0 && !window.confirm(`يرتبط بهذا العداد ${linkedRows} بند في هذه السنة، وستظهر تحت "بدون عداد". هل تريد حذف العداد؟`)) return;
+    setMeters(prev => prev.filter(m => m.id !== meter.id));
+  };
+
+  const handleSave = () => {
+    // Only changed fields are passed on, so the audit log records one entry per actual change
+    const updates: Partial<SiteData> = {};
+    if (values.name.trim() !== site.name) updates.name = values.name.trim();
+    const cleanMeters = meters.map(m => ({ ...m, number: m.number.trim(), provider: m.provider?.trim() || undefined, rolloverDigits: m.rolloverDigits || undefined }));
+    if (JSON.stringify(cleanMeters) !== JSON.stringify(site.meters || [])) {
+      updates.meters = cleanMeters;
+      updates.meterNumber = joinMeterNumbers(cleanMeters);
+    }
+    SITE_DETAIL_FIELDS.forEach(({ key }) => {
+      const value = values[key].trim();
+      if (value !== (site[key] || '')) updates[key] = value || undefined;
+    });
+    if (Object.keys(updates).length > 0) onSave(updates);
+    onClose();
+  };
+
+  const inputClass = "w-full border border-gray-300 rounded px-2 py-1.5 text-sm focus:ring-2 focus:ring-blue-500 outline-none disabled:bg-gray-50 disabled:text-gray-500";
+  const emirateOptions = values.emirate && !EMIRATES.includes(values.emirate) ? [...EMIRATES, values.emirate] : EMIRATES;
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-black/50 flex items-center justify-center p-4 print:hidden" onClick={onClose}>
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-2xl max-h-[90vh] flex flex-col overflow-hidden" onClick={e => e.stopPropagation()}>
+        <div className="bg-[#091526] text-white px-4 py-3 flex items-center justify-between border-b-4 border-yellow-500">
+          <div className="flex items-center gap-2">
+            <Settings2 size={18} className="text-yellow-400" />
+            <h3 className="font-bold">بيانات الموقع - {site.name}</h3>
+          </div>
+          <button onClick={onClose} className="p-1 rounded hover:bg-blue-800 transition-colors" title="إغلاق"><X size={18} /></button>
+        </div>
+
+        <div className="p-4 overflow-y-auto grid grid-cols-1 sm:grid-cols-2 gap-3 text-sm text-slate-700">
+          <label className="block">
+            <span className="font-bold block mb-1">اسم الموقع</span>
+            <input value={values.name} onChange={e => setValue('name', e.target.value)} disabled={readOnly} className={inputClass} />
+          </label>
+
+          <div className="sm:col-span-2">
+            <div className="flex items-center justify-between mb-1">
+              <span className="font-bold">العدادات</span>
+              {!readOnly && (
+                <button type="button" onClick={() => setMeters(prev => [...prev, { id: `${site.id}_m${Date.now()}`, number: '', utility: 'electricity' }])} className="flex items-center gap-1 text-xs text-blue-700 hover:underline">
+                  <Plus size={12} />إضافة عداد
+                </button>
+              )}
+            </div>
+            {meters.length === 0 && <p className="text-xs text-gray-500">لا توجد عدادات لهذا الموقع.</p>}
+            <div className="space-y-2">
+              {meters.map((meter, i) => (
+                <div key={meter.id} className="flex items-center gap-2">
+                  <input value={meter.number} onChange={e => updateMeter(meter.id, { number: e.target.value })} disabled={readOnly} placeholder={meterLabel({ ...meter, number: '' }, i)} className={`${inputClass} font-mono`} dir="ltr" title="رقم العداد" />
+                  <select value={meter.utility} onChange={e => updateMeter(meter.id, { utility: e.target.value as UtilityKind })} disabled={readOnly} className={`${inputClass} bg-white w-32 shrink-0`} title="الخدمة">
+                    {(Object.keys(UTILITIES) as UtilityKind[]).map(utility => <option key={utility} value={utility}>{utility === 'other' ? 'مشترك / أخرى' : UTILITIES[utility].label}</option>)}
+                  </select>
+                  <input value={meter.provider || ''} onChange={e => updateMeter(meter.id, { provider: e.target.value })} disabled={readOnly} placeholder="المزود" className={`${inputClass} w-40 shrink-0`} list="site-provider-suggestions" title="مزود الخدمة لهذا العداد" />
+                  <input type="number" min="1" max="12" step="1" value={meter.rolloverDigits ?? ''} onChange={e => updateMeter(meter.id, { rolloverDigits: parseInt(e.target.value, 10) || undefined })} disabled={readOnly} placeholder="الخانات" className={`${inputClass} w-20 shrink-0`} dir="ltr" title="عدد خانات العداد، لحساب عودته إلى الصفر في وضع القراءات" />
+                  {!readOnly && (
+                    <button type="button" onClick={() => handleRemoveMeter(meter)} className="p-1.5 text-red-400 hover:text-red-600 shrink-0" title="حذف العداد"><Trash2 size={14} /></button>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {SITE_DETAIL_FIELDS.map(({ key, label, ltr }) => (
+            <label key={key} className={`block ${key === 'address' ? 'sm:col-span-2' : ''}`}>
+              <span className="font-bold block mb-1">{label}</span>
+              {key === 'emirate' ? (
+                <select value={values.emirate} onChange={e => setValue('emirate', e.target.value)} disabled={readOnly} className={`${inputClass} bg-white`}>
+                  <option value="">غير محدد</option>
+                  {emirateOptions.map(emirate => <option key={emirate} value={emirate}>{emirate}</option>)}
+                </select>
+              ) : (
+                <input
+                  value={values[key]}
+                  onChange={e => setValue(key, e.target.value)}
+                  disabled={readOnly}
+                  className={`${inputClass} ${ltr ? 'font-mono' : ''}`}
+                  dir={ltr ? 'ltr' : undefined}
+                  type={key === 'contactEmail' ? 'email' : key === 'contactPhone' ? 'tel' : 'text'}
+                  list={key === 'provider' ? 'site-provider-suggestions' : undefined}
+                />
+              )}
+            </label>
+          ))}
+          <datalist id="site-provider-suggestions">
+            {providerSuggestions.map(provider => <option key={provider} value={provider} />)}
+          </datalist>
+
+          <p className="sm:col-span-2 text-xs text-gray-500">البيانات والعدادات مشتركة بين جميع السنوات، ويُربط كل بند بعداده من جدول الاستهلاك، وتظهر في ملفات Excel المُصدّرة وفي خيارات التصفية.</p>
+        </div>
+
+        <div className="flex items-center justify-end gap-2 px-4 py-3 border-t border-gray-200 bg-gray-50">
+          <button onClick={onClose} className="px-4 py-2 rounded text-sm border border-gray-300 hover:bg-gray-100">{readOnly ? 'إغلاق' : 'إلغاء'}</button>
+          {!readOnly && <button onClick={handleSave} className="px-4 py-2 rounded text-sm font-bold bg-[#091526] hover:bg-blue-800 text-white">حفظ</button>}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SiteSettingsPanel;
@@ -0,0 +1,212 @@
+import React, { useState } from 'react';
+import { ConsumptionRow, Tariff, TariffSlab, UnitKey } from '../types.ts';
+import { X, Calculator, Plus, Trash2 } from 'lucide-react';
+import { TARIFF_PRESETS } from '../constants.ts';
+import { calculateTariffCost, findDefaultCostRowId, isTariffCompatible } from '../utils/tariffs.ts';
+import { formatNumber } from '../utils/calculations.ts';
+import { isCostRow } from '../utils/classification.ts';
+import { UNITS } from '../utils/units.ts';
+
+interface TariffEditorProps {
+  siteName: string;
+  rows: ConsumptionRow[];
+  rowIndex: number;
+  onSave: (tariff: Tariff | undefined, costRowId: string | undefined) => void;
+  onClose: () => void;
+}
+
+const cloneTariff = (tariff: Tariff): Tariff => JSON.parse(JSON.stringify(tariff));
+
+const TariffEditor: React.FC<TariffEditorProps> = ({ siteName, rows, rowIndex, onSave, onClose }) => {
+  const row = rows[rowIndex];
+  const costRows = rows.filter(r => isCostRow(r) && r.id !== row.id);
+
+  const [tariff, setTariff] = useState<Tariff>(() => row.tariff
+    ? cloneTariff(row.tariff)
+    : { ...cloneTariff(TARIFF_PRESETS.find(p => isTariffCompatible(row, p)) || TARIFF_PRESETS[0]), id: `tariff_${Date.now()}` });
+  const [costRowId, setCostRowId] = useState<string>(row.costRowId || findDefaultCostRowId(rows, rowIndex) || '');
+  const [sampleQuantity, setSampleQuantity] = useState(1000);
+
+  const applyPreset = (presetId: string) => {
+    const preset = TARIFF_PRESETS.find(p => p.id === presetId);
+    if (preset) setTariff({ ...cloneTariff(preset), id: tariff.id });
+  };
+
+  const updateSlab = (index: number, updates: Partial<TariffSlab>) => {
+    setTariff(prev => ({ ...prev, slabs: prev.slabs.map((s, i) => i === index ? { ...s, ...updates } : s) }));
+  };
+
+  const addSlab = () => {
+    setTariff(prev => {
+      const slabs = [...prev.slabs];
+      const last = slabs[slabs.length - 1];
+      // Close the open-ended slab and append a new open-ended one after it
+      if (last && last.upTo === null) {
+        const previousBound = slabs.length > 1 ? slabs[slabs.length - 2].upTo || 0 : 0;
+        slabs[slabs.length - 1] = { ...last, upTo: previousBound + 1000 };
+      }
+      slabs.push({ upTo: null, rate: last ? last.rate : 0 });
+      return { ...prev, slabs };
+    });
+  };
+
+  const removeSlab = (index: number) => {
+    setTariff(prev => {
+      const slabs = prev.slabs.filter((_, i) => i !== index);
+      if (slabs.length > 0) slabs[slabs.length - 1] = { ...slabs[slabs.length - 1], upTo: null };
+      return { ...prev, slabs };
+    });
+  };
+
+  // Units the tariff can be priced in: the row's own dimension (a gallon tariff fits an m³ row, a kWh tariff does not)
+  const pricingUnits = (Object.keys(UNITS) as UnitKey[]).filter(u => u !== 'aed' && (!row.unit || UNITS[u].dimension === UNITS[row.unit].dimension));
+  const isCompatible = isTariffCompatible(row, tariff);
+  const pricingUnit = tariff.unit || row.unit;
+  const unitLabel = pricingUnit ? UNITS[pricingUnit].label : 'وحدة';
+
+  const isValid = isCompatible && tariff.slabs.length > 0 && !!costRowId && tariff.slabs.every((s, i) => {
+    if (s.upTo === null) return i === tariff.slabs.length - 1;
+    const previous = i > 0 ? tariff.slabs[i - 1].upTo || 0 : 0;
+    return s.upTo > previous;
+  });
+
+  const handleSave = () => {
+    if (!isValid) return;
+    onSave(tariff, costRowId);
+    onClose();
+  };
+
+  const handleRemove = () => {
+    if (!window.confirm("هل تريد إزالة التعرفة؟ ستعود قيمة الاستهلاك للإدخال اليدوي.")) return;
+    onSave(undefined, row.costRowId);
+    onClose();
+  };
+
+  const inputClass = "w-full border border-gray-300 rounded px-2 py-1 text-sm focus:ring-2 focus:ring-blue-500 outline-none";
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-black/50 flex items-center justify-center p-4 print:hidden" onClick={onClose}>
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-2xl max-h-[90vh] flex flex-col overflow-hidden" onClick={e => e.stopPropagation()}>
+        <div className="bg-[#091526] text-white px-4 py-3 flex items-center justify-between border-b-4 border-yellow-500">
+          <div className="flex items-center gap-2">
+            <Calculator size={18} className="text-yellow-400" />
+            <h3 className="font-bold">تعرفة الاستهلاك: {siteName} - {row.label}</h3>
+          </div>
+          <button onClick={onClose} className="p-1 rounded hover:bg-blue-800 transition-colors" title="إغلاق"><X size={18} /></button>
+        </div>
+
+        <div className="p-4 space-y-4 overflow-y-auto">
+          <div className="grid grid-cols-2 gap-3">
+            <label className="text-sm text-slate-700 space-y-1">
+              <span className="font-bold">قالب جاهز</span>
+              <select defaultValue="" onChange={e => applyPreset(e.target.value)} className={inputClass}>
+                <option value="" disabled>اختر قالباً...</option>
+                {TARIFF_PRESETS.map(p => <option key={p.id} value={p.id} disabled={!isTariffCompatible(row, p)}>{p.provider ? `${p.provider} - ` : ''}{p.name}</option>)}
+              </select>
+            </label>
+            <label className="text-sm text-slate-700 space-y-1">
+              <span className="font-bold">بند القيمة المحسوب</span>
+              <select value={costRowId} onChange={e => setCostRowId(e.target.value)} className={inputClass}>
+                <option value="" disabled>اختر البند...</option>
+                {costRows.map(r => <option key={r.id} value={r.id}>{r.label}</option>)}
+              </select>
+            </label>
+            <label className="text-sm text-slate-700 space-y-1">
+              <span className="font-bold">مزود الخدمة</span>
+              <input value={tariff.provider} onChange={e => setTariff({ ...tariff, provider: e.target.value })} className={inputClass} />
+            </label>
+            <label className="text-sm text-slate-700 space-y-1">
+              <span className="font-bold">اسم التعرفة</span>
+              <input value={tariff.name} onChange={e => setTariff({ ...tariff, name: e.target.value })} className={inputClass} />
+            </label>
+            <label className="text-sm text-slate-700 space-y-1">
+              <span className="font-bold">وحدة التسعير</span>
+              <select value={tariff.unit || ''} onChange={e => setTariff({ ...tariff, unit: (e.target.value || undefined) as UnitKey | undefined })} className={inputClass}>
+                <option value="">وحدة البند{row.unit ? ` (${UNITS[row.unit].label})` : ''}</option>
+                {pricingUnits.map(u => <option key={u} value={u}>{UNITS[u].label}</option>)}
+              </select>
+            </label>
+            <div className="text-xs text-gray-500 self-end pb-1">
+              {tariff.unit && row.unit && tariff.unit !== row.unit ? `يُحوّل الاستهلاك من ${UNITS[row.unit].label} إلى ${UNITS[tariff.unit].label} قبل تطبيق الشرائح.` : ''}
+            </div>
+            <label className="text-sm text-slate-700 space-y-1">
+              <span className="font-bold">رسوم ثابتة شهرية (درهم)</span>
+              <input type="number" min="0" step="0.01" value={tariff.fixedFee} onChange={e => setTariff({ ...tariff, fixedFee: parseFloat(e.target.value) || 0 })} className={inputClass} />
+            </label>
+            <label className="text-sm text-slate-700 space-y-1">
+              <span className="font-bold">تعرفة الوقود (درهم / {unitLabel})</span>
+              <input type="number" min="0" step="0.001" value={tariff.fuelSurcharge} onChange={e => setTariff({ ...tariff, fuelSurcharge: parseFloat(e.target.value) || 0 })} className={inputClass} />
+            </label>
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <span className="text-sm font-bold text-slate-700">الشرائح</span>
+              <button onClick={addSlab} className="flex items-center gap-1 text-sm text-blue-700 hover:text-blue-900"><Plus size={14} />إضافة شريحة</button>
+            </div>
+            <table className="w-full text-sm text-center border border-gray-200">
+              <thead className="bg-gray-100 text-slate-700">
+                <tr>
+                  <th className="p-2 border-r border-gray-200">من</th>
+                  <th className="p-2 border-r border-gray-200">إلى</th>
+                  <th className="p-2 border-r border-gray-200">السعر (درهم / {unitLabel})</th>
+                  <th className="p-2 w-10"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {tariff.slabs.map((slab, i) => {
+                  const from = i > 0 ? tariff.slabs[i - 1].upTo || 0 : 0;
+                  const isLast = i === tariff.slabs.length - 1;
+                  return (
+                    <tr key={i} className="border-t border-gray-200">
+                      <td className="p-2 border-r border-gray-200 font-mono text-gray-500">{from}</td>
+                      <td className="p-1 border-r border-gray-200">
+                        {isLast ? (
+                          <span className="text-gray-500">فما فوق</span>
+                        ) : (
+                          <input type="number" min={from} value={slab.upTo ?? ''} onChange={e => updateSlab(i, { upTo: parseFloat(e.target.value) || 0 })} className={inputClass} />
+                        )}
+                      </td>
+                      <td className="p-1 border-r border-gray-200">
+                        <input type="number" min="0" step="0.0001" value={slab.rate} onChange={e => updateSlab(i, { rate: parseFloat(e.target.value) || 0 })} className={inputClass} />
+                      </td>
+                      <td className="p-1">
+                        {tariff.slabs.length > 1 && (
+                          <button onClick={() => removeSlab(i)} className="text-red-300 hover:text-red-600" title="حذف الشريحة"><Trash2 size={14} /></button>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          {!isCompatible && (
+            <div className="bg-red-50 border border-red-200 rounded p-2 text-sm text-red-700">
+              وحدة التعرفة ({UNITS[tariff.unit!].label}) لا تناسب وحدة البند ({UNITS[row.unit!].label}). اختر وحدة تسعير أخرى أو قالباً يناسب البند.
+            </div>
+          )}
+
+          <div className="flex items-center gap-2 bg-blue-50 border border-blue-100 rounded p-2 text-sm text-blue-900">
+            <span>تجربة: استهلاك</span>
+            <input type="number" min="0" value={sampleQuantity} onChange={e => setSampleQuantity(parseFloat(e.target.value) || 0)} className="w-28 border border-blue-200 rounded px-2 py-0.5 text-sm" />
+            <span>{unitLabel} = <span className="font-bold">{formatNumber(calculateTariffCost(sampleQuantity, tariff))}</span> درهم</span>
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between px-4 py-3 border-t border-gray-200 bg-gray-50">
+          {row.tariff ? (
+            <button onClick={handleRemove} className="text-sm text-red-600 hover:text-red-800 underline">إزالة التعرفة</button>
+          ) : <span />}
+          <div className="flex gap-2">
+            <button onClick={onClose} className="px-4 py-2 rounded text-sm border border-gray-300 hover:bg-gray-100">إلغاء</button>
+            <button onClick={handleSave} disabled={!isValid} className="px-4 py-2 rounded text-sm font-bold bg-[#091526] hover:bg-blue-800 text-white disabled:opacity-40">حفظ</button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TariffEditor;
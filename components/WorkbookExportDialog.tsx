@@ -0,0 +1,126 @@
+import React, { useMemo, useState } from 'react';
+import { SiteData } from '../types.ts';
+import { X, FileSpreadsheet } from 'lucide-react';
+import { writeFile } from 'xlsx';
+import { buildWorkbook } from '../utils/workbook.ts';
+import { PERIODS, PeriodKey } from '../utils/periods.ts';
+
+interface WorkbookExportDialogProps {
+  dataByYear: Record<number, SiteData[]>;
+  archivesByYear: Record<number, SiteData[]>;
+  periods: PeriodKey[]; // Aggregate columns shown in the table
+  onClose: () => void;
+}
+
+const WorkbookExportDialog: React.FC<WorkbookExportDialogProps> = ({ dataByYear, archivesByYear, periods, onClose }) => {
+  const years = useMemo(() => Object.keys(dataByYear).map(Number).sort((a, b) => b - a), [dataByYear]);
+
+  // Every site of the workspace, active or archived, with its latest name
+  const sites = useMemo(() => {
+    const byId = new Map<string, SiteData>();
+    [...years].reverse().forEach(year => {
+      [...(dataByYear[year] || []), ...(archivesByYear[year] || [])].forEach(site => byId.set(site.id, site));
+    });
+    return [...byId.values()];
+  }, [years, dataByYear, archivesByYear]);
+
+  const [selectedYears, setSelectedYears] = useState<number[]>(years);
+  const [selectedSiteIds, setSelectedSiteIds] = useState<string[]>(() => sites.map(s => s.id));
+  const [includeArchive, setIncludeArchive] = useState(true);
+  const [includeSummary, setIncludeSummary] = useState(true);
+
+  const toggle = <T,>(list: T[], item: T) => list.includes(item) ? list.filter(x => x !== item) : [...list, item];
+
+  const handleExport = () => {
+    try {
+      const wb = buildWorkbook(dataByYear, archivesByYear, { years: selectedYears, siteIds: selectedSiteIds, includeArchive, includeSummary, periods });
+      const sorted = [...selectedYears].sort((a, b) => a - b);
+      const range = sorted.length > 1 ? `${sorted[0]}-${sorted[sorted.length - 1]}` : `${sorted[0]}`;
+      writeFile(wb, `Saher_Consumption_${range}.xlsx`);
+      onClose();
+    } catch (e) {
+      console.error("Export Error:", e);
+      alert("حدث خطأ أثناء تصدير الملف.");
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-black/50 flex items-center justify-center p-4 print:hidden" onClick={onClose}>
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-2xl max-h-[85vh] flex flex-col overflow-hidden" onClick={e => e.stopPropagation()}>
+        <div className="bg-[#091526] text-white px-4 py-3 flex items-center justify-between border-b-4 border-yellow-500">
+          <div className="flex items-center gap-2">
+            <FileSpreadsheet size={18} className="text-yellow-400" />
+            <h3 className="font-bold">تصدير شامل لعدة سنوات</h3>
+          </div>
+          <button onClick={onClose} className="p-1 rounded hover:bg-blue-800 transition-colors" title="إغلاق"><X size={18} /></button>
+        </div>
+
+        <div className="p-4 space-y-4 text-sm text-slate-700 overflow-y-auto">
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <span className="font-bold">السنوات (ورقة لكل سنة)</span>
+              <button onClick={() => setSelectedYears(selectedYears.length === years.length ? [] : years)} className="text-xs text-blue-700 hover:underline">
+                {selectedYears.length === years.length ? 'إلغاء تحديد الكل' : 'تحديد الكل'}
+              </button>
+            </div>
+            {years.length === 0 ? (
+              <p className="text-xs text-gray-500">لا توجد سنوات بها بيانات.</p>
+            ) : (
+              <div className="flex flex-wrap gap-2">
+                {years.map(year => (
+                  <label key={year} className={`flex items-center gap-1.5 px-2 py-1 rounded border cursor-pointer font-mono ${selectedYears.includes(year) ? 'border-blue-400 bg-blue-50' : 'border-gray-200'}`}>
+                    <input type="checkbox" checked={selectedYears.includes(year)} onChange={() => setSelectedYears(toggle(selectedYears, year))} />
+                    {year}
+                  </label>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <span className="font-bold">المواقع</span>
+              <button onClick={() => setSelectedSiteIds(selectedSiteIds.length === sites.length ? [] : sites.map(s => s.id))} className="text-xs text-blue-700 hover:underline">
+                {selectedSiteIds.length === sites.length ? 'إلغاء تحديد الكل' : 'تحديد الكل'}
+              </button>
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-1 max-h-56 overflow-y-auto border border-gray-200 rounded p-2">
+              {sites.map(site => (
+                <label key={site.id} className="flex items-center gap-2 px-1 py-0.5 rounded hover:bg-gray-50 cursor-pointer">
+                  <input type="checkbox" checked={selectedSiteIds.includes(site.id)} onChange={() => setSelectedSiteIds(toggle(selectedSiteIds, site.id))} />
+                  <span className="truncate">{site.name}</span>
+                  {site.meterNumber && <span className="text-xs text-gray-400 font-mono mr-auto">{site.meterNumber}</span>}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-1">
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input type="checkbox" checked={includeArchive} onChange={e => setIncludeArchive(e.target.checked)} />
+              <span>ورقة الأرشيف (المواقع المؤرشفة في السنوات المحددة)</span>
+            </label>
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input type="checkbox" checked={includeSummary} onChange={e => setIncludeSummary(e.target.checked)} />
+              <span>ورقة الملخص (الإجماليات السنوية لكل موقع عبر السنوات)</span>
+            </label>
+          </div>
+
+          {periods.length > 0 && (
+            <p className="text-xs text-gray-500">أعمدة الفترات المعروضة في الجدول ({PERIODS.filter(p => periods.includes(p.key)).map(p => p.label).join('، ')}) تضاف كأعمدة أخيرة في أوراق السنوات.</p>
+          )}
+          <p className="text-xs text-gray-500">الإجماليات في الملف معادلات Excel، وتتحدث تلقائياً عند تعديل القيم داخل الملف.</p>
+        </div>
+
+        <div className="flex items-center justify-end gap-2 px-4 py-3 border-t border-gray-200 bg-gray-50">
+          <button onClick={onClose} className="px-4 py-2 rounded text-sm border border-gray-300 hover:bg-gray-100">إلغاء</button>
+          <button onClick={handleExport} disabled={selectedYears.length === 0 || selectedSiteIds.length === 0} className="px-4 py-2 rounded text-sm font-bold text-white bg-[#091526] hover:bg-blue-800 disabled:opacity-40">
+            تصدير
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default WorkbookExportDialog;
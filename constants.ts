@@ -1,4 +1,4 @@
-import { SiteData, RowType, MonthKey, MONTHS } from './types.ts';
+import { SiteData, RowType, MonthKey, MONTHS, Tariff, UtilityKind } from './types.ts';
 
 const createEmptyValues = (): Record<MonthKey, number> => {
   const values: any = {};
@@ -11,38 +11,114 @@ export const INITIAL_SITES: SiteData[] = [
     id: 'site_1',
     name: 'فيلا 2 محمد بن زايد',
     meterNumber: '3934453626',
+    meters: [{ id: 's1_m1', number: '3934453626', utility: 'other' }],
     rows: [
-      { id: 's1_r1', label: 'الماء ( متر مكعب)', unit: '', type: RowType.INPUT, isCost: false, values: createEmptyValues(), attachments: [] },
-      { id: 's1_r2', label: 'قيمة الاستهلاك الماء', type: RowType.INPUT, isCost: true, values: createEmptyValues(), attachments: [] },
-      { id: 's1_r3', label: 'الكهرباء ( كيلو واط )', unit: '', type: RowType.INPUT, isCost: false, values: createEmptyValues(), attachments: [] },
-      { id: 's1_r4', label: 'قيمة الاستهلاك الكهرباء', type: RowType.INPUT, isCost: true, values: createEmptyValues(), attachments: [] },
-      { id: 's1_total', label: 'إجمالي قيمة الاستهلاك', type: RowType.CALCULATED_TOTAL, isCost: false, values: createEmptyValues(), attachments: [] },
+      { id: 's1_r1', label: 'الماء ( متر مكعب)', unit: 'm3', utility: 'water', measure: 'quantity', type: RowType.INPUT, meterId: 's1_m1', isCost: false, costRowId: 's1_r2', values: createEmptyValues(), attachments: [] },
+      { id: 's1_r2', label: 'قيمة الاستهلاك الماء', unit: 'aed', utility: 'water', measure: 'cost', type: RowType.INPUT, meterId: 's1_m1', isCost: true, values: createEmptyValues(), attachments: [] },
+      { id: 's1_r3', label: 'الكهرباء ( كيلو واط )', unit: 'kwh', utility: 'electricity', measure: 'quantity', type: RowType.INPUT, meterId: 's1_m1', isCost: false, costRowId: 's1_r4', values: createEmptyValues(), attachments: [] },
+      { id: 's1_r4', label: 'قيمة الاستهلاك الكهرباء', unit: 'aed', utility: 'electricity', measure: 'cost', type: RowType.INPUT, meterId: 's1_m1', isCost: true, values: createEmptyValues(), attachments: [] },
+      { id: 's1_total', label: 'إجمالي قيمة الاستهلاك', unit: 'aed', utility: 'other', measure: 'cost', type: RowType.CALCULATED_TOTAL, isCost: false, values: createEmptyValues(), attachments: [] },
     ]
   },
   {
     id: 'site_2',
     name: 'مقر ابن بطوطة',
     meterNumber: 't0012704',
+    meters: [{ id: 's2_m1', number: 't0012704', utility: 'other' }],
     rows: [
-      { id: 's2_r1', label: 'الماء ( متر مكعب)', unit: '', type: RowType.INPUT, isCost: false, values: createEmptyValues(), attachments: [] },
-      { id: 's2_r2', label: 'قيمة الاستهلاك الماء', type: RowType.INPUT, isCost: true, values: createEmptyValues(), attachments: [] },
-      { id: 's2_r3', label: 'الكهرباء ( كيلو واط )', unit: '', type: RowType.INPUT, isCost: false, values: createEmptyValues(), attachments: [] },
-      { id: 's2_r4', label: 'قيمة الاستهلاك الكهرباء', type: RowType.INPUT, isCost: true, values: createEmptyValues(), attachments: [] },
-      { id: 's2_total', label: 'إجمالي قيمة الاستهلاك', type: RowType.CALCULATED_TOTAL, isCost: false, values: createEmptyValues(), attachments: [] },
+      { id: 's2_r1', label: 'الماء ( متر مكعب)', unit: 'm3', utility: 'water', measure: 'quantity', type: RowType.INPUT, meterId: 's2_m1', isCost: false, costRowId: 's2_r2', values: createEmptyValues(), attachments: [] },
+      { id: 's2_r2', label: 'قيمة الاستهلاك الماء', unit: 'aed', utility: 'water', measure: 'cost', type: RowType.INPUT, meterId: 's2_m1', isCost: true, values: createEmptyValues(), attachments: [] },
+      { id: 's2_r3', label: 'الكهرباء ( كيلو واط )', unit: 'kwh', utility: 'electricity', measure: 'quantity', type: RowType.INPUT, meterId: 's2_m1', isCost: false, costRowId: 's2_r4', values: createEmptyValues(), attachments: [] },
+      { id: 's2_r4', label: 'قيمة الاستهلاك الكهرباء', unit: 'aed', utility: 'electricity', measure: 'cost', type: RowType.INPUT, meterId: 's2_m1', isCost: true, values: createEmptyValues(), attachments: [] },
+      { id: 's2_total', label: 'إجمالي قيمة الاستهلاك', unit: 'aed', utility: 'other', measure: 'cost', type: RowType.CALCULATED_TOTAL, isCost: false, values: createEmptyValues(), attachments: [] },
     ]
   },
   {
     id: 'site_3',
     name: 'توجيه عجمان التلة',
     meterNumber: '221000514609',
+    meters: [{ id: 's3_m1', number: '221000514609', utility: 'other' }],
     rows: [
-      { id: 's3_r1', label: 'الماء ( جالون)', unit: '', type: RowType.INPUT, isCost: false, values: createEmptyValues(), attachments: [] },
-      { id: 's3_r2', label: 'قيمة الاستهلاك الماء', type: RowType.INPUT, isCost: true, values: createEmptyValues(), attachments: [] },
-      { id: 's3_r3', label: 'الكهرباء ( كيلو واط )', unit: '', type: RowType.INPUT, isCost: false, values: createEmptyValues(), attachments: [] },
-      { id: 's3_r4', label: 'قيمة الاستهلاك الكهرباء', type: RowType.INPUT, isCost: true, values: createEmptyValues(), attachments: [] },
-      { id: 's3_r5', label: 'استهلاك التكييف BTU', type: RowType.INPUT, isCost: false, values: createEmptyValues(), attachments: [] },
-      { id: 's3_r6', label: 'قيمة استهلاك التكييف', type: RowType.INPUT, isCost: true, values: createEmptyValues(), attachments: [] },
-      { id: 's3_total', label: 'إجمالي قيمة الاستهلاك', type: RowType.CALCULATED_TOTAL, isCost: false, values: createEmptyValues(), attachments: [] },
+      { id: 's3_r1', label: 'الماء ( جالون)', unit: 'gallon', utility: 'water', measure: 'quantity', type: RowType.INPUT, meterId: 's3_m1', isCost: false, costRowId: 's3_r2', values: createEmptyValues(), attachments: [] },
+      { id: 's3_r2', label: 'قيمة الاستهلاك الماء', unit: 'aed', utility: 'water', measure: 'cost', type: RowType.INPUT, meterId: 's3_m1', isCost: true, values: createEmptyValues(), attachments: [] },
+      { id: 's3_r3', label: 'الكهرباء ( كيلو واط )', unit: 'kwh', utility: 'electricity', measure: 'quantity', type: RowType.INPUT, meterId: 's3_m1', isCost: false, costRowId: 's3_r4', values: createEmptyValues(), attachments: [] },
+      { id: 's3_r4', label: 'قيمة الاستهلاك الكهرباء', unit: 'aed', utility: 'electricity', measure: 'cost', type: RowType.INPUT, meterId: 's3_m1', isCost: true, values: createEmptyValues(), attachments: [] },
+      { id: 's3_r5', label: 'استهلاك التكييف BTU', unit: 'btu', utility: 'cooling', measure: 'quantity', type: RowType.INPUT, meterId: 's3_m1', isCost: false, costRowId: 's3_r6', values: createEmptyValues(), attachments: [] },
+      { id: 's3_r6', label: 'قيمة استهلاك التكييف', unit: 'aed', utility: 'cooling', measure: 'cost', type: RowType.INPUT, meterId: 's3_m1', isCost: true, values: createEmptyValues(), attachments: [] },
+      { id: 's3_total', label: 'إجمالي قيمة الاستهلاك', unit: 'aed', utility: 'other', measure: 'cost', type: RowType.CALCULATED_TOTAL, isCost: false, values: createEmptyValues(), attachments: [] },
     ]
   }
-];
\ No newline at end of file
+];
+
+// Year selector range in the Header.
+// Years that already hold records are always listed, whatever this range is.
+export const YEAR_RANGE = {
+  PAST_YEARS: 5, // How many years before the current one are offered
+  END_YEAR: 2099
+};
+
+// Starting points for the tariff editor, from DEWA's published slab tariff (dewa.gov.ae, "Slab tariff").
+// Rates change; check them against the provider's current tariff before relying on them.
+export const TARIFF_PRESETS: Tariff[] = [
+  {
+    // Commercial: 23 fils/kWh up to 10,000 kWh a month, 38 fils above, plus 6.5 fils/kWh fuel surcharge
+    id: 'dewa_electricity_commercial',
+    provider: 'DEWA',
+    name: 'كهرباء - تجاري',
+    slabs: [
+      { upTo: 10000, rate: 0.23 },
+      { upTo: null, rate: 0.38 }
+    ],
+    fixedFee: 0,
+    fuelSurcharge: 0.065,
+    unit: 'kwh'
+  },
+  {
+    // Residential: 23 / 28 / 32 / 38 fils/kWh in 2,000 kWh steps, plus 6.5 fils/kWh fuel surcharge
+    id: 'dewa_electricity_residential',
+    provider: 'DEWA',
+    name: 'كهرباء - سكني',
+    slabs: [
+      { upTo: 2000, rate: 0.23 },
+      { upTo: 4000, rate: 0.28 },
+      { upTo: 6000, rate: 0.32 },
+      { upTo: null, rate: 0.38 }
+    ],
+    fixedFee: 0,
+    fuelSurcharge: 0.065,
+    unit: 'kwh'
+  },
+  {
+    // Residential: 3.57 / 5.24 / 10.52 fils per gallon in 6,000 gallon steps, plus 1.5 fils/gallon fuel surcharge
+    id: 'dewa_water_residential',
+    provider: 'DEWA',
+    name: 'مياه - سكني (جالون)',
+    slabs: [
+      { upTo: 6000, rate: 0.0357 },
+      { upTo: 12000, rate: 0.0524 },
+      { upTo: null, rate: 0.1052 }
+    ],
+    fixedFee: 0,
+    fuelSurcharge: 0.015,
+    unit: 'gallon'
+  },
+  {
+    id: 'flat_rate',
+    provider: '',
+    name: 'سعر ثابت',
+    slabs: [{ upTo: null, rate: 0 }],
+    fixedFee: 0,
+    fuelSurcharge: 0
+  }
+];
+
+// Chart palettes
+export const SITE_COLORS = ['#2563eb', '#eab308', '#16a34a', '#dc2626', '#9333ea', '#0891b2', '#ea580c', '#db2777', '#4b5563', '#65a30d'];
+
+export const UTILITY_COLORS: Record<UtilityKind, string> = {
+  water: '#0ea5e9',
+  electricity: '#eab308',
+  cooling: '#6366f1',
+  gas: '#f97316',
+  other: '#94a3b8'
+};
@@ -16,34 +16,141 @@ export const MONTHS: { key: MonthKey; label: string }[] = [
   { key: 'dec', label: 'ديسمبر' },
 ];
 
+export type UnitKey = 'm3' | 'gallon' | 'kwh' | 'btu' | 'ton_hour' | 'aed';
+
+// What a unit measures. Units of the same dimension can be converted into each other.
+export type UnitDimension = 'volume' | 'energy' | 'cooling' | 'currency';
+
+export type UtilityKind = 'water' | 'electricity' | 'cooling' | 'gas' | 'other';
+
+// A row either records how much was consumed, or what it cost (AED)
+export type MeasureKind = 'quantity' | 'cost';
+
 export enum RowType {
   INPUT = 'INPUT',
   CALCULATED_TOTAL = 'CALCULATED_TOTAL' // For the "Total Value" row which sums costs
 }
 
 export interface Attachment {
-  id: string;
+  id: string; // Also the key of the file content in the IndexedDB attachment store
   name: string;
   type: string; // MIME type
-  data: string; // Base64 string for local storage/preview
+  size?: number; // Bytes
+  month?: MonthKey; // The month whose bill this file is
+  data?: string; // Legacy base64 content, moved to IndexedDB on load
+}
+
+// A consumption band: units up to `upTo` (cumulative, per month) are charged at `rate`.
+// The last slab usually has `upTo: null`, meaning "everything above".
+export interface TariffSlab {
+  upTo: number | null;
+  rate: number; // AED per unit
+}
+
+export interface Tariff {
+  id: string;
+  provider: string;
+  name: string;
+  slabs: TariffSlab[];
+  fixedFee: number; // AED per month (meter / service charges)
+  fuelSurcharge: number; // AED per unit, on top of the slab rate
+  unit?: UnitKey; // The unit slab bounds and rates are in; without one, the row's own unit is assumed
+}
+
+// Cumulative register readings of one month, on a quantity row in reading mode
+export interface MeterReading {
+  opening?: number; // Left out to continue from the previous closing reading
+  closing?: number;
+  rollover?: boolean; // The register passed its maximum during the month and restarted from zero
+  replacement?: { oldClosing: number; newOpening: number }; // The meter was replaced during the month
 }
 
 export interface ConsumptionRow {
   id: string;
   label: string;
   type: RowType;
-  unit?: string;
-  isCost: boolean; // If true, this row contributes to the 'Total Value' sum
+  unit?: UnitKey;
+  utility: UtilityKind;
+  measure: MeasureKind;
+  isCost: boolean; // If true, this row contributes to the 'Total Value' sum. Kept equal to `measure === 'cost'` on input rows
   values: Record<MonthKey, number>;
-  attachments?: Attachment[];
+  attachments?: Attachment[]; // Any number of files, tagged per month
+  costRowId?: string; // On a quantity row: the cost row it is paired with
+  tariff?: Tariff; // On a quantity row: computes the paired cost row
+  manualOverrides?: Partial<Record<MonthKey, number>>; // On a calculated cost row: months typed in by hand
+  meterId?: string; // On an input row: the site meter it is read from or billed on
+  readings?: Partial<Record<MonthKey, MeterReading>>; // Reading mode (quantity rows): monthly values are derived from these, see utils/readings.ts
+}
+
+// Budget of one utility for one year (AED). Months without an explicit budget share
+// what is left of the annual budget evenly.
+export interface UtilityBudget {
+  annual: number;
+  monthly?: Partial<Record<MonthKey, number>>;
+}
+
+// A physical meter of a site. Kept the same in every year, like the site details
+export interface Meter {
+  id: string;
+  number: string;
+  utility: UtilityKind; // 'other' for a meter shared by several utilities
+  provider?: string;
+  rolloverDigits?: number; // Digits of the register: a 5-digit register restarts from 0 after 99999. Needed to count a rollover
 }
 
 export interface SiteData {
   id: string;
   name: string;
-  meterNumber: string;
+  meterNumber: string; // All meter numbers joined (see utils/meters.ts)
+  meters?: Meter[];
   rows: ConsumptionRow[];
   startYear?: number; // The year this site was added to the system
+  budgets?: Partial<Record<UtilityKind, UtilityBudget>>; // Stored per year, like the rows
+  // Descriptive details, edited in the site settings panel and kept the same in every year
+  emirate?: string;
+  address?: string;
+  provider?: string; // Utility provider the site is billed by
+  accountNumber?: string; // Customer account number with the provider
+  premisesNumber?: string;
+  landlord?: string;
+  contactName?: string; // Facility contact
+  contactPhone?: string;
+  contactEmail?: string;
+}
+
+export type AuditAction =
+  | 'value'
+  | 'row_label'
+  | 'row_add'
+  | 'row_delete'
+  | 'site_add'
+  | 'site_metadata'
+  | 'attachment_add'
+  | 'attachment_update'
+  | 'attachment_delete'
+  | 'site_archive'
+  | 'site_restore'
+  | 'site_delete'
+  | 'undo'
+  | 'redo'
+  | 'backup_restore'
+  | 'import';
+
+// One change to the workspace, kept for the auditors
+export interface AuditEntry {
+  id: string;
+  timestamp: string; // ISO date
+  user: string;
+  year: number; // The year the change applies to
+  action: AuditAction;
+  siteId?: string;
+  siteName?: string;
+  rowId?: string;
+  rowLabel?: string;
+  month?: MonthKey;
+  field?: string; // The site field for 'site_metadata' (name, meterNumber, ...)
+  oldValue?: string | number | null;
+  newValue?: string | number | null;
 }
 
 export interface YearData {
@@ -0,0 +1,110 @@
+import { MeasureKind, MONTHS, RowType, SiteData, UnitKey, UtilityKind } from '../types.ts';
+import { safeFloat, calculateHorizontalTotal, calculateGrandTotals } from './calculations.ts';
+import { convertToCanonical, UNITS } from './units.ts';
+import { UTILITIES } from './classification.ts';
+
+// One point per month, with one numeric key per series (site id or utility)
+export type MonthlySeriesPoint = { month: string } & Record<string, number | string>;
+
+// Value of a site for one utility and month: cost in AED, or quantity in the utility's canonical unit.
+// Not rounded, so callers that add several of these round only the final sum.
+const siteMonthValue = (site: SiteData, utility: UtilityKind, measure: MeasureKind, monthIndex: number): number => {
+  const monthKey = MONTHS[monthIndex].key;
+  const canonicalUnit = UTILITIES[utility].defaultUnit;
+
+  return site.rows.reduce((sum, row) => {
+    if (row.type !== RowType.INPUT || row.utility !== utility || row.measure !== measure) return sum;
+    if (measure === 'cost') return sum + row.values[monthKey];
+    // Quantities are only summed when they can be converted to the canonical unit
+    if (!row.unit || !canonicalUnit || UNITS[row.unit].dimension !== UNITS[canonicalUnit].dimension) return sum;
+    return sum + convertToCanonical(row.values[monthKey], row.unit);
+  }, 0);
+};
+
+// Monthly trend of one utility, one series per site
+export const buildSiteTrend = (sites: SiteData[], utility: UtilityKind, measure: MeasureKind): MonthlySeriesPoint[] => {
+  return MONTHS.map((month, monthIndex) => {
+    const point: MonthlySeriesPoint = { month: month.label };
+    sites.forEach(site => {
+      point[site.id] = safeFloat(siteMonthValue(site, utility, measure, monthIndex));
+    });
+    return point;
+  });
+};
+
+// Monthly organisation-wide cost, one series per utility (for stacked bars)
+export const buildCostByUtility = (sites: SiteData[]): MonthlySeriesPoint[] => {
+  return MONTHS.map((month, monthIndex) => {
+    const point: MonthlySeriesPoint = { month: month.label };
+    (Object.keys(UTILITIES) as UtilityKind[]).forEach(utility => {
+      point[utility] = safeFloat(sites.reduce((sum, site) => sum + siteMonthValue(site, utility, 'cost', monthIndex), 0));
+    });
+    return point;
+  });
+};
+
+// Utilities that have at least one non-zero cost in the given series
+export const activeUtilities = (series: MonthlySeriesPoint[]): UtilityKind[] => {
+  return (Object.keys(UTILITIES) as UtilityKind[]).filter(utility => series.some(point => Number(point[utility]) !== 0));
+};
+
+export interface SiteShare {
+  siteId: string;
+  name: string;
+  value: number;
+  percent: number;
+}
+
+// Each site's share of the annual spend
+export const buildSiteCostShare = (sites: SiteData[]): SiteShare[] => {
+  const perSite = sites.map(site => ({
+    siteId: site.id,
+    name: site.name,
+    value: calculateHorizontalTotal(calculateGrandTotals([site]))
+  }));
+  const total = perSite.reduce((sum, s) => sum + s.value, 0);
+
+  return perSite
+    .map(s => ({ ...s, percent: total === 0 ? 0 : safeFloat((s.value / total) * 100) }))
+    .sort((a, b) => b.value - a.value);
+};
+
+export interface SiteYear {
+  year: number;
+  site: SiteData;
+  archived: boolean;
+  cost: number; // Annual cost in AED
+}
+
+// One site in every year it appears in, active or archived, oldest first
+export const buildSiteYears = (siteId: string, dataByYear: Record<number, SiteData[]>, archivesByYear: Record<number, SiteData[]>): SiteYear[] => {
+  const years = new Set<number>([...Object.keys(dataByYear), ...Object.keys(archivesByYear)].map(Number));
+  const siteYears: SiteYear[] = [];
+  [...years].sort((a, b) => a - b).forEach(year => {
+    const active = dataByYear[year]?.find(s => s.id === siteId);
+    const site = active || archivesByYear[year]?.find(s => s.id === siteId);
+    if (!site) return;
+    siteYears.push({ year, site, archived: !active, cost: calculateHorizontalTotal(calculateGrandTotals([site])) });
+  });
+  return siteYears;
+};
+
+export interface RowHistory {
+  rowId: string;
+  label: string; // As of the latest year the row appears in
+  type: RowType;
+  unit?: UnitKey;
+  totals: Record<number, number>; // Annual total per year
+}
+
+// Annual totals of every row of a site across the years. Rows are matched by id, so renamed rows stay together.
+export const buildRowHistory = (siteYears: SiteYear[]): RowHistory[] => {
+  const byId = new Map<string, RowHistory>();
+  siteYears.forEach(({ year, site }) => {
+    site.rows.forEach(row => {
+      const history = byId.get(row.id) || { rowId: row.id, label: row.label, type: row.type, totals: {} };
+      byId.set(row.id, { ...history, label: row.label, unit: row.unit, totals: { ...history.totals, [year]: calculateHorizontalTotal(row.values) } });
+    });
+  });
+  return [...byId.values()];
+};
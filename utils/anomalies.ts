@@ -0,0 +1,117 @@
+import { MONTHS, MonthKey, RowType, SiteData } from '../types.ts';
+import { safeFloat, formatNumber } from './calculations.ts';
+
+export type AnomalyKind = 'rolling_average' | 'year_over_year' | 'zero_reading';
+
+export interface Anomaly {
+  siteId: string;
+  siteName: string;
+  rowId: string;
+  rowLabel: string;
+  month: MonthKey;
+  kind: AnomalyKind;
+  value: number;
+  reference: number; // The value it was compared with (average, last year's value, or the previous reading)
+  deviationPercent: number | null;
+  message: string;
+}
+
+export const ANOMALY_SETTINGS = {
+  ROLLING_WINDOW: 3, // Number of previous non-zero months averaged
+  ROLLING_DEVIATION_PERCENT: 50,
+  YEAR_OVER_YEAR_DEVIATION_PERCENT: 50
+};
+
+export const ANOMALY_KIND_LABELS: Record<AnomalyKind, string> = {
+  rolling_average: 'مقارنة بالمتوسط',
+  year_over_year: 'مقارنة بالسنة السابقة',
+  zero_reading: 'قراءة صفرية'
+};
+
+export const anomalyKey = (siteId: string, rowId: string, month: MonthKey) => `${siteId}|${rowId}|${month}`;
+
+const deviation = (value: number, reference: number) => safeFloat(((value - reference) / reference) * 100);
+
+/**
+ * Flags abnormal monthly values of every input row:
+ * - a value far from the average of the previous months (the previous year's months are used at the start of the year)
+ * - a value far from the same month of the previous year
+ * - a zero reading after months that had consumption
+ *
+ * `lastExpectedMonthIndex` is the last month that should already have a bill. Zero readings after it
+ * are treated as "not entered yet" and are not flagged.
+ */
+export const detectAnomalies = (sites: SiteData[], previousYearSites: SiteData[] | undefined, lastExpectedMonthIndex: number): Anomaly[] => {
+  const anomalies: Anomaly[] = [];
+
+  sites.forEach(site => {
+    const previousSite = previousYearSites?.find(s => s.id === site.id);
+
+    site.rows.forEach(row => {
+      if (row.type !== RowType.INPUT) return;
+      const previousRow = previousSite?.rows.find(r => r.id === row.id);
+
+      // Continuous series: previous year's months followed by this year's months
+      const history = previousRow ? MONTHS.map(m => previousRow.values[m.key]) : [];
+      const series = [...history, ...MONTHS.map(m => row.values[m.key])];
+
+      MONTHS.forEach((month, monthIndex) => {
+        const value = row.values[month.key];
+        const seriesIndex = history.length + monthIndex;
+        const base = { siteId: site.id, siteName: site.name, rowId: row.id, rowLabel: row.label, month: month.key, value };
+
+        if (value === 0) {
+          const previousNonZero = series.slice(0, seriesIndex).reverse().find(v => v !== 0);
+          if (monthIndex <= lastExpectedMonthIndex && previousNonZero !== undefined) {
+            anomalies.push({
+              ...base,
+              kind: 'zero_reading',
+              reference: previousNonZero,
+              deviationPercent: -100,
+              message: `قراءة صفرية في ${month.label} بعد استهلاك سابق (${formatNumber(previousNonZero)})`
+            });
+          }
+          return;
+        }
+
+        const recentValues = series.slice(0, seriesIndex).filter(v => v !== 0).slice(-ANOMALY_SETTINGS.ROLLING_WINDOW);
+        if (recentValues.length === ANOMALY_SETTINGS.ROLLING_WINDOW) {
+          const average = safeFloat(recentValues.reduce((sum, v) => sum + v, 0) / recentValues.length);
+          const change = deviation(value, average);
+          if (Math.abs(change) >= ANOMALY_SETTINGS.ROLLING_DEVIATION_PERCENT) {
+            anomalies.push({
+              ...base,
+              kind: 'rolling_average',
+              reference: average,
+              deviationPercent: change,
+              message: `${change > 0 ? 'ارتفاع' : 'انخفاض'} بنسبة ${formatNumber(Math.abs(change))}% عن متوسط آخر ${recentValues.length} أشهر (${formatNumber(average)})`
+            });
+          }
+        }
+
+        const lastYearValue = previousRow?.values[month.key];
+        if (lastYearValue) {
+          const change = deviation(value, lastYearValue);
+          if (Math.abs(change) >= ANOMALY_SETTINGS.YEAR_OVER_YEAR_DEVIATION_PERCENT) {
+            anomalies.push({
+              ...base,
+              kind: 'year_over_year',
+              reference: lastYearValue,
+              deviationPercent: change,
+              message: `${change > 0 ? 'ارتفاع' : 'انخفاض'} بنسبة ${formatNumber(Math.abs(change))}% عن ${month.label} من السنة السابقة (${formatNumber(lastYearValue)})`
+            });
+          }
+        }
+      });
+    });
+  });
+
+  return anomalies;
+};
+
+// Last month that should have a bill in the given year: December for past years, last month for the current year
+export const lastExpectedMonthIndex = (year: number, today: Date = new Date()): number => {
+  if (year < today.getFullYear()) return MONTHS.length - 1;
+  if (year > today.getFullYear()) return -1;
+  return today.getMonth() - 1;
+};
@@ -0,0 +1,148 @@
+import { Attachment, SiteData } from '../types.ts';
+
+// Attachments are kept as binary blobs in IndexedDB, keyed by `Attachment.id`.
+// Only the metadata (name, type, size) is persisted with the dashboard data in localStorage.
+const DB_NAME = 'saher_dashboard_files';
+const DB_VERSION = 1;
+const STORE_NAME = 'attachments';
+
+export const MAX_ATTACHMENT_SIZE_MB = 50;
+
+export const formatFileSize = (bytes?: number) => {
+  if (bytes === undefined) return '';
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+          request.result.createObjectStore(STORE_NAME);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const runTransaction = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE_NAME, mode);
+    const request = action(tx.objectStore(STORE_NAME));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+export const saveAttachmentBlob = async (id: string, blob: Blob): Promise<void> => {
+  await runTransaction('readwrite', store => store.put(blob, id));
+};
+
+export const deleteAttachmentBlob = async (id: string): Promise<void> => {
+  await runTransaction('readwrite', store => store.delete(id));
+};
+
+export const dataUrlToBlob = (dataUrl: string): Blob => {
+  const [header, base64] = dataUrl.split(',');
+  const mime = header.match(/data:(.*?)(;base64)?$/)?.[1] || 'application/octet-stream';
+  const binary = atob(base64 || '');
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return new Blob([bytes], { type: mime });
+};
+
+export const blobToDataUrl = (blob: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+};
+
+// Loads the file content on demand. Falls back to legacy base64 data that has not been migrated yet.
+export const loadAttachmentBlob = async (attachment: Attachment): Promise<Blob | undefined> => {
+  const blob = await runTransaction<Blob | undefined>('readonly', store => store.get(attachment.id));
+  if (blob) return blob;
+  return attachment.data ? dataUrlToBlob(attachment.data) : undefined;
+};
+
+/**
+ * Deletes stored files that no attachment refers to any more. Removing an attachment only drops its
+ * metadata, so the removal can be undone; the file itself is cleaned up here on the next start.
+ */
+export const pruneOrphanAttachmentBlobs = async (referencedIds: Set<string>): Promise<number> => {
+  const keys = await runTransaction<IDBValidKey[]>('readonly', store => store.getAllKeys());
+  const orphans = keys.filter(key => typeof key === 'string' && !referencedIds.has(key)) as string[];
+  for (const id of orphans) {
+    await deleteAttachmentBlob(id);
+  }
+  return orphans.length;
+};
+
+export const forEachAttachment = (sites: SiteData[], callback: (attachment: Attachment) => void) => {
+  sites.forEach(site => site.rows.forEach(row => row.attachments?.forEach(callback)));
+};
+
+// --- Migration of legacy base64 attachments ---
+
+export interface LegacyMigrationResult {
+  migrated: Map<string, number>; // Ids (and byte sizes) stored in IndexedDB
+  failed: string[]; // Ids that could not be stored; they keep their base64 data
+}
+
+/**
+ * Moves every base64 attachment found in the given site lists into IndexedDB.
+ * Resolves with the ids that were stored, so the caller can strip their `data` with
+ * `stripMigratedAttachmentData`, and the ids that failed, which are retried on the next start.
+ */
+export const migrateLegacyAttachments = async (siteLists: SiteData[][]): Promise<LegacyMigrationResult> => {
+  const pending = new Map<string, string>();
+  siteLists.forEach(sites => forEachAttachment(sites, attachment => {
+    if (attachment.data) pending.set(attachment.id, attachment.data);
+  }));
+
+  const migrated = new Map<string, number>();
+  const failed: string[] = [];
+  for (const [id, dataUrl] of pending) {
+    try {
+      const blob = dataUrlToBlob(dataUrl);
+      await saveAttachmentBlob(id, blob);
+      migrated.set(id, blob.size);
+    } catch (e) {
+      console.warn(`Failed to migrate attachment ${id}`, e);
+      failed.push(id);
+    }
+  }
+  return { migrated, failed };
+};
+
+export const stripMigratedAttachmentData = (sites: SiteData[], migrated: Map<string, number>): SiteData[] => {
+  return sites.map(site => ({
+    ...site,
+    rows: site.rows.map(row => {
+      if (!row.attachments?.some(a => a.data && migrated.has(a.id))) return row;
+      return {
+        ...row,
+        attachments: row.attachments.map(a => {
+          if (!a.data || !migrated.has(a.id)) return a;
+          const { data: _legacyData, ...rest } = a;
+          return { ...rest, size: migrated.get(a.id) };
+        })
+      };
+    })
+  }));
+};
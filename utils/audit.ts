@@ -0,0 +1,97 @@
+import { AuditAction, AuditEntry, MONTHS } from '../types.ts';
+import { STORAGE_KEYS } from './storage.ts';
+import { isPlainObject } from './validation.ts';
+import { SITE_DETAIL_FIELDS } from './siteDetails.ts';
+
+// An entry before the log adds who made it, when, and for which year
+export type AuditDraft = Omit<AuditEntry, 'id' | 'timestamp' | 'user' | 'year'>;
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  value: 'تعديل قيمة',
+  row_label: 'تعديل مسمى بند',
+  row_add: 'إضافة بند',
+  row_delete: 'حذف بند',
+  site_add: 'إضافة موقع',
+  site_metadata: 'تعديل بيانات موقع',
+  attachment_add: 'إضافة مرفق',
+  attachment_update: 'تعديل مرفق',
+  attachment_delete: 'حذف مرفق',
+  site_archive: 'أرشفة موقع',
+  site_restore: 'استعادة موقع',
+  site_delete: 'حذف نهائي لموقع',
+  undo: 'تراجع',
+  redo: 'إعادة',
+  backup_restore: 'استعادة نسخة احتياطية',
+  import: 'استيراد من ملف' // Excel or CSV; the file name is the new value
+};
+
+export const AUDIT_FIELD_LABELS: Record<string, string> = {
+  name: 'اسم الموقع',
+  meterNumber: 'رقم العداد',
+  meters: 'العدادات',
+  ...Object.fromEntries(SITE_DETAIL_FIELDS.map(f => [f.key, f.label])),
+  attachmentName: 'اسم المرفق',
+  attachmentMonth: 'شهر المرفق'
+};
+
+export const UNKNOWN_USER = 'غير معروف';
+
+// Consecutive edits of the same cell or text by the same user are kept as one entry (typing "120" is one change)
+const AUDIT_COALESCE_MS = 60 * 1000;
+const COALESCED_ACTIONS: AuditAction[] = ['value', 'row_label', 'site_metadata'];
+
+const isSameTarget = (a: AuditEntry, b: AuditEntry) =>
+  a.action === b.action && a.user === b.user && a.year === b.year && a.siteId === b.siteId &&
+  a.rowId === b.rowId && a.month === b.month && a.field === b.field;
+
+export const appendAuditEntries = (log: AuditEntry[], drafts: AuditDraft[], context: { user: string; year: number }): AuditEntry[] => {
+  let next = log;
+  const now = new Date();
+
+  drafts.forEach((draft, i) => {
+    const entry: AuditEntry = {
+      id: `audit_${now.getTime()}_${i}_${Math.random().toString(36).slice(2, 7)}`,
+      timestamp: now.toISOString(),
+      user: context.user || UNKNOWN_USER,
+      year: context.year,
+      ...draft
+    };
+
+    const last = next[next.length - 1];
+    if (last && COALESCED_ACTIONS.includes(entry.action) && isSameTarget(last, entry) && now.getTime() - new Date(last.timestamp).getTime() < AUDIT_COALESCE_MS) {
+      const merged = { ...last, timestamp: entry.timestamp, newValue: entry.newValue, rowLabel: entry.rowLabel, siteName: entry.siteName };
+      // Typing a value and then clearing it again leaves nothing to report
+      next = merged.oldValue === merged.newValue ? next.slice(0, -1) : [...next.slice(0, -1), merged];
+      return;
+    }
+    if (entry.oldValue !== undefined && entry.oldValue === entry.newValue) return;
+    next = [...next, entry];
+  });
+
+  return next;
+};
+
+// Entries kept in localStorage. Past the limit the oldest are moved to the IndexedDB archive (auditArchive.ts),
+// down to AUDIT_LOG_KEEP, so archiving happens in batches rather than on every change
+const AUDIT_LOG_LIMIT = 2000;
+const AUDIT_LOG_KEEP = 1500;
+
+export const oldestAuditEntries = (log: AuditEntry[]): AuditEntry[] =>
+  log.length > AUDIT_LOG_LIMIT ? log.slice(0, log.length - AUDIT_LOG_KEEP) : [];
+
+export const loadAuditLog = (): AuditEntry[] => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEYS.AUDIT);
+    const parsed = saved ? JSON.parse(saved) : [];
+    // Saved in the same envelope as the workspace keys
+    const entries = isPlainObject(parsed) ? parsed.data : parsed;
+    return Array.isArray(entries) ? entries.filter(e => isPlainObject(e) && typeof e.action === 'string' && typeof e.timestamp === 'string') : [];
+  } catch (e) {
+    console.warn("Error reading audit log from storage", e);
+    return [];
+  }
+};
+
+export const formatAuditMonth = (month?: string) => MONTHS.find(m => m.key === month)?.label || '';
+
+export const formatAuditValue = (value: AuditEntry['oldValue']) => value === undefined || value === null ? '' : String(value);
@@ -0,0 +1,56 @@
+import { AuditEntry } from '../types.ts';
+
+// Older audit entries are moved out of localStorage into IndexedDB, so the log cannot fill the storage quota
+// the workspace needs. The recent part stays in localStorage (see AUDIT_LOG_LIMIT in audit.ts).
+const DB_NAME = 'saher_dashboard_audit';
+const DB_VERSION = 1;
+const STORE_NAME = 'entries';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+          request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const runTransaction = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T> | void): Promise<T | undefined> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE_NAME, mode);
+    const request = action(tx.objectStore(STORE_NAME));
+    tx.oncomplete = () => resolve(request ? request.result : undefined);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+// All entries are written in one transaction: either the whole batch is archived or none of it
+export const archiveAuditEntries = async (entries: AuditEntry[]): Promise<void> => {
+  await runTransaction('readwrite', store => {
+    entries.forEach(entry => store.put(entry));
+  });
+};
+
+export const countArchivedAuditEntries = async (): Promise<number> => {
+  return (await runTransaction<number>('readonly', store => store.count())) || 0;
+};
+
+// Oldest first, like the log kept in localStorage
+export const loadArchivedAuditEntries = async (): Promise<AuditEntry[]> => {
+  const entries = (await runTransaction<AuditEntry[]>('readonly', store => store.getAll())) || [];
+  return entries.sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+};
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { INITIAL_SITES, TARIFF_PRESETS } from '../constants.ts';
+import { SiteData } from '../types.ts';
+import { mergeSiteLists, mergeWorkspaces } from './backup.ts';
+
+const site = (): SiteData => JSON.parse(JSON.stringify(INITIAL_SITES[0]));
+
+describe('mergeSiteLists', () => {
+  it('fills readings, manual overrides, tariff and site details the current site lacks', () => {
+    const current = site();
+    current.address = 'شارع الشيخ زايد';
+    current.rows[0].readings = { jan: { opening: 100, closing: 150 } };
+
+    const backup = site();
+    backup.address = 'عنوان قديم';
+    backup.accountNumber = '2001234567';
+    backup.rows[0].readings = { jan: { opening: 90, closing: 140 }, feb: { closing: 180 } };
+    backup.rows[1].manualOverrides = { mar: 75 };
+    backup.rows[2].tariff = TARIFF_PRESETS[0];
+
+    const [merged] = mergeSiteLists([current], [backup]);
+
+    expect(merged.address).toBe('شارع الشيخ زايد');
+    expect(merged.accountNumber).toBe('2001234567');
+    expect(merged.rows[0].readings).toEqual({ jan: { opening: 100, closing: 150 }, feb: { closing: 180 } });
+    expect(merged.rows[1].manualOverrides).toEqual({ mar: 75 });
+    expect(merged.rows[2].tariff).toEqual(TARIFF_PRESETS[0]);
+    expect(merged.rows[2].costRowId).toBe(backup.rows[2].costRowId);
+  });
+
+  it('adds meters that only exist in the backup', () => {
+    const backup = site();
+    backup.meters = [...backup.meters!, { id: 's1_m2', number: '777', utility: 'water' }];
+
+    const [merged] = mergeSiteLists([site()], [backup]);
+
+    expect(merged.meters!.map(m => m.id)).toEqual(['s1_m1', 's1_m2']);
+    expect(merged.meterNumber).toContain('777');
+  });
+});
+
+describe('mergeWorkspaces', () => {
+  it('keeps a site archived in the workspace archived when the backup has it active', () => {
+    const archived = site();
+    const active = site();
+    active.rows[0].values.jan = 500;
+
+    const merged = mergeWorkspaces(
+      { templateSites: [], dataByYear: { 2024: [] }, archivesByYear: { 2024: [archived] } },
+      { templateSites: [], dataByYear: { 2024: [active] }, archivesByYear: {} }
+    );
+
+    expect(merged.dataByYear[2024]).toHaveLength(0);
+    expect(merged.archivesByYear[2024]).toHaveLength(1);
+    expect(merged.archivesByYear[2024][0].rows[0].values.jan).toBe(500);
+  });
+
+  it('keeps a site active in the workspace active when the backup has it archived', () => {
+    const merged = mergeWorkspaces(
+      { templateSites: [], dataByYear: { 2024: [site()] }, archivesByYear: {} },
+      { templateSites: [], dataByYear: { 2024: [] }, archivesByYear: { 2024: [site()] } }
+    );
+
+    expect(merged.dataByYear[2024]).toHaveLength(1);
+    expect(merged.archivesByYear[2024]).toBeUndefined();
+  });
+});
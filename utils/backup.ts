@@ -0,0 +1,268 @@
+import { Attachment, ConsumptionRow, MONTHS, MonthKey, SiteData } from '../types.ts';
+import { calculateSiteTotals } from './calculations.ts';
+import { migratePayload, STORAGE_SCHEMA_VERSION } from './storage.ts';
+import { isPlainObject } from './validation.ts';
+import { SITE_DETAIL_FIELDS } from './siteDetails.ts';
+import { joinMeterNumbers } from './meters.ts';
+import { blobToDataUrl, dataUrlToBlob, forEachAttachment, loadAttachmentBlob, saveAttachmentBlob } from './attachmentStore.ts';
+
+// Bump when the layout of the backup file changes, and teach `parseBackup` to read the older layout
+export const BACKUP_SCHEMA_VERSION = 1;
+const BACKUP_APP_ID = 'saher-dashboard';
+
+export interface Workspace {
+  templateSites: SiteData[];
+  dataByYear: Record<number, SiteData[]>;
+  archivesByYear: Record<number, SiteData[]>;
+}
+
+export interface WorkspaceBackup extends Workspace {
+  app: typeof BACKUP_APP_ID;
+  schemaVersion: number;
+  dataSchemaVersion: number; // Storage schema of the sites (see storage.ts); missing in early backups
+  exportedAt: string; // ISO date
+  attachmentFiles: Record<string, string>; // Attachment id -> data URL
+}
+
+export interface BackupSummary {
+  exportedAt: string;
+  schemaVersion: number;
+  years: number[];
+  siteCount: number; // Distinct site ids across the template, years and archives
+  archivedSiteCount: number;
+  attachmentCount: number;
+  missingAttachmentCount: number; // Attachments listed in the data whose file is not in the backup
+}
+
+const allSiteLists = (workspace: Workspace): SiteData[][] => [
+  workspace.templateSites,
+  ...Object.values(workspace.dataByYear),
+  ...Object.values(workspace.archivesByYear)
+];
+
+// --- Export ---
+
+export const createBackup = async (workspace: Workspace): Promise<WorkspaceBackup> => {
+  const attachments = new Map<string, Attachment>();
+  allSiteLists(workspace).forEach(sites => forEachAttachment(sites, attachment => attachments.set(attachment.id, attachment)));
+
+  const attachmentFiles: Record<string, string> = {};
+  for (const [id, attachment] of attachments) {
+    try {
+      const blob = await loadAttachmentBlob(attachment);
+      if (blob) attachmentFiles[id] = await blobToDataUrl(blob);
+    } catch (e) {
+      console.warn(`Failed to read attachment ${id} for backup`, e);
+    }
+  }
+
+  return {
+    app: BACKUP_APP_ID,
+    schemaVersion: BACKUP_SCHEMA_VERSION,
+    dataSchemaVersion: STORAGE_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    templateSites: workspace.templateSites,
+    dataByYear: workspace.dataByYear,
+    archivesByYear: workspace.archivesByYear,
+    attachmentFiles
+  };
+};
+
+// --- Validation ---
+
+/**
+ * Parses and validates a backup file. Throws an Error with a user-facing (Arabic) message
+ * when the file is not a backup of this application or is damaged.
+ */
+export const parseBackup = (text: string): WorkspaceBackup => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('الملف ليس بصيغة JSON صالحة.');
+  }
+
+  if (!isPlainObject(parsed) || parsed.app !== BACKUP_APP_ID) throw new Error('الملف ليس نسخة احتياطية من هذا النظام.');
+  if (typeof parsed.schemaVersion !== 'number') throw new Error('إصدار النسخة الاحتياطية غير معروف.');
+  if (parsed.schemaVersion > BACKUP_SCHEMA_VERSION) throw new Error(`النسخة الاحتياطية من إصدار أحدث (${parsed.schemaVersion}). يرجى تحديث النظام أولاً.`);
+
+  if (parsed.attachmentFiles !== undefined && !isPlainObject(parsed.attachmentFiles)) throw new Error('النسخة الاحتياطية تالفة: ملفات المرفقات غير صالحة');
+
+  // The workspace data goes through the same migrations and validation as the data in localStorage
+  const dataVersion = typeof parsed.dataSchemaVersion === 'number' ? parsed.dataSchemaVersion : 0;
+  let templateSites: SiteData[], dataByYear: Record<number, SiteData[]>, archivesByYear: Record<number, SiteData[]>;
+  try {
+    templateSites = migratePayload<SiteData[]>('sites', parsed.templateSites, dataVersion);
+    dataByYear = migratePayload<Record<number, SiteData[]>>('years', parsed.dataByYear, dataVersion);
+    archivesByYear = migratePayload<Record<number, SiteData[]>>('years', parsed.archivesByYear, dataVersion);
+  } catch (e) {
+    throw new Error(`النسخة الاحتياطية تالفة:\n${e instanceof Error ? e.message : e}`);
+  }
+
+  return {
+    app: BACKUP_APP_ID,
+    schemaVersion: parsed.schemaVersion,
+    dataSchemaVersion: STORAGE_SCHEMA_VERSION,
+    exportedAt: typeof parsed.exportedAt === 'string' ? parsed.exportedAt : '',
+    templateSites,
+    dataByYear,
+    archivesByYear,
+    attachmentFiles: parsed.attachmentFiles || {}
+  };
+};
+
+export const summarizeBackup = (backup: WorkspaceBackup): BackupSummary => {
+  const siteIds = new Set<string>();
+  allSiteLists(backup).forEach(sites => sites.forEach(site => siteIds.add(site.id)));
+
+  const attachmentIds = new Set<string>();
+  allSiteLists(backup).forEach(sites => forEachAttachment(sites, attachment => attachmentIds.add(attachment.id)));
+  const missing = [...attachmentIds].filter(id => !backup.attachmentFiles[id]).length;
+
+  const years = new Set<number>(Object.keys(backup.dataByYear).map(Number));
+  Object.keys(backup.archivesByYear).forEach(key => {
+    if (backup.archivesByYear[Number(key)].length > 0) years.add(Number(key));
+  });
+
+  return {
+    exportedAt: backup.exportedAt,
+    schemaVersion: backup.schemaVersion,
+    years: [...years].sort((a, b) => a - b),
+    siteCount: siteIds.size,
+    archivedSiteCount: Object.values(backup.archivesByYear).reduce((sum, sites) => sum + sites.length, 0),
+    attachmentCount: attachmentIds.size - missing,
+    missingAttachmentCount: missing
+  };
+};
+
+// --- Restore ---
+
+// Writes the backup's files into the attachment store. Resolves with the number of files restored.
+export const restoreAttachmentFiles = async (backup: WorkspaceBackup): Promise<number> => {
+  let restored = 0;
+  for (const [id, dataUrl] of Object.entries(backup.attachmentFiles)) {
+    try {
+      await saveAttachmentBlob(id, dataUrlToBlob(dataUrl));
+      restored++;
+    } catch (e) {
+      console.warn(`Failed to restore attachment ${id}`, e);
+    }
+  }
+  return restored;
+};
+
+// Months present in `current` are kept; the others are filled from `incoming`
+const fillMonths = <T>(current: Partial<Record<MonthKey, T>> | undefined, incoming: Partial<Record<MonthKey, T>> | undefined) => {
+  if (!incoming) return current;
+  const merged = { ...current };
+  MONTHS.forEach(m => {
+    if (merged[m.key] === undefined && incoming[m.key] !== undefined) merged[m.key] = incoming[m.key];
+  });
+  return merged;
+};
+
+const mergeRows = (row: ConsumptionRow, other: ConsumptionRow): ConsumptionRow => {
+  const values = { ...row.values };
+  MONTHS.forEach(m => {
+    if (values[m.key] === 0 && other.values[m.key]) values[m.key] = other.values[m.key];
+  });
+  const attachments = [...(row.attachments || [])];
+  other.attachments?.forEach(a => {
+    if (!attachments.some(existing => existing.id === a.id)) attachments.push(a);
+  });
+  // A tariff only works together with its cost row, so both come from the same side
+  const tariffSide = row.tariff ? row : other;
+  return {
+    ...row,
+    values,
+    attachments: attachments.length > 0 ? attachments : undefined,
+    tariff: tariffSide.tariff,
+    costRowId: tariffSide.tariff ? tariffSide.costRowId : row.costRowId || other.costRowId,
+    manualOverrides: fillMonths(row.manualOverrides, other.manualOverrides),
+    readings: fillMonths(row.readings, other.readings),
+    meterId: row.meterId || other.meterId
+  };
+};
+
+// Details and meters: what the current site has is kept, what it lacks is taken from the backup
+const mergeSiteDetails = (site: SiteData, other: SiteData): Partial<SiteData> => {
+  const details: Partial<SiteData> = {};
+  SITE_DETAIL_FIELDS.forEach(({ key }) => {
+    details[key] = site[key] || other[key];
+  });
+  const newMeters = (other.meters || []).filter(m => !site.meters?.some(existing => existing.id === m.id));
+  if (newMeters.length > 0) {
+    details.meters = [...(site.meters || []), ...newMeters];
+    details.meterNumber = joinMeterNumbers(details.meters);
+  } else {
+    details.meterNumber = site.meterNumber || other.meterNumber;
+  }
+  return details;
+};
+
+/**
+ * Merges an incoming site list into the current one, matching sites and rows by id:
+ * - sites and rows that only exist in the backup are added
+ * - for existing rows, months that are empty (0) are filled from the backup; entered values are kept.
+ *   Meter readings and manual overrides are filled month by month the same way, and a tariff is taken when the row has none
+ * - site details and meters missing in the current site are taken from the backup
+ * - attachments are combined
+ */
+export const mergeSiteLists = (current: SiteData[], incoming: SiteData[]): SiteData[] => {
+  const merged = current.map(site => {
+    const other = incoming.find(s => s.id === site.id);
+    if (!other) return site;
+
+    const rows = site.rows.map(row => {
+      const otherRow = other.rows.find(r => r.id === row.id);
+      return otherRow ? mergeRows(row, otherRow) : row;
+    });
+
+    other.rows.forEach(row => {
+      if (!rows.some(r => r.id === row.id)) rows.push(row);
+    });
+
+    return { ...site, ...mergeSiteDetails(site, other), rows: calculateSiteTotals(rows), budgets: site.budgets || other.budgets };
+  });
+
+  incoming.forEach(site => {
+    if (!merged.some(s => s.id === site.id)) merged.push(site);
+  });
+  return merged;
+};
+
+/**
+ * Merges the active and archived sites of every year. A site keeps the state (active or archived) it has in
+ * the current workspace, and the backup's copy is merged into it there; sites new to the workspace keep
+ * their state from the backup. So a site archived on one side and active on the other is not listed twice.
+ */
+const mergeYearMaps = (current: Workspace, incoming: Workspace): Pick<Workspace, 'dataByYear' | 'archivesByYear'> => {
+  const dataByYear = { ...current.dataByYear };
+  const archivesByYear = { ...current.archivesByYear };
+  const years = new Set<number>([...Object.keys(incoming.dataByYear), ...Object.keys(incoming.archivesByYear)].map(Number));
+
+  years.forEach(year => {
+    const activeIds = new Set<string>((current.dataByYear[year] || []).map(s => s.id));
+    const archivedIds = new Set<string>((current.archivesByYear[year] || []).map(s => s.id));
+    const incomingActive = incoming.dataByYear[year] || [];
+    const incomingArchived = incoming.archivesByYear[year] || [];
+
+    const isActive = (site: SiteData, activeInBackup: boolean) => activeIds.has(site.id) || (!archivedIds.has(site.id) && activeInBackup);
+    const toActive = [...incomingActive.filter(s => isActive(s, true)), ...incomingArchived.filter(s => isActive(s, false))];
+    const toArchived = [...incomingActive.filter(s => !isActive(s, true)), ...incomingArchived.filter(s => !isActive(s, false))];
+
+    if (current.dataByYear[year] || incoming.dataByYear[year]) {
+      dataByYear[year] = current.dataByYear[year] ? mergeSiteLists(current.dataByYear[year], toActive) : toActive;
+    }
+    if (current.archivesByYear[year] || toArchived.length > 0) {
+      archivesByYear[year] = mergeSiteLists(current.archivesByYear[year] || [], toArchived);
+    }
+  });
+
+  return { dataByYear, archivesByYear };
+};
+
+export const mergeWorkspaces = (current: Workspace, incoming: Workspace): Workspace => ({
+  templateSites: mergeSiteLists(current.templateSites, incoming.templateSites),
+  ...mergeYearMaps(current, incoming)
+});
@@ -0,0 +1,125 @@
+import { MONTHS, MonthKey, RowType, SiteData, UtilityBudget, UtilityKind } from '../types.ts';
+import { safeFloat, createEmptyMonthValues, calculateHorizontalTotal } from './calculations.ts';
+
+// Share of the budget above which a month or a year is shown as "close to budget"
+export const BUDGET_WARNING_RATIO = 0.9;
+
+export type BudgetStatus = 'none' | 'under' | 'warning' | 'over';
+
+export interface SiteBudgetVariance {
+  budget: Record<MonthKey, number>;
+  actual: Record<MonthKey, number>;
+  variance: Record<MonthKey, number>; // actual - budget
+  status: Record<MonthKey, BudgetStatus>;
+  annualBudget: number;
+  actualToDate: number;
+  projectedAnnual: number; // Spend so far extrapolated to twelve months
+  annualStatus: BudgetStatus;
+  isTrendingOver: boolean;
+}
+
+export interface BudgetAlert {
+  siteId: string;
+  siteName: string;
+  kind: 'over' | 'trending';
+  annualBudget: number;
+  actualToDate: number;
+  projectedAnnual: number;
+}
+
+// Monthly budgets of one utility. Explicit months are kept and the rest of the annual budget is spread over the others.
+export const getMonthlyBudgets = (budget: UtilityBudget): Record<MonthKey, number> => {
+  const result = createEmptyMonthValues();
+  const explicit = budget.monthly || {};
+  const explicitKeys = MONTHS.filter(m => explicit[m.key] !== undefined).map(m => m.key);
+  const explicitTotal = explicitKeys.reduce((sum, key) => sum + (explicit[key] || 0), 0);
+  const remainingMonths = MONTHS.length - explicitKeys.length;
+  const share = remainingMonths > 0 ? Math.max(0, budget.annual - explicitTotal) / remainingMonths : 0;
+
+  MONTHS.forEach(m => {
+    result[m.key] = safeFloat(explicit[m.key] !== undefined ? explicit[m.key]! : share);
+  });
+  return result;
+};
+
+export const hasBudgets = (site: SiteData): boolean => {
+  return !!site.budgets && Object.values(site.budgets).some(b => b && b.annual > 0);
+};
+
+const statusOf = (actual: number, budget: number): BudgetStatus => {
+  if (budget <= 0) return actual > 0 ? 'over' : 'none';
+  if (actual > budget) return 'over';
+  if (actual >= budget * BUDGET_WARNING_RATIO) return 'warning';
+  return 'under';
+};
+
+/**
+ * Compares a site's cost rows with its budgets. Only utilities that have a budget are counted,
+ * so a site budgeted for electricity alone is not flagged because of its water bills.
+ */
+export const calculateBudgetVariance = (site: SiteData): SiteBudgetVariance | null => {
+  if (!hasBudgets(site)) return null;
+
+  const budget = createEmptyMonthValues();
+  const actual = createEmptyMonthValues();
+  const budgetedUtilities = (Object.keys(site.budgets!) as UtilityKind[]).filter(u => (site.budgets![u]?.annual || 0) > 0);
+
+  budgetedUtilities.forEach(utility => {
+    const monthly = getMonthlyBudgets(site.budgets![utility]!);
+    MONTHS.forEach(m => {
+      budget[m.key] = safeFloat(budget[m.key] + monthly[m.key]);
+    });
+  });
+
+  site.rows.forEach(row => {
+    if (row.type !== RowType.INPUT || row.measure !== 'cost' || !budgetedUtilities.includes(row.utility)) return;
+    MONTHS.forEach(m => {
+      actual[m.key] = safeFloat(actual[m.key] + row.values[m.key]);
+    });
+  });
+
+  const variance = createEmptyMonthValues();
+  const status = {} as Record<MonthKey, BudgetStatus>;
+  MONTHS.forEach(m => {
+    variance[m.key] = safeFloat(actual[m.key] - budget[m.key]);
+    status[m.key] = actual[m.key] === 0 ? 'none' : statusOf(actual[m.key], budget[m.key]);
+  });
+
+  const annualBudget = safeFloat(budgetedUtilities.reduce((sum, utility) => sum + site.budgets![utility]!.annual, 0));
+  const actualToDate = calculateHorizontalTotal(actual);
+
+  // Months elapsed = up to the last month with a recorded cost
+  const lastRecordedIndex = MONTHS.map(m => actual[m.key]).reduce((last, value, i) => value !== 0 ? i : last, -1);
+  const projectedAnnual = lastRecordedIndex === -1 ? 0 : safeFloat((actualToDate / (lastRecordedIndex + 1)) * MONTHS.length);
+
+  const annualStatus = statusOf(actualToDate, annualBudget);
+  return {
+    budget,
+    actual,
+    variance,
+    status,
+    annualBudget,
+    actualToDate,
+    projectedAnnual,
+    annualStatus,
+    isTrendingOver: annualStatus !== 'over' && projectedAnnual > annualBudget
+  };
+};
+
+// Sites that have already exceeded their annual budget, or are on course to
+export const buildBudgetAlerts = (sites: SiteData[]): BudgetAlert[] => {
+  const alerts: BudgetAlert[] = [];
+  sites.forEach(site => {
+    const result = calculateBudgetVariance(site);
+    if (!result || (result.annualStatus !== 'over' && !result.isTrendingOver)) return;
+    alerts.push({
+      siteId: site.id,
+      siteName: site.name,
+      kind: result.annualStatus === 'over' ? 'over' : 'trending',
+      annualBudget: result.annualBudget,
+      actualToDate: result.actualToDate,
+      projectedAnnual: result.projectedAnnual
+    });
+  });
+  return alerts;
+};
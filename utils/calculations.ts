@@ -0,0 +1,63 @@
+import { SiteData, MONTHS, MonthKey, RowType, ConsumptionRow } from '../types.ts';
+import { applyTariffs } from './tariffs.ts';
+
+// Helper to prevent floating point errors
+export const safeFloat = (num: number): number => {
+  return Math.round((num + Number.EPSILON) * 100) / 100;
+};
+
+export const createEmptyMonthValues = (): Record<MonthKey, number> => {
+  const v: Record<string, number> = {};
+  MONTHS.forEach(m => v[m.key] = 0);
+  return v as Record<MonthKey, number>;
+};
+
+/**
+ * Monthly cost of the given rows. Each utility is summed and rounded once, then the utilities are added,
+ * the same way as the per-utility subtotals (`calculateCostTotals`), so the totals always equal their subtotals.
+ */
+const sumCostRows = (rows: ConsumptionRow[]): Record<MonthKey, number> => {
+  const byUtility = new Map<string, Record<MonthKey, number>>();
+  rows.forEach(row => {
+    if (row.type !== RowType.INPUT || row.measure !== 'cost') return;
+    const utilityTotals = byUtility.get(row.utility) || createEmptyMonthValues();
+    MONTHS.forEach(month => {
+      utilityTotals[month.key] += row.values[month.key];
+    });
+    byUtility.set(row.utility, utilityTotals);
+  });
+
+  const totals = createEmptyMonthValues();
+  byUtility.forEach(utilityTotals => {
+    MONTHS.forEach(month => {
+      totals[month.key] = safeFloat(totals[month.key] + safeFloat(utilityTotals[month.key]));
+    });
+  });
+  return totals;
+};
+
+// Recalculate the tariff-driven cost rows, then the "Total Value" row of a site from its cost rows
+export const calculateSiteTotals = (siteRows: ConsumptionRow[]): ConsumptionRow[] => {
+  const newRows = applyTariffs(siteRows);
+  const totalRowIndex = newRows.findIndex(r => r.type === RowType.CALCULATED_TOTAL);
+
+  if (totalRowIndex !== -1) {
+    newRows[totalRowIndex] = { ...newRows[totalRowIndex], values: sumCostRows(newRows) };
+  }
+  return newRows;
+};
+
+export const calculateHorizontalTotal = (values: Record<MonthKey, number>): number => {
+  const sum = Object.values(values).reduce((sum, current) => sum + current, 0);
+  return safeFloat(sum);
+};
+
+// Sum of all site costs per month, from the cost rows themselves (a site's total row is rounded on its own)
+export const calculateGrandTotals = (sites: SiteData[]): Record<MonthKey, number> => {
+  return sumCostRows(sites.flatMap(site => site.rows));
+};
+
+export const formatNumber = (num: number) => {
+  if (Math.abs(num) < 0.005) return "0";
+  return Number.isInteger(num) ? num.toString() : num.toFixed(2);
+};
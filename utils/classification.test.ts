@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { ConsumptionRow, RowType, SiteData } from '../types.ts';
+import { calculateConsumptionTotals, calculateCostTotals } from './classification.ts';
+import { calculateGrandTotals, createEmptyMonthValues, safeFloat } from './calculations.ts';
+
+const gallonRow = (id: string, jan: number): ConsumptionRow => ({
+  id, label: 'الماء ( جالون)', type: RowType.INPUT, unit: 'gallon', utility: 'water', measure: 'quantity', isCost: false,
+  values: { ...createEmptyMonthValues(), jan }
+});
+
+describe('calculateConsumptionTotals', () => {
+  it('rounds the converted sum once instead of every addend', () => {
+    // 1 gallon is 0.00454609 m³: each row alone rounds to 0, the ten of them make 0.05 m³
+    const sites: SiteData[] = Array.from({ length: 10 }, (_, i) => ({ id: `s${i}`, name: `s${i}`, meterNumber: '', rows: [gallonRow(`r${i}`, 1)] }));
+    expect(calculateConsumptionTotals(sites).water!.jan).toBe(0.05);
+  });
+});
+
+describe('calculateCostTotals', () => {
+  it('matches the rounded sum of the rows', () => {
+    const costRow = (id: string, jan: number): ConsumptionRow => ({ ...gallonRow(id, jan), unit: 'aed', measure: 'cost', isCost: true });
+    const sites: SiteData[] = [{ id: 's', name: 's', meterNumber: '', rows: [costRow('a', 0.004), costRow('b', 0.004), costRow('c', 0.004)] }];
+    expect(calculateCostTotals(sites).water!.jan).toBe(0.01);
+  });
+
+  it('adds up to the grand total', () => {
+    const costRow = (id: string, utility: ConsumptionRow['utility'], jan: number): ConsumptionRow => ({ ...gallonRow(id, jan), unit: 'aed', utility, measure: 'cost', isCost: true });
+    const sites: SiteData[] = [
+      { id: 's1', name: 's1', meterNumber: '', rows: [costRow('a', 'water', 0.004), costRow('b', 'electricity', 0.004), costRow('c', 'electricity', 10.333)] },
+      { id: 's2', name: 's2', meterNumber: '', rows: [costRow('d', 'water', 0.004), costRow('e', 'cooling', 0.1), costRow('f', 'electricity', 0.2)] }
+    ];
+    const subtotals = calculateCostTotals(sites);
+    const sum = Object.values(subtotals).reduce((total, utility) => safeFloat(total + utility!.jan), 0);
+
+    expect(sum).toBe(calculateGrandTotals(sites).jan);
+  });
+});
@@ -0,0 +1,158 @@
+import { ConsumptionRow, MeasureKind, MONTHS, MonthKey, RowType, SiteData, UnitKey, UtilityKind } from '../types.ts';
+import { inferUnitFromLabel, convertToCanonical, UNITS } from './units.ts';
+import { safeFloat, createEmptyMonthValues } from './calculations.ts';
+
+// `defaultUnit` is also the canonical unit that consumption totals are expressed in
+export const UTILITIES: Record<UtilityKind, { label: string; defaultUnit?: UnitKey }> = {
+  water: { label: 'ماء', defaultUnit: 'm3' },
+  electricity: { label: 'كهرباء', defaultUnit: 'kwh' },
+  cooling: { label: 'تبريد', defaultUnit: 'ton_hour' },
+  gas: { label: 'غاز', defaultUnit: 'm3' },
+  other: { label: 'أخرى' }
+};
+
+export const MEASURES: Record<MeasureKind, { label: string }> = {
+  quantity: { label: 'كمية' },
+  cost: { label: 'قيمة' }
+};
+
+export const isCostRow = (row: ConsumptionRow): boolean => {
+  return row.type === RowType.INPUT && row.measure === 'cost';
+};
+
+// Label written in the measure column of exports for the calculated total row
+export const TOTAL_MEASURE_LABEL = 'إجمالي';
+
+// Reads a utility / measure from an exported cell, accepting both the key and the Arabic label
+export const parseUtility = (value: unknown): UtilityKind | undefined => {
+  const text = String(value ?? '').trim();
+  return (Object.keys(UTILITIES) as UtilityKind[]).find(k => k === text || UTILITIES[k].label === text);
+};
+
+export const parseMeasure = (value: unknown): MeasureKind | undefined => {
+  const text = String(value ?? '').trim();
+  return (Object.keys(MEASURES) as MeasureKind[]).find(k => k === text || MEASURES[k].label === text);
+};
+
+// --- Inference for data saved before rows were classified ---
+
+export const inferUtility = (label: string, unit?: UnitKey): UtilityKind => {
+  const text = label.toLowerCase();
+  if (text.includes('ماء') || text.includes('مياه') || text.includes('water')) return 'water';
+  if (text.includes('كهرباء') || text.includes('electric')) return 'electricity';
+  if (text.includes('تكييف') || text.includes('تبريد') || text.includes('cooling') || text.includes('btu')) return 'cooling';
+  if (text.includes('غاز') || text.includes('gas')) return 'gas';
+  if (unit === 'm3' || unit === 'gallon') return 'water';
+  if (unit === 'kwh') return 'electricity';
+  if (unit === 'btu' || unit === 'ton_hour') return 'cooling';
+  return 'other';
+};
+
+export const inferMeasure = (label: string): MeasureKind => {
+  const text = label.toLowerCase();
+  return text.includes('قيمة') || text.includes('value') || text.includes('price') || text.includes('cost') ? 'cost' : 'quantity';
+};
+
+/**
+ * Pairs each quantity row with the first following cost row of the same utility
+ * that is not already paired. Existing pairings are kept.
+ */
+export const pairCostRows = (rows: ConsumptionRow[]): ConsumptionRow[] => {
+  const taken = new Set(rows.filter(r => r.costRowId).map(r => r.costRowId!));
+  return rows.map((row, index) => {
+    if (row.measure !== 'quantity' || row.type !== RowType.INPUT) return row;
+    if (row.costRowId && rows.some(r => r.id === row.costRowId)) return row;
+    const costRow = rows.slice(index + 1).find(r => isCostRow(r) && r.utility === row.utility && !taken.has(r.id));
+    if (!costRow) return row;
+    taken.add(costRow.id);
+    return { ...row, costRowId: costRow.id };
+  });
+};
+
+// Migration: fills `utility`, `measure` and cost pairing on rows that lack them
+export const withClassification = (sites: SiteData[]): SiteData[] => {
+  return sites.map(site => {
+    let changed = false;
+    const rows = site.rows.map(row => {
+      if (row.utility && row.measure) return row;
+      changed = true;
+      const isTotal = row.type === RowType.CALCULATED_TOTAL;
+      const measure: MeasureKind = row.measure || (isTotal || row.isCost ? 'cost' : inferMeasure(row.label));
+      const unit = row.unit || inferUnitFromLabel(row.label, measure === 'cost');
+      return {
+        ...row,
+        utility: row.utility || (isTotal ? 'other' : inferUtility(row.label, unit)),
+        measure,
+        isCost: !isTotal && measure === 'cost'
+      };
+    });
+    return changed ? { ...site, rows: pairCostRows(rows) } : site;
+  });
+};
+
+// Builds the classification fields of a new row
+export const classifyNewRow = (label: string, measure?: MeasureKind) => {
+  const resolvedMeasure = measure || inferMeasure(label);
+  const unit = inferUnitFromLabel(label, resolvedMeasure === 'cost');
+  return {
+    utility: inferUtility(label, unit),
+    measure: resolvedMeasure,
+    isCost: resolvedMeasure === 'cost',
+    unit
+  };
+};
+
+export type ConsumptionTotals = Partial<Record<UtilityKind, Record<MonthKey, number>>>;
+
+// Rounds every month of every utility to 2 decimals, in place
+const roundTotals = (totals: ConsumptionTotals): ConsumptionTotals => {
+  (Object.keys(totals) as UtilityKind[]).forEach(utility => {
+    const utilityTotals = totals[utility]!;
+    MONTHS.forEach(month => {
+      utilityTotals[month.key] = safeFloat(utilityTotals[month.key]);
+    });
+  });
+  return totals;
+};
+
+/**
+ * Monthly consumption across all sites, per utility, converted to the utility's canonical unit.
+ * Rows without a unit, or with a unit that does not fit the utility, are left out
+ * because their values cannot be compared.
+ */
+export const calculateConsumptionTotals = (sites: SiteData[]): ConsumptionTotals => {
+  const totals: ConsumptionTotals = {};
+
+  sites.forEach(site => {
+    site.rows.forEach(row => {
+      if (row.type !== RowType.INPUT || row.measure !== 'quantity' || !row.unit || !UNITS[row.unit]) return;
+      const canonicalUnit = UTILITIES[row.utility]?.defaultUnit;
+      if (!canonicalUnit || UNITS[canonicalUnit].dimension !== UNITS[row.unit].dimension) return;
+
+      const utilityTotals = totals[row.utility] || (totals[row.utility] = createEmptyMonthValues());
+      MONTHS.forEach(month => {
+        utilityTotals[month.key] += convertToCanonical(row.values[month.key], row.unit!);
+      });
+    });
+  });
+
+  // Rounded once at the end: rounding every converted addend would add up over many rows
+  return roundTotals(totals);
+};
+
+// Monthly cost across all sites, per utility (AED). Together they make up the grand total of the table.
+export const calculateCostTotals = (sites: SiteData[]): ConsumptionTotals => {
+  const totals: ConsumptionTotals = {};
+
+  sites.forEach(site => {
+    site.rows.forEach(row => {
+      if (row.type !== RowType.INPUT || row.measure !== 'cost') return;
+      const utilityTotals = totals[row.utility] || (totals[row.utility] = createEmptyMonthValues());
+      MONTHS.forEach(month => {
+        utilityTotals[month.key] += row.values[month.key];
+      });
+    });
+  });
+
+  return roundTotals(totals);
+};
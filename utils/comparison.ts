@@ -0,0 +1,118 @@
+import { SiteData, MONTHS, MonthKey, RowType } from '../types.ts';
+import { safeFloat, calculateHorizontalTotal, calculateGrandTotals } from './calculations.ts';
+
+export interface ComparisonChange {
+  change: number;
+  changePercent: number | null; // null when the previous value is 0
+}
+
+export interface ComparisonCell {
+  values: number[]; // One value per compared year, same order as `years`
+  changes: ComparisonChange[]; // Change of each year vs. the year before it (length = years - 1)
+}
+
+export interface ComparisonRow {
+  id: string;
+  label: string;
+  type: RowType;
+  isCost: boolean;
+  months: Record<MonthKey, ComparisonCell>;
+  total: ComparisonCell;
+}
+
+export interface ComparisonSite {
+  id: string;
+  name: string;
+  meterNumber: string;
+  rows: ComparisonRow[];
+}
+
+export interface ComparisonResult {
+  years: number[];
+  sites: ComparisonSite[];
+  grandTotals: {
+    months: Record<MonthKey, ComparisonCell>;
+    total: ComparisonCell;
+  };
+}
+
+const buildCell = (values: number[]): ComparisonCell => {
+  const changes: ComparisonChange[] = [];
+  for (let i = 1; i < values.length; i++) {
+    const previous = values[i - 1];
+    const change = safeFloat(values[i] - previous);
+    changes.push({
+      change,
+      changePercent: previous === 0 ? null : safeFloat((change / Math.abs(previous)) * 100)
+    });
+  }
+  return { values, changes };
+};
+
+const buildMonthCells = (valuesPerYear: (Record<MonthKey, number> | undefined)[]): Record<MonthKey, ComparisonCell> => {
+  const cells = {} as Record<MonthKey, ComparisonCell>;
+  MONTHS.forEach(m => {
+    cells[m.key] = buildCell(valuesPerYear.map(v => v ? v[m.key] : 0));
+  });
+  return cells;
+};
+
+/**
+ * Lines up the selected years side by side.
+ * Sites and rows are matched by id, so a site that only exists in some years
+ * is still listed, with 0 for the years where it is missing.
+ */
+export const buildComparison = (years: number[], dataByYear: Record<number, SiteData[]>): ComparisonResult => {
+  const sortedYears = [...years].sort((a, b) => a - b);
+  const sitesPerYear = sortedYears.map(y => dataByYear[y] || []);
+
+  // Keep the order of the most recent year, then append sites only found in older years
+  const siteOrder: SiteData[] = [];
+  [...sitesPerYear].reverse().forEach(yearSites => {
+    yearSites.forEach(site => {
+      if (!siteOrder.some(s => s.id === site.id)) siteOrder.push(site);
+    });
+  });
+
+  const sites: ComparisonSite[] = siteOrder.map(site => {
+    const versions = sitesPerYear.map(yearSites => yearSites.find(s => s.id === site.id));
+
+    const rowOrder: { id: string; label: string; type: RowType; isCost: boolean }[] = [];
+    [...versions].reverse().forEach(version => {
+      version?.rows.forEach(row => {
+        if (!rowOrder.some(r => r.id === row.id)) rowOrder.push(row);
+      });
+    });
+
+    // Keep the total row at the bottom, even if older years appended rows after it
+    rowOrder.sort((a, b) => Number(a.type === RowType.CALCULATED_TOTAL) - Number(b.type === RowType.CALCULATED_TOTAL));
+
+    return {
+      id: site.id,
+      name: site.name,
+      meterNumber: site.meterNumber,
+      rows: rowOrder.map(row => {
+        const valuesPerYear = versions.map(version => version?.rows.find(r => r.id === row.id)?.values);
+        return {
+          id: row.id,
+          label: row.label,
+          type: row.type,
+          isCost: row.isCost,
+          months: buildMonthCells(valuesPerYear),
+          total: buildCell(valuesPerYear.map(v => v ? calculateHorizontalTotal(v) : 0))
+        };
+      })
+    };
+  });
+
+  const grandTotalsPerYear = sitesPerYear.map(yearSites => calculateGrandTotals(yearSites));
+
+  return {
+    years: sortedYears,
+    sites,
+    grandTotals: {
+      months: buildMonthCells(grandTotalsPerYear),
+      total: buildCell(grandTotalsPerYear.map(calculateHorizontalTotal))
+    }
+  };
+};
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { INITIAL_SITES } from '../constants.ts';
+import { SiteData } from '../types.ts';
+import { mergeCsvImport, parseCsvImport } from './csv.ts';
+
+const template = (): SiteData[] => JSON.parse(JSON.stringify(INITIAL_SITES));
+
+// A file from another system: no site or row IDs
+const historicalCsv = [
+  'year,site_name,meter_number,row_label,month,value',
+  '2022,مستودع القوز,55-100,الكهرباء ( كيلو واط ),jan,1200',
+  '2022,مستودع القوز,55-100,قيمة الاستهلاك الكهرباء,jan,300',
+  '2023,مستودع القوز,55-100,الكهرباء ( كيلو واط ),jan,1300',
+  '2023,مستودع القوز,55-100,قيمة الاستهلاك الكهرباء,jan,330'
+].join('\n');
+
+describe('mergeCsvImport', () => {
+  it('gives a new site the same site and row IDs in every year of the file', () => {
+    const merged = mergeCsvImport({}, {}, template(), parseCsvImport(historicalCsv));
+    const site2022 = merged.dataByYear[2022].find(s => s.name === 'مستودع القوز')!;
+    const site2023 = merged.dataByYear[2023].find(s => s.name === 'مستودع القوز')!;
+
+    expect(site2022).toBeDefined();
+    expect(site2023.id).toBe(site2022.id);
+    expect(site2023.rows.map(r => r.id)).toEqual(site2022.rows.map(r => r.id));
+    expect(site2023.rows.find(r => r.label === 'الكهرباء ( كيلو واط )')!.values.jan).toBe(1300);
+    expect(merged.newSites).toBe(1);
+  });
+
+  it('adds the new site to the template from its first year', () => {
+    const merged = mergeCsvImport({}, {}, template(), parseCsvImport(historicalCsv));
+    const site = merged.templateSites.find(s => s.name === 'مستودع القوز')!;
+
+    expect(site.id).toBe(merged.dataByYear[2022].find(s => s.name === 'مستودع القوز')!.id);
+    expect(site.startYear).toBe(2022);
+    expect(site.rows.every(r => r.values.jan === 0)).toBe(true);
+  });
+
+  it('matches rows of an existing site by label in every year', () => {
+    const csv = [
+      'year,site_name,meter_number,row_label,month,value',
+      '2022,فيلا 2 محمد بن زايد,3934453626,الماء ( متر مكعب),feb,40',
+      '2023,فيلا 2 محمد بن زايد,3934453626,الماء ( متر مكعب),feb,45'
+    ].join('\n');
+    const merged = mergeCsvImport({}, {}, template(), parseCsvImport(csv));
+
+    [2022, 2023].forEach(year => {
+      const site = merged.dataByYear[year].find(s => s.id === 'site_1')!;
+      expect(site.rows.filter(r => r.label === 'الماء ( متر مكعب)').map(r => r.id)).toEqual(['s1_r1']);
+    });
+    expect(merged.templateSites).toHaveLength(INITIAL_SITES.length);
+  });
+
+  it('does not add a live copy of a site that is archived in that year', () => {
+    const [archived, ...others] = template();
+    const csv = [
+      'year,site_name,meter_number,row_label,month,value',
+      `2023,${archived.name},${archived.meterNumber},الماء ( متر مكعب),feb,45`
+    ].join('\n');
+    const merged = mergeCsvImport({ 2023: others }, { 2023: [archived] }, others, parseCsvImport(csv));
+
+    expect(merged.dataByYear[2023].some(s => s.id === archived.id || s.name === archived.name)).toBe(false);
+    expect(merged.templateSites).toHaveLength(others.length);
+    expect(merged.newSites).toBe(0);
+    expect(merged.archivedSites).toBe(1);
+  });
+});
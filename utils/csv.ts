@@ -0,0 +1,285 @@
+import { SiteData, MONTHS, MonthKey, RowType } from '../types.ts';
+import { parseUnit } from './units.ts';
+import { classifyNewRow, parseMeasure, parseUtility } from './classification.ts';
+import { createEmptyMonthValues } from './calculations.ts';
+import { ImportIssue, ImportedRow, ImportedSite, findMatchingRow, matchImportedSites, mergeImport } from './excelImport.ts';
+
+/**
+ * Long CSV format, one line per year, site, row and month:
+ *
+ *   year          4-digit year (required)
+ *   site_id       ID of the site in this system; empty for data from other systems
+ *   site_name     required
+ *   meter_number  used to match sites when there is no site_id
+ *   row_id        ID of the row in this system; empty for data from other systems
+ *   row_label     required
+ *   row_type      INPUT, or CALCULATED_TOTAL for the site total (recalculated on import)
+ *   utility       water | electricity | cooling | gas | other
+ *   measure       quantity | cost
+ *   unit          m3 | gallon | kwh | btu | ton_hour | aed
+ *   month         jan … dec (or 1 … 12)
+ *   value         number with a "." decimal point
+ *
+ * Utility, measure and unit are inferred from the label when empty. Files are UTF-8 with a BOM, comma separated.
+ * Tariffs, budgets and attachments are not part of the format.
+ */
+export const CSV_COLUMNS = ['year', 'site_id', 'site_name', 'meter_number', 'row_id', 'row_label', 'row_type', 'utility', 'measure', 'unit', 'month', 'value'] as const;
+
+type CsvColumn = typeof CSV_COLUMNS[number];
+
+const REQUIRED_CSV_COLUMNS: CsvColumn[] = ['year', 'site_name', 'row_label', 'month', 'value'];
+
+const escapeCsvField = (value: string | number) => {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const exportCsv = (dataByYear: Record<number, SiteData[]>): string => {
+  const lines = [CSV_COLUMNS.join(',')];
+  Object.keys(dataByYear).map(Number).sort((a, b) => a - b).forEach(year => {
+    dataByYear[year].forEach(site => {
+      site.rows.forEach(row => {
+        MONTHS.forEach(m => {
+          lines.push([year, site.id, site.name, site.meterNumber, row.id, row.label, row.type, row.utility, row.measure, row.unit || '', m.key, row.values[m.key]].map(escapeCsvField).join(','));
+        });
+      });
+    });
+  });
+  return '\uFEFF' + lines.join('\r\n') + '\r\n';
+};
+
+// RFC 4180: quoted fields may hold commas, doubled quotes and line breaks
+const parseCsvLines = (text: string): { line: number; fields: string[] }[] => {
+  const records: { line: number; fields: string[] }[] = [];
+  let fields: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1;
+  let recordLine = 1;
+
+  const endRecord = () => {
+    fields.push(field);
+    if (fields.some(f => f.trim() !== '')) records.push({ line: recordLine, fields });
+    fields = [];
+    field = '';
+  };
+
+  const source = text.replace(/^\uFEFF/, '');
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (inQuotes) {
+      if (char === '"' && source[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        if (char === '\n') line++;
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      fields.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      endRecord();
+      line++;
+      recordLine = line;
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || fields.length > 0) endRecord();
+  return records;
+};
+
+const parseMonth = (value: string): MonthKey | undefined => {
+  const text = value.trim().toLowerCase();
+  const index = Number(text);
+  if (Number.isInteger(index) && index >= 1 && index <= 12) return MONTHS[index - 1].key;
+  return MONTHS.find(m => m.key === text || m.label === value.trim())?.key;
+};
+
+export interface CsvImport {
+  byYear: Record<number, ImportedSite[]>;
+  issues: ImportIssue[];
+  valueCount: number;
+}
+
+export const parseCsvImport = (text: string): CsvImport => {
+  const [header, ...records] = parseCsvLines(text);
+  if (!header) throw new Error('الملف فارغ.');
+
+  const columns = header.fields.map(f => f.trim().toLowerCase());
+  const missing = REQUIRED_CSV_COLUMNS.filter(c => !columns.includes(c));
+  if (missing.length > 0) throw new Error(`أعمدة مطلوبة غير موجودة: ${missing.join(', ')}`);
+  const get = (fields: string[], column: CsvColumn) => {
+    const index = columns.indexOf(column);
+    return index === -1 ? '' : (fields[index] ?? '').trim();
+  };
+
+  const byYear: Record<number, ImportedSite[]> = {};
+  const issues: ImportIssue[] = [];
+  let valueCount = 0;
+
+  records.forEach(({ line, fields }) => {
+    const skip = (message: string) => {
+      issues.push({ row: line, message });
+    };
+
+    const year = Number(get(fields, 'year'));
+    const siteName = get(fields, 'site_name');
+    const label = get(fields, 'row_label');
+    const month = parseMonth(get(fields, 'month'));
+    const valueText = get(fields, 'value');
+    const value = Number(valueText);
+
+    if (!Number.isInteger(year) || year < 1900 || year > 2200) return skip(`سنة غير صالحة: "${get(fields, 'year')}"`);
+    if (!siteName || !label) return skip('اسم الموقع أو البند فارغ.');
+    if (!month) return skip(`شهر غير صالح: "${get(fields, 'month')}"`);
+    if (valueText === '') return;
+    if (!Number.isFinite(value) || value < 0) return skip(`قيمة غير صالحة: "${valueText}"`);
+
+    // Sites and rows are identified by their ID when there is one, otherwise by meter/name and label
+    const siteId = get(fields, 'site_id');
+    const meterNumber = get(fields, 'meter_number');
+    const sites = byYear[year] || (byYear[year] = []);
+    let site = sites.find(s => siteId ? s.id === siteId : !s.id && s.name === siteName && s.meterNumber === meterNumber);
+    if (!site) {
+      site = { sourceRow: line, id: siteId || undefined, name: siteName, meterNumber, rows: [] };
+      sites.push(site);
+    }
+
+    const rowId = get(fields, 'row_id');
+    let row = site.rows.find(r => rowId ? r.id === rowId : !r.id && r.label === label);
+    if (!row) {
+      const measure = parseMeasure(get(fields, 'measure'));
+      const classification = classifyNewRow(label, measure);
+      const isTotal = get(fields, 'row_type') === RowType.CALCULATED_TOTAL;
+      const newRow: ImportedRow = {
+        sourceRow: line,
+        id: rowId || undefined,
+        label,
+        type: isTotal ? RowType.CALCULATED_TOTAL : RowType.INPUT,
+        utility: parseUtility(get(fields, 'utility')) || (isTotal ? 'other' : classification.utility),
+        measure: isTotal ? 'cost' : classification.measure,
+        isCost: !isTotal && classification.isCost,
+        unit: parseUnit(get(fields, 'unit')) || classification.unit,
+        values: {}
+      };
+      site.rows.push(newRow);
+      row = newRow;
+    }
+    row.values[month] = value;
+    valueCount++;
+  });
+
+  return { byYear, issues, valueCount };
+};
+
+// Every site known to the workspace, once per ID: the version of the latest year, then the template, then archived sites
+const knownSites = (dataByYear: Record<number, SiteData[]>, archivesByYear: Record<number, SiteData[]>, templateSites: SiteData[]): SiteData[] => {
+  const latestFirst = (byYear: Record<number, SiteData[]>) => Object.keys(byYear).map(Number).sort((a, b) => b - a).flatMap(year => byYear[year]);
+  const byId = new Map<string, SiteData>();
+  [...latestFirst(dataByYear), ...templateSites, ...latestFirst(archivesByYear)].forEach(site => {
+    if (!byId.has(site.id)) byId.set(site.id, site);
+  });
+  return [...byId.values()];
+};
+
+/**
+ * Gives every site and row of the file one ID for all its years: the ID of the matching site / row in the workspace,
+ * or a new ID shared by the years. Otherwise each year of a file from another system would become its own site.
+ * Returns the file with the IDs filled in, and the IDs of the sites that are new to the workspace.
+ */
+const resolveImportIds = (parsed: CsvImport, known: SiteData[]) => {
+  const timestamp = Date.now();
+  const resolved = new Map<string, { id: string; existing: SiteData | null; rowIds: Map<string, string> }>();
+  const newSiteIds = new Set<string>();
+  let rowCount = 0;
+
+  const byYear: Record<number, ImportedSite[]> = {};
+  Object.keys(parsed.byYear).map(Number).forEach(year => {
+    byYear[year] = parsed.byYear[year].map(site => {
+      if (site.id) return site;
+      const key = `${site.name}\u0000${site.meterNumber.replace(/\s/g, '').toLowerCase()}`;
+      let entry = resolved.get(key);
+      if (!entry) {
+        const [{ existing }] = matchImportedSites([site], known);
+        entry = { id: existing?.id || `site_imp_${timestamp}_${resolved.size}`, existing, rowIds: new Map() };
+        if (!existing) newSiteIds.add(entry.id);
+        resolved.set(key, entry);
+      }
+
+      const { existing, rowIds } = entry;
+      const rows = site.rows.map(row => {
+        if (row.id) return row;
+        let rowId = rowIds.get(row.label);
+        if (!rowId) {
+          rowId = (existing && findMatchingRow(existing.rows, row)?.id) || `r_imp_${timestamp}_${rowCount++}`;
+          rowIds.set(row.label, rowId);
+        }
+        return { ...row, id: rowId };
+      });
+      return { ...site, id: entry.id, rows };
+    });
+  });
+
+  return { byYear, newSiteIds };
+};
+
+// The copy of an imported site that goes into the template and into years without values for it
+const blankSiteCopy = (site: SiteData, startYear: number): SiteData => ({
+  ...site,
+  startYear,
+  rows: site.rows.map(({ readings, manualOverrides, ...row }) => ({ ...row, values: createEmptyMonthValues(), attachments: [] }))
+});
+
+/**
+ * Merges every year of the file into the workspace, like the Excel import does for one year.
+ * Years without data start from the template, as they do on screen. Sites and rows keep one ID across the years,
+ * and sites new to the workspace are added to the template (starting from their first year in the file).
+ * Values of a site that is archived in that year are skipped and counted in `archivedSites`, rather than
+ * adding a live copy of the site next to the archived one.
+ */
+export const mergeCsvImport = (dataByYear: Record<number, SiteData[]>, archivesByYear: Record<number, SiteData[]>, templateSites: SiteData[], parsed: CsvImport) => {
+  const next = { ...dataByYear };
+  const totals = { matchedSites: 0, newSites: 0, updatedValues: 0, addedRows: 0, archivedSites: 0 };
+  const { byYear, newSiteIds } = resolveImportIds(parsed, knownSites(dataByYear, archivesByYear, templateSites));
+  const years = Object.keys(byYear).map(Number).sort((a, b) => a - b);
+  const addedSiteIds = new Set<string>(); // A site new in several years counts once
+
+  years.forEach(year => {
+    const archivedIds = new Set<string>((archivesByYear[year] || []).map(s => s.id));
+    const sites = byYear[year].filter(site => !archivedIds.has(site.id!));
+    totals.archivedSites += byYear[year].length - sites.length;
+    if (sites.length === 0) return;
+
+    const current: SiteData[] = next[year] || JSON.parse(JSON.stringify(templateSites)).filter((s: SiteData) => !s.startYear || s.startYear <= year);
+    const result = mergeImport(current, matchImportedSites(sites, current), year);
+    next[year] = result.sites;
+    result.sites.filter(site => !current.some(s => s.id === site.id)).forEach(site => addedSiteIds.add(site.id));
+    totals.matchedSites += result.matchedSites;
+    totals.updatedValues += result.updatedValues;
+    totals.addedRows += result.addedRows;
+  });
+
+  totals.newSites = addedSiteIds.size;
+
+  // A new site starts in the first year it has values in; later years already in the workspace get an empty copy
+  const newTemplateSites: SiteData[] = [];
+  newSiteIds.forEach(siteId => {
+    const firstYear = years.find(year => next[year]?.some(s => s.id === siteId))!;
+    const blank = blankSiteCopy(next[firstYear].find(s => s.id === siteId)!, firstYear);
+    newTemplateSites.push(blank);
+    Object.keys(next).map(Number).filter(year => year >= firstYear).forEach(year => {
+      next[year] = next[year].some(s => s.id === siteId)
+        ? next[year].map(s => s.id === siteId ? { ...s, startYear: firstYear } : s)
+        : [...next[year], JSON.parse(JSON.stringify(blank))];
+    });
+  });
+
+  return { dataByYear: next, templateSites: [...templateSites, ...newTemplateSites], ...totals };
+};
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { INITIAL_SITES, TARIFF_PRESETS } from '../constants.ts';
+import { RowType, SiteData } from '../types.ts';
+import { ImportedSite, matchImportedSites, mergeImport } from './excelImport.ts';
+
+const sites = (): SiteData[] => JSON.parse(JSON.stringify(INITIAL_SITES));
+
+const importedSite = (site: SiteData, rows: ImportedSite['rows']): ImportedSite => ({ sourceRow: 2, name: site.name, meterNumber: site.meterNumber, rows });
+
+describe('mergeImport', () => {
+  it('keeps imported bill amounts of a tariff-driven cost row as manual overrides', () => {
+    const current = sites();
+    const [water, waterCost] = current[0].rows;
+    water.values.jan = 10;
+    water.tariff = TARIFF_PRESETS.find(p => p.id === 'dewa_water_residential');
+
+    const imported = importedSite(current[0], [
+      { sourceRow: 2, label: waterCost.label, type: RowType.INPUT, utility: 'water', measure: 'cost', isCost: true, unit: 'aed', values: { jan: 250 } }
+    ]);
+    const result = mergeImport(current, matchImportedSites([imported], current), 2024);
+    const merged = result.sites[0].rows.find(r => r.id === waterCost.id)!;
+
+    expect(merged.manualOverrides).toEqual({ jan: 250 });
+    expect(merged.values.jan).toBe(250);
+    expect(result.updatedValues).toBe(1);
+  });
+});
+
+describe('matchImportedSites', () => {
+  it('matches a site with several meters by any one of its meter numbers', () => {
+    const current = sites();
+    current[0].meters = [{ id: 's1_m1', number: '3934453626', utility: 'water' }, { id: 's1_m2', number: '44-551', utility: 'electricity' }];
+    current[0].meterNumber = '3934453626 / 44-551';
+
+    const [match] = matchImportedSites([{ sourceRow: 2, name: 'اسم آخر', meterNumber: ' 44-551 ', rows: [] }], current);
+
+    expect(match.existing?.id).toBe(current[0].id);
+  });
+
+  it('still matches the joined meter number of a site without a meter list', () => {
+    const current = sites();
+    delete current[0].meters;
+    current[0].meterNumber = '3934453626 / 44-551';
+
+    const [match] = matchImportedSites([{ sourceRow: 2, name: 'اسم آخر', meterNumber: '3934453626 / 44-551', rows: [] }], current);
+
+    expect(match.existing?.id).toBe(current[0].id);
+  });
+});
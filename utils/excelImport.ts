@@ -0,0 +1,326 @@
+import { SiteData, ConsumptionRow, MONTHS, MonthKey, RowType, UtilityKind, MeasureKind, UnitKey } from '../types.ts';
+import { UNITS, parseUnit } from './units.ts';
+import { TOTAL_MEASURE_LABEL, classifyNewRow, pairCostRows, parseMeasure, parseUtility } from './classification.ts';
+import { calculateSiteTotals, createEmptyMonthValues } from './calculations.ts';
+import { withMeters } from './meters.ts';
+import { getTariffCostRowIds } from './tariffs.ts';
+import { SITE_SHEET_HEADERS } from './workbook.ts';
+
+export type ImportField = 'site' | 'meterNumber' | 'label' | 'utility' | 'measure' | 'unit';
+
+export const IMPORT_FIELD_LABELS: Record<ImportField, string> = {
+  site: 'الموقع',
+  meterNumber: 'رقم العداد',
+  label: 'نوع الاستهلاك',
+  utility: 'الخدمة',
+  measure: 'نوع القيمة',
+  unit: 'الوحدة'
+};
+
+// Fields without which nothing can be imported
+export const REQUIRED_IMPORT_FIELDS: ImportField[] = ['site', 'label'];
+
+// Column indexes (0-based) of each field; null when the sheet does not have it
+export interface ColumnMapping {
+  headerRow: number; // 0-based; data starts on the next row
+  fields: Record<ImportField, number | null>;
+  months: Record<MonthKey, number | null>;
+}
+
+export interface ImportedRow {
+  sourceRow: number; // 1-based, as shown in Excel
+  id?: string; // Known when the file was exported by this system (CSV)
+  label: string;
+  type: RowType;
+  utility: UtilityKind;
+  measure: MeasureKind;
+  isCost: boolean;
+  unit?: UnitKey;
+  values: Partial<Record<MonthKey, number>>; // Only the months that have a value in the file
+}
+
+export interface ImportedSite {
+  sourceRow: number;
+  id?: string;
+  name: string;
+  meterNumber: string;
+  rows: ImportedRow[];
+}
+
+export interface ImportIssue {
+  row: number; // 1-based sheet row
+  message: string;
+}
+
+export interface ImportPreview {
+  sites: ImportedSite[];
+  issues: ImportIssue[];
+}
+
+export interface ImportMatch {
+  imported: ImportedSite;
+  existing: SiteData | null; // null: the site is added as a new site
+}
+
+export interface ImportResult {
+  sites: SiteData[];
+  matchedSites: number;
+  newSites: number;
+  updatedValues: number;
+  addedRows: number;
+}
+
+type SheetRows = unknown[][];
+
+const normalizeHeader = (value: unknown) => String(value ?? '').trim().toLowerCase();
+
+// Month headers: the Arabic label, or the English name / abbreviation
+const matchMonth = (header: string): MonthKey | undefined =>
+  MONTHS.find(m => header === m.label || (header.length >= 3 && (m.key.startsWith(header) || header.startsWith(m.key))))?.key;
+
+// Layout of the files exported by this system (and of the old fixed-column import)
+const defaultMapping = (): ColumnMapping => {
+  const months = {} as Record<MonthKey, number | null>;
+  MONTHS.forEach((m, i) => months[m.key] = 3 + i);
+  const column = (header: string) => SITE_SHEET_HEADERS.indexOf(header);
+  return {
+    headerRow: 0,
+    fields: { site: 0, meterNumber: 1, label: 2, utility: column('الخدمة'), measure: column('نوع القيمة'), unit: column('الوحدة') },
+    months
+  };
+};
+
+/**
+ * Guesses the mapping from the header row: the row among the first ten with the most month headers.
+ * Falls back to the fixed layout of the exported files.
+ */
+export const detectColumnMapping = (rows: SheetRows): ColumnMapping => {
+  let best = { row: -1, months: 0 };
+  rows.slice(0, 10).forEach((row, r) => {
+    const count = (row || []).filter(cell => matchMonth(normalizeHeader(cell))).length;
+    if (count > best.months) best = { row: r, months: count };
+  });
+  if (best.months < 3) return defaultMapping();
+
+  const headers = (rows[best.row] || []).map(normalizeHeader);
+  const find = (...names: string[]) => {
+    const index = headers.findIndex(h => names.some(name => h === name.toLowerCase()));
+    return index === -1 ? null : index;
+  };
+  const months = {} as Record<MonthKey, number | null>;
+  MONTHS.forEach(m => {
+    const index = headers.findIndex(h => matchMonth(h) === m.key);
+    months[m.key] = index === -1 ? null : index;
+  });
+
+  return {
+    headerRow: best.row,
+    fields: {
+      site: find('الموقع', 'site'),
+      meterNumber: find('رقم العداد', 'meter', 'meter number'),
+      label: find('نوع الاستهلاك', 'البند', 'item', 'label'),
+      utility: find('الخدمة', 'utility'),
+      measure: find('نوع القيمة', 'measure'),
+      unit: find('الوحدة', 'unit')
+    },
+    months
+  };
+};
+
+export const mappingErrors = (mapping: ColumnMapping): string[] => {
+  const errors = REQUIRED_IMPORT_FIELDS.filter(field => mapping.fields[field] === null).map(field => `لم يتم تحديد عمود "${IMPORT_FIELD_LABELS[field]}".`);
+  if (MONTHS.every(m => mapping.months[m.key] === null)) errors.push('لم يتم تحديد أي عمود للأشهر.');
+  return errors;
+};
+
+const cellText = (row: unknown[], column: number | null) => column === null ? '' : String(row[column] ?? '').trim();
+
+// Numbers may come as text, e.g. "1,250.5"; empty cells are skipped rather than read as zero
+const parseCellValue = (value: unknown): number | null | undefined => {
+  if (value === undefined || value === null || value === '') return undefined;
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  const text = String(value).replace(/,/g, '').trim();
+  if (text === '' || text === '-') return undefined;
+  const number = Number(text);
+  return Number.isFinite(number) ? number : null;
+};
+
+// Reads the sheet rows with the given mapping. Cells that cannot be read are reported and skipped.
+export const parseImportRows = (rows: SheetRows, mapping: ColumnMapping): ImportPreview => {
+  const sites: ImportedSite[] = [];
+  const issues: ImportIssue[] = [];
+  let currentSite: ImportedSite | null = null;
+
+  for (let i = mapping.headerRow + 1; i < rows.length; i++) {
+    const row = rows[i];
+    const sourceRow = i + 1;
+    if (!row || row.every(cell => cell === undefined || cell === null || String(cell).trim() === '')) continue;
+
+    const siteName = cellText(row, mapping.fields.site);
+    const label = cellText(row, mapping.fields.label);
+
+    // The grand total rows at the bottom of an exported sheet
+    if (siteName && !label && /^(ال)?إجمالي/.test(siteName)) {
+      currentSite = null;
+      continue;
+    }
+    if (siteName) {
+      currentSite = { sourceRow, name: siteName, meterNumber: cellText(row, mapping.fields.meterNumber), rows: [] };
+      sites.push(currentSite);
+    }
+    if (!label) {
+      if (!siteName) issues.push({ row: sourceRow, message: 'صف بدون اسم بند، تم تجاهله.' });
+      continue;
+    }
+    if (!currentSite) {
+      issues.push({ row: sourceRow, message: `البند "${label}" لا يتبع أي موقع، تم تجاهله.` });
+      continue;
+    }
+
+    // Files exported by this system carry the classification; other files fall back to the label wording
+    const measureCell = cellText(row, mapping.fields.measure);
+    const isTotal = measureCell
+      ? measureCell === TOTAL_MEASURE_LABEL
+      : label.includes('إجمالي') || label.includes('Total');
+    const classification = classifyNewRow(label, parseMeasure(measureCell) || (isTotal ? 'cost' : undefined));
+
+    const values: Partial<Record<MonthKey, number>> = {};
+    MONTHS.forEach(m => {
+      const column = mapping.months[m.key];
+      if (column === null) return;
+      const value = parseCellValue(row[column]);
+      if (value === null) {
+        issues.push({ row: sourceRow, message: `قيمة غير رقمية في شهر ${m.label}: "${row[column]}"` });
+      } else if (value !== undefined && value < 0) {
+        issues.push({ row: sourceRow, message: `قيمة سالبة في شهر ${m.label}: ${value}` });
+      } else if (value !== undefined) {
+        values[m.key] = value;
+      }
+    });
+
+    currentSite.rows.push({
+      sourceRow,
+      label,
+      type: isTotal ? RowType.CALCULATED_TOTAL : RowType.INPUT,
+      utility: parseUtility(cellText(row, mapping.fields.utility)) || (isTotal ? 'other' : classification.utility),
+      measure: classification.measure,
+      isCost: !isTotal && classification.isCost,
+      unit: parseUnit(cellText(row, mapping.fields.unit)) || classification.unit,
+      values
+    });
+  }
+
+  sites.filter(site => site.rows.length === 0).forEach(site => issues.push({ row: site.sourceRow, message: `الموقع "${site.name}" بدون بنود.` }));
+
+  const seenMeters = new Map<string, ImportedSite>();
+  sites.forEach(site => {
+    const meter = normalizeMeter(site.meterNumber);
+    if (!meter) return;
+    const first = seenMeters.get(meter);
+    if (first) issues.push({ row: site.sourceRow, message: `رقم العداد ${site.meterNumber} مكرر (الموقع "${first.name}" في الصف ${first.sourceRow}).` });
+    else seenMeters.set(meter, site);
+  });
+
+  return { sites: sites.filter(site => site.rows.length > 0), issues: issues.sort((a, b) => a.row - b.row) };
+};
+
+const normalizeMeter = (meter: string | undefined) => String(meter ?? '').replace(/\s/g, '').toLowerCase();
+
+// Each meter number of a site, plus the joined `meterNumber` (the only one on sites saved before meter lists)
+const siteMeterKeys = (site: SiteData): string[] =>
+  [...(site.meters || []).map(m => m.number), site.meterNumber].map(normalizeMeter).filter(Boolean);
+
+// A file line may carry one meter number or several joined with " / ", as exported
+const importedMeterKeys = (meterNumber: string): string[] =>
+  [meterNumber, ...meterNumber.split('/')].map(normalizeMeter).filter(Boolean);
+
+/**
+ * Finds the existing site of every imported site: by ID when the file has one, then by any of its meter numbers,
+ * or by name when one of the two has no meter number. Matched sites keep their ID, so their history in other years stays linked.
+ */
+export const matchImportedSites = (imported: ImportedSite[], existing: SiteData[]): ImportMatch[] => {
+  return imported.map(site => {
+    const byId = site.id ? existing.find(s => s.id === site.id) : undefined;
+    if (byId) return { imported: site, existing: byId };
+    const meters = importedMeterKeys(site.meterNumber);
+    const byMeter = meters.length > 0 ? existing.find(s => siteMeterKeys(s).some(key => meters.includes(key))) : undefined;
+    const byName = existing.find(s => (meters.length === 0 || siteMeterKeys(s).length === 0) && s.name.trim() === site.name);
+    return { imported: site, existing: byMeter || byName || null };
+  });
+};
+
+const toConsumptionRow = (row: ImportedRow, id: string): ConsumptionRow => ({
+  id,
+  label: row.label,
+  type: row.type,
+  utility: row.utility,
+  measure: row.measure,
+  isCost: row.isCost,
+  unit: row.unit && UNITS[row.unit] ? row.unit : undefined,
+  values: { ...createEmptyMonthValues(), ...row.values },
+  attachments: []
+});
+
+// The existing row an imported row updates: the same ID or label, or else the only input row of the same utility and measure
+export const findMatchingRow = (rows: ConsumptionRow[], imported: ImportedRow) => {
+  const byId = imported.id ? rows.find(r => r.type === RowType.INPUT && r.id === imported.id) : undefined;
+  if (byId) return byId;
+  const byLabel = rows.find(r => r.type === RowType.INPUT && r.label.trim() === imported.label);
+  if (byLabel) return byLabel;
+  const candidates = rows.filter(r => r.type === RowType.INPUT && r.utility === imported.utility && r.measure === imported.measure);
+  return candidates.length === 1 ? candidates[0] : undefined;
+};
+
+/**
+ * Merges the imported values into the sites of the year. Only months with a value in the file are
+ * overwritten; other sites, rows and months are left as they are. Total rows are recalculated.
+ * On cost rows calculated by a tariff the imported amounts become manual overrides, like amounts typed into the table.
+ */
+export const mergeImport = (current: SiteData[], matches: ImportMatch[], year: number): ImportResult => {
+  const timestamp = Date.now();
+  const result: ImportResult = { sites: [...current], matchedSites: 0, newSites: 0, updatedValues: 0, addedRows: 0 };
+
+  matches.forEach(({ imported, existing }, siteIndex) => {
+    const index = existing ? result.sites.findIndex(s => s.id === existing.id) : -1;
+
+    if (index === -1) {
+      // The file only has the joined meter number, so a new site starts with one meter holding all its rows
+      const [site] = withMeters([{
+        id: imported.id || `site_imp_${timestamp}_${siteIndex}`,
+        name: imported.name,
+        meterNumber: imported.meterNumber,
+        startYear: year,
+        rows: calculateSiteTotals(pairCostRows(imported.rows.map(row => toConsumptionRow(row, row.id || `r_imp_${timestamp}_${row.sourceRow}`))))
+      }]);
+      result.sites.push(site);
+      result.newSites++;
+      return;
+    }
+
+    const site = { ...result.sites[index] };
+    let rows = [...site.rows];
+    imported.rows.filter(row => row.type === RowType.INPUT).forEach(row => {
+      const target = findMatchingRow(rows, row);
+      if (!target) {
+        // Added rows go under the site's meter when it has only one; otherwise they are linked by hand
+        const meterId = site.meters?.length === 1 ? site.meters[0].id : undefined;
+        rows.push({ ...toConsumptionRow(row, row.id && !rows.some(r => r.id === row.id) ? row.id : `r_imp_${timestamp}_${row.sourceRow}`), meterId });
+        result.addedRows++;
+        return;
+      }
+      const changed = (Object.keys(row.values) as MonthKey[]).filter(key => target.values[key] !== row.values[key]);
+      if (changed.length === 0) return;
+      const updated = getTariffCostRowIds(rows).has(target.id)
+        ? { ...target, manualOverrides: { ...target.manualOverrides, ...row.values } }
+        : { ...target, values: { ...target.values, ...row.values } };
+      rows = rows.map(r => r === target ? updated : r);
+      result.updatedValues += changed.length;
+    });
+
+    site.rows = calculateSiteTotals(pairCostRows(rows));
+    result.sites[index] = site;
+    result.matchedSites++;
+  });
+
+  return result;
+};
@@ -0,0 +1,47 @@
+// Undo/redo stack of whole-workspace snapshots. The state objects are immutable, so a snapshot
+// only holds references and is cheap to keep.
+
+export const HISTORY_LIMIT = 100;
+
+// Changes closer together than this (e.g. typing a number into a cell) are undone as one step
+export const HISTORY_COALESCE_MS = 1000;
+
+export interface HistoryEntry<T> {
+  snapshot: T;
+  year: number; // The year on screen when the change was made, shown again on undo/redo
+}
+
+export interface UndoStack<T> {
+  past: HistoryEntry<T>[];
+  future: HistoryEntry<T>[];
+}
+
+// The stack after an undo/redo step, and the entry to restore; null when there is nothing to undo/redo
+export type HistoryStep<T> = { stack: UndoStack<T>; entry: HistoryEntry<T> } | null;
+
+export const createUndoStack = <T>(): UndoStack<T> => ({ past: [], future: [] });
+
+// Records the state before a change. A new change always discards the redo branch.
+export const recordChange = <T>(stack: UndoStack<T>, previous: HistoryEntry<T>, coalesce: boolean): UndoStack<T> => ({
+  past: coalesce && stack.past.length > 0 ? stack.past : [...stack.past, previous].slice(-HISTORY_LIMIT),
+  future: []
+});
+
+export const undo = <T>(stack: UndoStack<T>, current: HistoryEntry<T>): HistoryStep<T> => {
+  const entry = stack.past[stack.past.length - 1];
+  if (!entry) return null;
+  // Redo returns to the current state, in the year of the change being undone
+  return {
+    stack: { past: stack.past.slice(0, -1), future: [{ ...current, year: entry.year }, ...stack.future] },
+    entry
+  };
+};
+
+export const redo = <T>(stack: UndoStack<T>, current: HistoryEntry<T>): HistoryStep<T> => {
+  const [entry, ...future] = stack.future;
+  if (!entry) return null;
+  return {
+    stack: { past: [...stack.past, { ...current, year: entry.year }].slice(-HISTORY_LIMIT), future },
+    entry
+  };
+};
@@ -0,0 +1,61 @@
+import { ConsumptionRow, Meter, RowType, SiteData, UtilityKind } from '../types.ts';
+import { UTILITIES } from './classification.ts';
+
+// `site.meterNumber` keeps all meter numbers in one string, so exports, import matching and search see every meter
+export const joinMeterNumbers = (meters: Meter[]): string => meters.map(m => m.number.trim()).filter(Boolean).join(' / ');
+
+// Name of a meter in pickers; meters without a number are told apart by their position
+export const meterLabel = (meter: Meter, index: number): string => meter.number.trim() || `عداد ${index + 1}`;
+
+// Utility and provider under a meter number; empty for a shared meter without a provider
+export const describeMeter = (meter: Meter): string =>
+  [meter.utility !== 'other' ? UTILITIES[meter.utility].label : '', meter.provider].filter(Boolean).join(' · ');
+
+// Audit log / summary text: "3934453626 (كهرباء)، t0012704 (ماء)"
+export const formatMeters = (meters: Meter[] = []): string =>
+  meters.map(m => `${m.number.trim() || '—'} (${UTILITIES[m.utility].label})`).join('، ');
+
+// The utility a site's only meter measures: the one all its input rows share, otherwise 'other' (a shared meter)
+const sharedUtility = (rows: ConsumptionRow[]): UtilityKind => {
+  const utilities = new Set<UtilityKind>(rows.filter(r => r.type === RowType.INPUT).map(r => r.utility));
+  return utilities.size === 1 ? [...utilities][0] : 'other';
+};
+
+// Migration: a site without a meter list gets one meter holding its meter number, and its input rows are linked to it
+export const withMeters = (sites: SiteData[]): SiteData[] => {
+  return sites.map(site => {
+    if (site.meters) return site;
+    const meter: Meter = { id: `${site.id}_m1`, number: site.meterNumber || '', utility: sharedUtility(site.rows) };
+    return {
+      ...site,
+      meters: [meter],
+      rows: site.rows.map(row => row.type === RowType.INPUT && !row.meterId ? { ...row, meterId: meter.id } : row)
+    };
+  });
+};
+
+export interface MeterRowGroup {
+  meter?: Meter; // Missing on the group of rows without a (known) meter and on the total row
+  isTotal: boolean;
+  rows: { row: ConsumptionRow; rowIndex: number }[]; // rowIndex: position in `site.rows`, which the edit handlers use
+}
+
+/**
+ * The site's rows in display order: one group per meter (in the order of `site.meters`, empty meters included),
+ * then input rows linked to no meter or to a removed one, then the calculated total row.
+ */
+export const groupRowsByMeter = (site: SiteData): MeterRowGroup[] => {
+  const meters = site.meters || [];
+  const indexed = site.rows.map((row, rowIndex) => ({ row, rowIndex }));
+  const inputs = indexed.filter(({ row }) => row.type === RowType.INPUT);
+  const isKnown = (meterId?: string) => !!meterId && meters.some(m => m.id === meterId);
+
+  const groups: MeterRowGroup[] = meters.map(meter => ({ meter, isTotal: false, rows: inputs.filter(({ row }) => row.meterId === meter.id) }));
+  const unassigned = inputs.filter(({ row }) => !isKnown(row.meterId));
+  if (unassigned.length > 0) groups.push({ isTotal: false, rows: unassigned });
+  const totals = indexed.filter(({ row }) => row.type === RowType.CALCULATED_TOTAL);
+  if (totals.length > 0) groups.push({ isTotal: true, rows: totals });
+
+  // A meter without rows this year is kept, so the table can offer to add its first row
+  return groups;
+};
@@ -0,0 +1,56 @@
+import { jsPDF } from 'jspdf';
+import html2canvas from 'html2canvas';
+import { SiteData, MonthKey, UtilityKind } from '../types.ts';
+import { calculateGrandTotals, calculateHorizontalTotal } from './calculations.ts';
+import { calculateConsumptionTotals } from './classification.ts';
+
+// Report pages are laid out at the pixel size of an A4 landscape page (96 dpi), then captured as images
+export const REPORT_PAGE_SIZE = { width: 1123, height: 794 };
+const A4_LANDSCAPE_MM = { width: 297, height: 210 };
+
+// Rows per page of the long tables (site totals, attached bills)
+export const REPORT_TABLE_ROWS_PER_PAGE = 18;
+
+export const chunk = <T>(items: T[], size: number): T[][] => {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) chunks.push(items.slice(i, i + size));
+  return chunks;
+};
+
+export interface SiteReportTotals {
+  site: SiteData;
+  cost: number;
+  consumption: Partial<Record<UtilityKind, number>>; // In the canonical unit of each utility
+}
+
+export const buildSiteReportTotals = (sites: SiteData[]): SiteReportTotals[] => {
+  return sites.map(site => {
+    const consumption: Partial<Record<UtilityKind, number>> = {};
+    const totals = calculateConsumptionTotals([site]);
+    (Object.keys(totals) as UtilityKind[]).forEach(utility => {
+      consumption[utility] = calculateHorizontalTotal(totals[utility] as Record<MonthKey, number>);
+    });
+    return { site, cost: calculateHorizontalTotal(calculateGrandTotals([site])), consumption };
+  });
+};
+
+// File names may not contain path separators and the like
+export const reportFileName = (year: number, siteName?: string) =>
+  `Saher_Report_${year}${siteName ? `_${siteName.replace(/[\\/:*?"<>|\s]+/g, '_')}` : ''}.pdf`;
+
+/**
+ * Captures every page element and downloads them as one PDF.
+ * The pages must already be rendered (fonts loaded, charts drawn) when this is called.
+ */
+export const downloadPagesAsPdf = async (pages: HTMLElement[], fileName: string, onProgress?: (done: number) => void) => {
+  const pdf = new jsPDF({ orientation: 'landscape', unit: 'mm', format: 'a4', compress: true });
+
+  for (let i = 0; i < pages.length; i++) {
+    const canvas = await html2canvas(pages[i], { scale: 2, backgroundColor: '#ffffff', logging: false });
+    if (i > 0) pdf.addPage();
+    pdf.addImage(canvas.toDataURL('image/jpeg', 0.92), 'JPEG', 0, 0, A4_LANDSCAPE_MM.width, A4_LANDSCAPE_MM.height);
+    onProgress?.(i + 1);
+  }
+
+  pdf.save(fileName);
+};
@@ -0,0 +1,50 @@
+import { MONTHS, MonthKey } from '../types.ts';
+import { safeFloat } from './calculations.ts';
+
+// Aggregate columns that can be shown next to the months
+export type PeriodKey = 'q1' | 'q2' | 'q3' | 'q4' | 'h1' | 'h2' | 'ytd';
+
+export const PERIODS: { key: PeriodKey; label: string; title: string }[] = [
+  { key: 'q1', label: 'الربع 1', title: 'الربع الأول (يناير - مارس)' },
+  { key: 'q2', label: 'الربع 2', title: 'الربع الثاني (أبريل - يونيو)' },
+  { key: 'q3', label: 'الربع 3', title: 'الربع الثالث (يوليو - سبتمبر)' },
+  { key: 'q4', label: 'الربع 4', title: 'الربع الرابع (أكتوبر - ديسمبر)' },
+  { key: 'h1', label: 'النصف 1', title: 'النصف الأول (يناير - يونيو)' },
+  { key: 'h2', label: 'النصف 2', title: 'النصف الثاني (يوليو - ديسمبر)' },
+  { key: 'ytd', label: 'حتى تاريخه', title: 'منذ بداية السنة حتى الشهر الحالي' }
+];
+
+const PERIOD_MONTH_RANGES: Record<Exclude<PeriodKey, 'ytd'>, [number, number]> = {
+  q1: [0, 2],
+  q2: [3, 5],
+  q3: [6, 8],
+  q4: [9, 11],
+  h1: [0, 5],
+  h2: [6, 11]
+};
+
+// Last month included in the year-to-date column: December for past years, the current month for the current year
+export const ytdMonthIndex = (year: number, today: Date = new Date()): number => {
+  if (year < today.getFullYear()) return MONTHS.length - 1;
+  if (year > today.getFullYear()) return -1;
+  return today.getMonth();
+};
+
+// Indexes (into MONTHS) of the months a period covers, in order
+export const periodMonthIndexes = (period: PeriodKey, year: number): number[] => {
+  const [first, last] = period === 'ytd' ? [0, ytdMonthIndex(year)] : PERIOD_MONTH_RANGES[period];
+  const indexes: number[] = [];
+  for (let i = first; i <= last; i++) indexes.push(i);
+  return indexes;
+};
+
+export const calculatePeriodTotal = (values: Record<MonthKey, number>, period: PeriodKey, year: number): number => {
+  const sum = periodMonthIndexes(period, year).reduce((total, i) => total + values[MONTHS[i].key], 0);
+  return safeFloat(sum);
+};
+
+// Keeps the columns in their natural order and drops unknown keys (e.g. from an older stored setting)
+export const normalizePeriods = (periods: unknown): PeriodKey[] => {
+  if (!Array.isArray(periods)) return [];
+  return PERIODS.map(p => p.key).filter(key => periods.includes(key));
+};
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { INITIAL_SITES } from '../constants.ts';
+import { SiteData } from '../types.ts';
+import { applyReadings, carryReadingsForward, evaluateReadings, rolloverCapacity } from './readings.ts';
+
+// The first site with its water row (s1_r1) in reading mode
+const siteWithReadings = (readings: NonNullable<SiteData['rows'][number]['readings']>): SiteData => {
+  const site: SiteData = JSON.parse(JSON.stringify(INITIAL_SITES[0]));
+  site.rows[0].readings = readings;
+  return site;
+};
+
+describe('evaluateReadings', () => {
+  it('flags a rollover when the register digits are not known', () => {
+    const results = evaluateReadings({ jan: { opening: 99990, closing: 10, rollover: true } });
+
+    expect(results.jan.consumption).toBe(0);
+    expect(results.jan.issue).toBeDefined();
+  });
+
+  it('counts a rollover up to the capacity of the register', () => {
+    const results = evaluateReadings({ jan: { opening: 99990, closing: 10, rollover: true } }, undefined, 100000);
+
+    expect(results.jan.consumption).toBe(20);
+    expect(results.jan.issue).toBeUndefined();
+  });
+
+  it('flags a reading lower than the one before it', () => {
+    const results = evaluateReadings({ jan: { opening: 500, closing: 120 } }, undefined, 100000);
+
+    expect(results.jan.consumption).toBe(0);
+    expect(results.jan.issue).toBeDefined();
+  });
+});
+
+describe('carryReadingsForward', () => {
+  it('carries a changed closing reading through every later year', () => {
+    const byYear = (dec: number): Record<number, SiteData[]> => ({
+      2023: [siteWithReadings({ dec: { closing: dec } })],
+      2024: [siteWithReadings({})], // No readings yet: passed through
+      2025: [siteWithReadings({ jan: { closing: 1200 } })]
+    });
+    const stale = byYear(1000);
+    stale[2025][0].rows[0] = applyReadings(stale[2025][0].rows[0], 1000);
+    expect(stale[2025][0].rows[0].values.jan).toBe(200);
+
+    const next = carryReadingsForward({ ...stale, 2023: byYear(1100)[2023] }, 2023);
+
+    expect(next[2025][0].rows[0].values.jan).toBe(100);
+  });
+});
+
+describe('rolloverCapacity', () => {
+  it('comes from the digits set on the row meter', () => {
+    const site = siteWithReadings({});
+    expect(rolloverCapacity(site, site.rows[0])).toBeUndefined();
+
+    site.meters![0].rolloverDigits = 5;
+    expect(rolloverCapacity(site, site.rows[0])).toBe(100000);
+  });
+});
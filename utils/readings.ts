@@ -0,0 +1,133 @@
+import { ConsumptionRow, MeterReading, MONTHS, MonthKey, SiteData } from '../types.ts';
+import { calculateSiteTotals, formatNumber, safeFloat } from './calculations.ts';
+
+// A row is in reading mode as soon as it has a `readings` record, even an empty one
+export const isReadingRow = (row: ConsumptionRow): boolean => !!row.readings;
+
+export interface MonthReadingResult {
+  opening?: number; // The month's own opening reading, or the previous closing reading it continues from
+  carried: boolean; // `opening` was taken from the previous month (or year)
+  derived: boolean; // The month's value comes from the readings; false before the first reading of the year
+  consumption: number;
+  issue?: string;
+}
+
+// The reading a row's register restarts at (100000 on a 5-digit register), from the digits set on its meter.
+// Undefined when they are not set: a rollover is then not counted, since guessing it from the readings would turn a
+// meter replacement or a corrected reading into a huge consumption.
+export const rolloverCapacity = (site: SiteData, row: ConsumptionRow): number | undefined => {
+  const digits = site.meters?.find(m => m.id === row.meterId)?.rolloverDigits;
+  return digits ? Math.pow(10, digits) : undefined;
+};
+
+export const lastClosingReading = (row?: ConsumptionRow): number | undefined => {
+  const month = [...MONTHS].reverse().find(m => row?.readings?.[m.key]?.closing !== undefined);
+  return month ? row!.readings![month.key]!.closing : undefined;
+};
+
+/**
+ * Where January of `year` continues from: the last closing reading of the same row in the previous year (normally
+ * December's). A year without readings for the row is passed through to the year before it.
+ */
+export const carriedReading = (dataByYear: Record<number, SiteData[]>, year: number, siteId: string, rowId: string): number | undefined => {
+  const earlierYears = Object.keys(dataByYear).map(Number).filter(y => y < year).sort((a, b) => b - a);
+  for (const y of earlierYears) {
+    const closing = lastClosingReading(dataByYear[y].find(s => s.id === siteId)?.rows.find(r => r.id === rowId));
+    if (closing !== undefined) return closing;
+  }
+  return undefined;
+};
+
+/**
+ * Consumption of every month from the cumulative readings. Each month continues from the previous closing reading
+ * unless it has its own opening reading. A month without a closing reading has no consumption yet; the next reading
+ * covers the gap. Months before the first reading of the year keep their typed values.
+ */
+export const evaluateReadings = (readings: Partial<Record<MonthKey, MeterReading>>, carriedOpening?: number, capacity?: number): Record<MonthKey, MonthReadingResult> => {
+  const results = {} as Record<MonthKey, MonthReadingResult>;
+  let previousClosing = carriedOpening;
+  let started = false;
+
+  MONTHS.forEach(({ key }) => {
+    const reading = readings[key] || {};
+    const opening = reading.opening ?? previousClosing;
+    started = started || reading.opening !== undefined || reading.closing !== undefined;
+    const result: MonthReadingResult = { opening, carried: reading.opening === undefined && opening !== undefined, derived: started, consumption: 0 };
+
+    if (reading.closing !== undefined) {
+      const closing = reading.closing;
+      if (opening === undefined) {
+        result.issue = 'لا توجد قراءة افتتاحية: أدخلها أو أدخل قراءة الشهر السابق.';
+      } else if (reading.replacement) {
+        const { oldClosing, newOpening } = reading.replacement;
+        if (oldClosing < opening) result.issue = `آخر قراءة للعداد القديم (${formatNumber(oldClosing)}) أقل من القراءة الافتتاحية (${formatNumber(opening)}).`;
+        else if (closing < newOpening) result.issue = `القراءة الختامية (${formatNumber(closing)}) أقل من أول قراءة للعداد الجديد (${formatNumber(newOpening)}).`;
+        else result.consumption = safeFloat(oldClosing - opening + closing - newOpening);
+      } else if (closing >= opening) {
+        result.consumption = safeFloat(closing - opening);
+      } else if (reading.rollover && capacity === undefined) {
+        result.issue = 'عدد خانات العداد غير محدد: حدده في بيانات الموقع لحساب العودة إلى الصفر.';
+      } else if (reading.rollover && opening >= capacity!) {
+        result.issue = `القراءة الافتتاحية (${formatNumber(opening)}) أكبر من سعة العداد (${formatNumber(capacity! - 1)}). تحقق من عدد خانات العداد.`;
+      } else if (reading.rollover) {
+        result.consumption = safeFloat(capacity! - opening + closing);
+      } else {
+        result.issue = `القراءة الختامية (${formatNumber(closing)}) أقل من الافتتاحية (${formatNumber(opening)}). إذا عاد العداد إلى الصفر أو استُبدل فحدد ذلك في قراءات البند.`;
+      }
+      previousClosing = closing;
+    }
+    results[key] = result;
+  });
+
+  return results;
+};
+
+// The row with its monthly values recalculated from its readings (rows not in reading mode are returned as they are)
+export const applyReadings = (row: ConsumptionRow, carriedOpening?: number, capacity?: number): ConsumptionRow => {
+  if (!row.readings) return row;
+  const results = evaluateReadings(row.readings, carriedOpening, capacity);
+  const values = { ...row.values };
+  MONTHS.forEach(({ key }) => {
+    if (results[key].derived) values[key] = results[key].consumption;
+  });
+  return MONTHS.some(m => values[m.key] !== row.values[m.key]) ? { ...row, values } : row;
+};
+
+// Sets one month's reading, dropping months left without any reading
+export const setMonthReading = (readings: Partial<Record<MonthKey, MeterReading>> = {}, month: MonthKey, reading: MeterReading): Partial<Record<MonthKey, MeterReading>> => {
+  const next = { ...readings };
+  const cleaned = Object.fromEntries(Object.entries(reading).filter(([, value]) => value !== undefined && value !== false)) as MeterReading;
+  if (Object.keys(cleaned).length > 0) {
+    next[month] = cleaned;
+  } else {
+    delete next[month];
+  }
+  return next;
+};
+
+// The sites of `year` with their reading rows recalculated; the same array when nothing changed
+const recalculateYearReadings = (dataByYear: Record<number, SiteData[]>, year: number): SiteData[] => {
+  const sites = dataByYear[year];
+  let changed = false;
+  const next = sites.map(site => {
+    if (!site.rows.some(isReadingRow)) return site;
+    const rows = site.rows.map(row => applyReadings(row, carriedReading(dataByYear, year, site.id, row.id), rolloverCapacity(site, row)));
+    if (rows.every((row, i) => row === site.rows[i])) return site;
+    changed = true;
+    return { ...site, rows: calculateSiteTotals(rows) };
+  });
+  return changed ? next : sites;
+};
+
+/**
+ * Recalculates the reading rows of every year after `changedYear` (of every year when it is not given), oldest first,
+ * since each January continues from the last reading before it. Returns `dataByYear` itself when nothing changed.
+ */
+export const carryReadingsForward = (dataByYear: Record<number, SiteData[]>, changedYear = -Infinity): Record<number, SiteData[]> => {
+  let next = dataByYear;
+  Object.keys(dataByYear).map(Number).filter(year => year > changedYear).sort((a, b) => a - b).forEach(year => {
+    const sites = recalculateYearReadings(next, year);
+    if (sites !== next[year]) next = { ...next, [year]: sites };
+  });
+  return next;
+};
@@ -0,0 +1,20 @@
+// Pages that have their own address. Everything else (table, dashboard, comparison) lives at the root.
+export type AppRoute = { page: 'main' } | { page: 'site'; siteId: string };
+
+export interface AppLocation {
+  route: AppRoute;
+  year?: number; // Only part of the address on pages that show one year
+}
+
+const SITE_PATH = /^\/site\/([^/]+)\/(\d{4})\/?$/;
+
+export const parseLocation = (pathname: string): AppLocation => {
+  const match = SITE_PATH.exec(pathname);
+  if (match) return { route: { page: 'site', siteId: decodeURIComponent(match[1]) }, year: Number(match[2]) };
+  return { route: { page: 'main' } };
+};
+
+export const buildPath = (route: AppRoute, year: number): string => {
+  if (route.page === 'site') return `/site/${encodeURIComponent(route.siteId)}/${year}`;
+  return '/';
+};
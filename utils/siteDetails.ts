@@ -0,0 +1,22 @@
+import { SiteData } from '../types.ts';
+
+export type SiteDetailField = 'emirate' | 'address' | 'provider' | 'accountNumber' | 'premisesNumber' | 'landlord' | 'contactName' | 'contactPhone' | 'contactEmail';
+
+// In the order of the settings panel and of the exported columns
+export const SITE_DETAIL_FIELDS: { key: SiteDetailField; label: string; ltr?: boolean }[] = [
+  { key: 'emirate', label: 'الإمارة' },
+  { key: 'address', label: 'العنوان' },
+  { key: 'provider', label: 'مزود الخدمة' },
+  { key: 'accountNumber', label: 'رقم الحساب', ltr: true },
+  { key: 'premisesNumber', label: 'رقم المبنى / العقار', ltr: true },
+  { key: 'landlord', label: 'المالك' },
+  { key: 'contactName', label: 'مسؤول المرفق' },
+  { key: 'contactPhone', label: 'هاتف المسؤول', ltr: true },
+  { key: 'contactEmail', label: 'البريد الإلكتروني للمسؤول', ltr: true }
+];
+
+export const EMIRATES = ['أبوظبي', 'دبي', 'الشارقة', 'عجمان', 'أم القيوين', 'رأس الخيمة', 'الفجيرة'];
+
+// Distinct non-empty values of a field across sites, for filters and suggestions
+export const distinctDetailValues = (sites: SiteData[], field: SiteDetailField): string[] =>
+  [...new Set<string>(sites.map(s => s[field]?.trim() || '').filter(Boolean))].sort((a, b) => a.localeCompare(b, 'ar'));
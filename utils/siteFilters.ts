@@ -0,0 +1,73 @@
+import { SiteData, MONTHS, MonthKey, RowType, UtilityKind } from '../types.ts';
+import { calculateGrandTotals, calculateHorizontalTotal } from './calculations.ts';
+
+export type SiteSortKey = 'table' | 'cost_desc' | 'cost_asc' | 'name' | 'start_year';
+
+export const SITE_SORT_LABELS: Record<SiteSortKey, string> = {
+  table: 'ترتيب الجدول',
+  cost_desc: 'التكلفة السنوية (الأعلى أولاً)',
+  cost_asc: 'التكلفة السنوية (الأقل أولاً)',
+  name: 'اسم الموقع',
+  start_year: 'سنة الإضافة'
+};
+
+export interface SiteFilters {
+  search: string; // Site name, meter, account or premises number
+  utility: UtilityKind | '';
+  emirate: string;
+  provider: string; // The site's provider, the provider of one of its meters, or of a tariff linked to one of its rows
+  missingMonthsOnly: boolean;
+  sort: SiteSortKey;
+}
+
+export const DEFAULT_SITE_FILTERS: SiteFilters = { search: '', utility: '', emirate: '', provider: '', missingMonthsOnly: false, sort: 'table' };
+
+// Whether the filters hide any site (sorting alone does not)
+export const isFiltering = (filters: SiteFilters) =>
+  filters.search.trim() !== '' || filters.utility !== '' || filters.emirate !== '' || filters.provider !== '' || filters.missingMonthsOnly;
+
+export const siteProviders = (site: SiteData): string[] =>
+  [...new Set<string>([
+    site.provider?.trim() || '',
+    ...(site.meters || []).map(m => m.provider?.trim() || ''),
+    ...site.rows.map(r => r.tariff?.provider.trim() || '')
+  ].filter(Boolean))];
+
+/**
+ * Months up to `lastExpectedMonthIndex` that are still empty for the site.
+ * Only rows that hold a value in some month of the year are considered, so unused rows do not flag every month.
+ * A site without any value at all is missing every expected month.
+ */
+export const missingMonths = (site: SiteData, lastExpectedMonthIndex: number): MonthKey[] => {
+  const expected = MONTHS.slice(0, lastExpectedMonthIndex + 1).map(m => m.key);
+  const usedRows = site.rows.filter(r => r.type === RowType.INPUT && MONTHS.some(m => r.values[m.key] !== 0));
+  if (usedRows.length === 0) return expected;
+  return expected.filter(month => usedRows.some(r => r.values[month] === 0));
+};
+
+/**
+ * Indexes (into `sites`) of the sites that pass the filters, in display order.
+ * Indexes rather than sites, because the table edits sites by their position in the year's data.
+ */
+export const applySiteFilters = (sites: SiteData[], filters: SiteFilters, lastExpectedMonthIndex: number): number[] => {
+  const term = filters.search.trim().toLowerCase();
+  const indexes = sites.map((_, i) => i).filter(i => {
+    const site = sites[i];
+    if (term && ![site.name, site.meterNumber, site.accountNumber, site.premisesNumber].some(v => v?.toLowerCase().includes(term))) return false;
+    if (filters.utility && !site.rows.some(r => r.type === RowType.INPUT && r.utility === filters.utility)) return false;
+    if (filters.emirate && site.emirate !== filters.emirate) return false;
+    if (filters.provider && !siteProviders(site).includes(filters.provider)) return false;
+    if (filters.missingMonthsOnly && missingMonths(site, lastExpectedMonthIndex).length === 0) return false;
+    return true;
+  });
+
+  if (filters.sort === 'table') return indexes;
+  const annualCost = (i: number) => calculateHorizontalTotal(calculateGrandTotals([sites[i]]));
+  const compare: Record<Exclude<SiteSortKey, 'table'>, (a: number, b: number) => number> = {
+    cost_desc: (a, b) => annualCost(b) - annualCost(a),
+    cost_asc: (a, b) => annualCost(a) - annualCost(b),
+    name: (a, b) => sites[a].name.localeCompare(sites[b].name, 'ar'),
+    start_year: (a, b) => (sites[a].startYear || 0) - (sites[b].startYear || 0)
+  };
+  return [...indexes].sort(compare[filters.sort]);
+};
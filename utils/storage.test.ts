@@ -0,0 +1,47 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { STORAGE_KEYS, isLockedResult, loadStoredValue, loadedCleanly, serializeEnvelope } from './storage.ts';
+
+// Minimal localStorage; `failWrites` makes every write throw, like a full storage
+const stubStorage = (items: Record<string, string>, { failReads = false, failWrites = false } = {}) => {
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => {
+      if (failReads) throw new Error('SecurityError');
+      return items[key] ?? null;
+    },
+    setItem: (key: string, value: string) => {
+      if (failWrites) throw new Error('QuotaExceededError');
+      items[key] = value;
+    },
+    removeItem: (key: string) => { delete items[key]; }
+  });
+};
+
+afterEach(() => vi.unstubAllGlobals());
+
+describe('loadStoredValue', () => {
+  it('loads valid data cleanly', () => {
+    stubStorage({ [STORAGE_KEYS.DATA]: serializeEnvelope({ 2024: [] }) });
+    const result = loadStoredValue(STORAGE_KEYS.DATA, 'years');
+
+    expect(result.status).toBe('ok');
+    expect(loadedCleanly([result, { status: 'empty' }])).toBe(true);
+  });
+
+  it('locks a key whose invalid data could not be quarantined, so stored files are not pruned', () => {
+    stubStorage({ [STORAGE_KEYS.DATA]: '{not json' }, { failWrites: true });
+    const result = loadStoredValue(STORAGE_KEYS.DATA, 'years');
+
+    expect(result).toMatchObject({ status: 'quarantined', quarantine: null });
+    expect(isLockedResult(result)).toBe(true);
+    expect(loadedCleanly([result])).toBe(false);
+  });
+
+  it('does not treat a key it could not read as empty', () => {
+    stubStorage({}, { failReads: true });
+    const result = loadStoredValue(STORAGE_KEYS.DATA, 'years');
+
+    expect(result.status).toBe('unreadable');
+    expect(isLockedResult(result)).toBe(true);
+    expect(loadedCleanly([result])).toBe(false);
+  });
+});
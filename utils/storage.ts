@@ -0,0 +1,182 @@
+import { SiteData } from '../types.ts';
+import { withInferredUnits } from './units.ts';
+import { withClassification } from './classification.ts';
+import { withMeters } from './meters.ts';
+import { isPlainObject, validateSiteList, validateYearMap } from './validation.ts';
+
+export const STORAGE_KEYS = {
+  DATA: 'saher_dashboard_data',
+  TEMPLATE: 'saher_dashboard_template',
+  ARCHIVES: 'saher_dashboard_archives',
+  AUDIT: 'saher_dashboard_audit',
+  USER: 'saher_dashboard_user',
+  PERIOD_COLUMNS: 'saher_dashboard_period_columns'
+};
+
+const ENVELOPE_ID = 'saher-dashboard';
+const QUARANTINE_PREFIX = 'saher_dashboard_quarantine:';
+
+// Every key is stored as an envelope, so older payloads can be recognised and upgraded.
+// Payloads written before envelopes existed are treated as version 0.
+interface StorageEnvelope<T> {
+  envelope: typeof ENVELOPE_ID;
+  schemaVersion: number;
+  savedAt: string; // ISO date
+  data: T;
+}
+
+interface StorageMigration {
+  version: number; // The schema version this step upgrades to
+  description: string;
+  migrateSites: (sites: SiteData[]) => SiteData[];
+}
+
+/**
+ * Upgrade steps, applied in order to every site list of a payload older than the step.
+ * To change the shape of `SiteData` or `ConsumptionRow`: add a step here and extend `validation.ts`.
+ * (Base64 attachments are moved to IndexedDB separately, since that is asynchronous.)
+ */
+const MIGRATIONS: StorageMigration[] = [
+  { version: 1, description: 'Infer row units from their labels', migrateSites: withInferredUnits },
+  { version: 2, description: 'Classify rows by utility and measure, and pair cost rows', migrateSites: withClassification },
+  { version: 3, description: 'Give every site a meter list and link its rows to a meter', migrateSites: withMeters }
+];
+
+export const STORAGE_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+export type PayloadKind = 'sites' | 'years';
+
+export const migrateSiteList = (sites: SiteData[], fromVersion: number): SiteData[] => {
+  return MIGRATIONS.filter(m => m.version > fromVersion).reduce((current, migration) => migration.migrateSites(current), sites);
+};
+
+export const migrateYearMap = (byYear: Record<number, SiteData[]>, fromVersion: number): Record<number, SiteData[]> => {
+  const next: Record<number, SiteData[]> = {};
+  Object.keys(byYear).forEach(key => {
+    next[Number(key)] = migrateSiteList(byYear[Number(key)], fromVersion);
+  });
+  return next;
+};
+
+const validateShape = (value: unknown): string[] => {
+  if (!Array.isArray(value)) return ['ليست قائمة مواقع'];
+  return value.some(site => !isPlainObject(site) || !Array.isArray(site.rows)) ? ['موقع بدون بنود'] : [];
+};
+
+/**
+ * Upgrades a payload of the given kind to the current schema and validates it.
+ * Throws with the list of problems when the result does not match the types.
+ */
+export const migratePayload = <T extends SiteData[] | Record<number, SiteData[]>>(kind: PayloadKind, payload: unknown, fromVersion: number): T => {
+  if (fromVersion > STORAGE_SCHEMA_VERSION) {
+    throw new Error(`البيانات محفوظة بإصدار أحدث (${fromVersion}) من إصدار النظام (${STORAGE_SCHEMA_VERSION}).`);
+  }
+
+  // Rough shape check first, so the migration steps can rely on `rows` being there
+  const shapeErrors = kind === 'sites' ? validateShape(payload) : isPlainObject(payload) ? Object.values(payload).flatMap(validateShape) : ['بيانات السنوات غير صالحة'];
+  if (shapeErrors.length > 0) throw new Error(shapeErrors.join('\n'));
+
+  const migrated = kind === 'sites'
+    ? migrateSiteList(payload as SiteData[], fromVersion)
+    : migrateYearMap(payload as Record<number, SiteData[]>, fromVersion);
+
+  const errors = kind === 'sites' ? validateSiteList(migrated, 'القالب') : validateYearMap(migrated, 'السنة');
+  if (errors.length > 0) throw new Error(errors.slice(0, 10).join('\n'));
+  return migrated as T;
+};
+
+// --- Reading & writing ---
+
+export const serializeEnvelope = <T>(data: T): string => {
+  const envelope: StorageEnvelope<T> = { envelope: ENVELOPE_ID, schemaVersion: STORAGE_SCHEMA_VERSION, savedAt: new Date().toISOString(), data };
+  return JSON.stringify(envelope);
+};
+
+export interface QuarantineEntry {
+  storageKey: string; // Where the quarantined copy is kept
+  sourceKey: string; // The key it was read from
+  quarantinedAt: string;
+  reason: string;
+}
+
+export type LoadResult<T> =
+  | { status: 'empty' }
+  | { status: 'ok'; value: T }
+  | { status: 'unreadable'; reason: string } // The storage itself could not be read; the key may still hold data
+  | { status: 'quarantined'; quarantine: QuarantineEntry | null; reason: string }; // quarantine is null when the copy could not be made
+
+// The workspace in memory is all that is stored only when every key was read or was empty
+export const loadedCleanly = (results: LoadResult<unknown>[]): boolean =>
+  results.every(result => result.status === 'ok' || result.status === 'empty');
+
+// Keys whose stored data is not in the workspace and still exists somewhere; the auto-save must not overwrite them
+export const isLockedResult = (result: LoadResult<unknown>): boolean =>
+  result.status === 'unreadable' || (result.status === 'quarantined' && !result.quarantine);
+
+// Moves an unreadable value out of the way so the auto-save cannot overwrite it
+const quarantine = (sourceKey: string, raw: string, reason: string): QuarantineEntry | null => {
+  const quarantinedAt = new Date().toISOString();
+  const storageKey = `${QUARANTINE_PREFIX}${sourceKey}:${quarantinedAt}`;
+  try {
+    localStorage.setItem(storageKey, JSON.stringify({ sourceKey, quarantinedAt, reason, raw }));
+    localStorage.removeItem(sourceKey);
+    return { storageKey, sourceKey, quarantinedAt, reason };
+  } catch (e) {
+    console.error(`Failed to quarantine ${sourceKey}`, e);
+    return null;
+  }
+};
+
+/**
+ * Reads one storage key: unwraps the envelope (or accepts a legacy bare payload),
+ * runs the migrations and validates the result. Data that cannot be read is quarantined.
+ */
+export const loadStoredValue = <T extends SiteData[] | Record<number, SiteData[]>>(key: string, kind: PayloadKind): LoadResult<T> => {
+  let raw: string | null;
+  try {
+    raw = localStorage.getItem(key);
+  } catch (e) {
+    console.warn(`Error reading ${key} from storage`, e);
+    return { status: 'unreadable', reason: e instanceof Error ? e.message : String(e) };
+  }
+  if (raw === null) return { status: 'empty' };
+
+  try {
+    const parsed = JSON.parse(raw);
+    const isEnvelope = isPlainObject(parsed) && parsed.envelope === ENVELOPE_ID;
+    const version = isEnvelope ? Number(parsed.schemaVersion) || 0 : 0;
+    return { status: 'ok', value: migratePayload<T>(kind, isEnvelope ? parsed.data : parsed, version) };
+  } catch (e) {
+    const reason = e instanceof Error ? e.message : String(e);
+    console.error(`Stored data under ${key} is invalid and was quarantined`, e);
+    return { status: 'quarantined', quarantine: quarantine(key, raw, reason), reason };
+  }
+};
+
+export const listQuarantine = (): QuarantineEntry[] => {
+  const entries: QuarantineEntry[] = [];
+  for (let i = 0; i < localStorage.length; i++) {
+    const storageKey = localStorage.key(i);
+    if (!storageKey?.startsWith(QUARANTINE_PREFIX)) continue;
+    try {
+      const { sourceKey, quarantinedAt, reason } = JSON.parse(localStorage.getItem(storageKey) || '{}');
+      entries.push({ storageKey, sourceKey, quarantinedAt, reason });
+    } catch {
+      entries.push({ storageKey, sourceKey: '', quarantinedAt: '', reason: '' });
+    }
+  }
+  return entries.sort((a, b) => a.quarantinedAt.localeCompare(b.quarantinedAt));
+};
+
+// The original text of a quarantined value, for download
+export const readQuarantinedRaw = (entry: QuarantineEntry): string => {
+  try {
+    return JSON.parse(localStorage.getItem(entry.storageKey) || '{}').raw || '';
+  } catch {
+    return localStorage.getItem(entry.storageKey) || '';
+  }
+};
+
+export const deleteQuarantine = (entry: QuarantineEntry) => {
+  localStorage.removeItem(entry.storageKey);
+};
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { INITIAL_SITES, TARIFF_PRESETS } from '../constants.ts';
+import { ConsumptionRow } from '../types.ts';
+import { applyTariffs, calculateTariffCost, isTariffCompatible } from './tariffs.ts';
+
+const preset = (id: string) => TARIFF_PRESETS.find(p => p.id === id)!;
+
+// Water (m³) and its cost row of the first site
+const waterRows = (): ConsumptionRow[] => JSON.parse(JSON.stringify(INITIAL_SITES[0].rows.slice(0, 2)));
+
+describe('applyTariffs', () => {
+  it('converts an m³ row to gallons before applying a per-gallon tariff', () => {
+    const rows = waterRows();
+    rows[0].values.jan = 10;
+    rows[0].tariff = preset('dewa_water_residential');
+
+    const cost = applyTariffs(rows)[1].values.jan;
+
+    // 10 m³ = 2,199.69 imperial gallons, all in the first slab
+    expect(cost).toBe(calculateTariffCost(10 / 0.00454609, rows[0].tariff));
+    expect(cost).toBeCloseTo(111.52, 2);
+  });
+
+  it('prices a row in the tariff unit as it is', () => {
+    const rows = waterRows();
+    rows[0].unit = 'gallon';
+    rows[0].values.jan = 1000;
+    rows[0].tariff = preset('dewa_water_residential');
+
+    expect(applyTariffs(rows)[1].values.jan).toBe(calculateTariffCost(1000, rows[0].tariff));
+  });
+
+  it('leaves the cost row alone when the tariff unit does not fit the row', () => {
+    const rows = waterRows();
+    rows[0].values.jan = 10;
+    rows[1].values.jan = 42;
+    rows[0].tariff = preset('dewa_electricity_commercial');
+
+    expect(isTariffCompatible(rows[0], rows[0].tariff)).toBe(false);
+    expect(applyTariffs(rows)[1].values.jan).toBe(42);
+  });
+});
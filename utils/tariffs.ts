@@ -0,0 +1,76 @@
+import { ConsumptionRow, MONTHS, RowType, Tariff, UnitKey } from '../types.ts';
+import { safeFloat } from './calculations.ts';
+import { UNITS, convertToCanonical } from './units.ts';
+
+/**
+ * Cost of one month's consumption under a slab tariff.
+ * A month with no consumption is treated as "no bill yet" and costs 0,
+ * so fixed fees do not show up for months that have not been entered.
+ */
+export const calculateTariffCost = (quantity: number, tariff: Tariff): number => {
+  if (!quantity || quantity <= 0) return 0;
+
+  let cost = 0;
+  let lowerBound = 0;
+  for (const slab of tariff.slabs) {
+    const upperBound = slab.upTo === null ? Infinity : slab.upTo;
+    if (quantity <= lowerBound) break;
+    const unitsInSlab = Math.min(quantity, upperBound) - lowerBound;
+    cost += unitsInSlab * slab.rate;
+    lowerBound = upperBound;
+  }
+
+  cost += quantity * tariff.fuelSurcharge;
+  cost += tariff.fixedFee;
+  return safeFloat(cost);
+};
+
+/**
+ * A row's quantity in the unit its tariff is priced in (m³ read against a per-gallon tariff is converted to gallons).
+ * Undefined when the two units measure different things, e.g. a kWh tariff on a water row.
+ */
+export const quantityInTariffUnit = (quantity: number, rowUnit: UnitKey | undefined, tariff: Tariff): number | undefined => {
+  if (!tariff.unit || !rowUnit || rowUnit === tariff.unit) return quantity;
+  if (UNITS[rowUnit].dimension !== UNITS[tariff.unit].dimension) return undefined;
+  return convertToCanonical(quantity, rowUnit) / UNITS[tariff.unit].factor;
+};
+
+export const isTariffCompatible = (row: ConsumptionRow, tariff: Tariff): boolean => quantityInTariffUnit(1, row.unit, tariff) !== undefined;
+
+// The rows whose cost is produced by a tariff on another row of the same site
+export const getTariffCostRowIds = (rows: ConsumptionRow[]): Set<string> => {
+  return new Set(rows.filter(r => r.tariff && r.costRowId).map(r => r.costRowId!));
+};
+
+/**
+ * Fills every tariff-driven cost row from its consumption row, keeping manual overrides.
+ * A tariff whose unit does not fit the row (its unit was changed afterwards) leaves the cost row as it is.
+ */
+export const applyTariffs = (rows: ConsumptionRow[]): ConsumptionRow[] => {
+  const newRows = [...rows];
+
+  rows.forEach(sourceRow => {
+    if (!sourceRow.tariff || !sourceRow.costRowId || !isTariffCompatible(sourceRow, sourceRow.tariff)) return;
+    const costRowIndex = newRows.findIndex(r => r.id === sourceRow.costRowId);
+    if (costRowIndex === -1) return;
+
+    const costRow = { ...newRows[costRowIndex] };
+    const newValues = { ...costRow.values };
+    MONTHS.forEach(month => {
+      const override = costRow.manualOverrides?.[month.key];
+      newValues[month.key] = override !== undefined
+        ? override
+        : calculateTariffCost(quantityInTariffUnit(sourceRow.values[month.key], sourceRow.unit, sourceRow.tariff!)!, sourceRow.tariff!);
+    });
+    costRow.values = newValues;
+    newRows[costRowIndex] = costRow;
+  });
+
+  return newRows;
+};
+
+// Default pairing: the first cost row of the same utility that follows the consumption row
+export const findDefaultCostRowId = (rows: ConsumptionRow[], rowIndex: number): string | undefined => {
+  const utility = rows[rowIndex].utility;
+  return rows.slice(rowIndex + 1).find(r => r.measure === 'cost' && r.type === RowType.INPUT && r.utility === utility)?.id;
+};
@@ -0,0 +1,58 @@
+import { ConsumptionRow, SiteData, UnitDimension, UnitKey } from '../types.ts';
+
+interface UnitDefinition {
+  label: string;
+  dimension: UnitDimension;
+  factor: number; // Multiply by this to get the canonical unit of the dimension
+}
+
+// Canonical units: m³ for volume, kWh for energy, ton-hour (refrigeration) for cooling, AED for cost.
+// Gallons are imperial gallons, as billed by the UAE water authorities.
+export const UNITS: Record<UnitKey, UnitDefinition> = {
+  m3: { label: 'م³', dimension: 'volume', factor: 1 },
+  gallon: { label: 'جالون', dimension: 'volume', factor: 0.00454609 },
+  kwh: { label: 'kWh', dimension: 'energy', factor: 1 },
+  ton_hour: { label: 'طن تبريد/ساعة', dimension: 'cooling', factor: 1 },
+  btu: { label: 'BTU', dimension: 'cooling', factor: 1 / 12000 },
+  aed: { label: 'درهم', dimension: 'currency', factor: 1 }
+};
+
+export const CANONICAL_UNITS: Record<UnitDimension, UnitKey> = {
+  volume: 'm3',
+  energy: 'kwh',
+  cooling: 'ton_hour',
+  currency: 'aed'
+};
+
+export const convertToCanonical = (value: number, unit: UnitKey): number => {
+  return value * UNITS[unit].factor;
+};
+
+// Reads a unit from an exported cell, accepting both the key and the label
+export const parseUnit = (value: unknown): UnitKey | undefined => {
+  const text = String(value ?? '').trim();
+  return (Object.keys(UNITS) as UnitKey[]).find(k => k === text || UNITS[k].label === text);
+};
+
+// Best guess for rows saved before units existed, based on the label wording
+export const inferUnitFromLabel = (label: string, isCost: boolean): UnitKey | undefined => {
+  if (isCost) return 'aed';
+  const text = label.toLowerCase();
+  if (text.includes('جالون') || text.includes('gallon')) return 'gallon';
+  if (text.includes('متر مكعب') || text.includes('m3') || text.includes('م³')) return 'm3';
+  if (text.includes('btu')) return 'btu';
+  if (text.includes('طن') || text.includes('ton')) return 'ton_hour';
+  if (text.includes('كيلو واط') || text.includes('kwh')) return 'kwh';
+  return undefined;
+};
+
+// Fills in a unit on every row that has none (or the legacy empty string)
+export const withInferredUnits = (sites: SiteData[]): SiteData[] => {
+  return sites.map(site => ({
+    ...site,
+    rows: site.rows.map((row: ConsumptionRow) => {
+      if (row.unit && UNITS[row.unit]) return row;
+      return { ...row, unit: inferUnitFromLabel(row.label, row.isCost) };
+    })
+  }));
+};
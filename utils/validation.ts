@@ -0,0 +1,85 @@
+import { MONTHS, RowType } from '../types.ts';
+import { UNITS } from './units.ts';
+import { UTILITIES, MEASURES } from './classification.ts';
+
+// Structural checks of persisted data against the shapes in types.ts.
+// Each validator returns the list of problems found; an empty list means the value is valid.
+
+export const isPlainObject = (value: unknown): value is Record<string, any> => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isOptional = (value: unknown, check: (v: unknown) => boolean) => value === undefined || check(value);
+const isString = (value: unknown) => typeof value === 'string';
+const isNumber = (value: unknown) => typeof value === 'number' && Number.isFinite(value);
+
+const isMonthRecord = (value: unknown, partial: boolean) => {
+  if (!isPlainObject(value)) return false;
+  return MONTHS.every(m => partial ? isOptional(value[m.key], isNumber) : isNumber(value[m.key]));
+};
+
+const isMeterReading = (value: unknown) =>
+  isPlainObject(value) && isOptional(value.opening, isNumber) && isOptional(value.closing, isNumber) &&
+  isOptional(value.rollover, v => typeof v === 'boolean') &&
+  isOptional(value.replacement, r => isPlainObject(r) && isNumber(r.oldClosing) && isNumber(r.newOpening));
+
+const validateRow = (row: unknown, path: string): string[] => {
+  if (!isPlainObject(row)) return [`${path}: ليس بنداً`];
+  const errors: string[] = [];
+  const label = isString(row.label) ? `${path} "${row.label}"` : path;
+
+  if (!isString(row.id)) errors.push(`${label}: المعرف مفقود`);
+  if (!isString(row.label)) errors.push(`${label}: المسمى مفقود`);
+  if (!Object.values(RowType).includes(row.type)) errors.push(`${label}: نوع البند غير معروف`);
+  if (!(row.utility in UTILITIES)) errors.push(`${label}: الخدمة غير معروفة`);
+  if (!(row.measure in MEASURES)) errors.push(`${label}: نوع القيمة غير معروف`);
+  if (typeof row.isCost !== 'boolean') errors.push(`${label}: isCost غير صالح`);
+  if (!isOptional(row.unit, u => isString(u) && (u as string) in UNITS)) errors.push(`${label}: الوحدة غير معروفة`);
+  if (!isMonthRecord(row.values, false)) errors.push(`${label}: القيم الشهرية غير صالحة`);
+  if (!isOptional(row.manualOverrides, v => isMonthRecord(v, true))) errors.push(`${label}: القيم اليدوية غير صالحة`);
+  if (!isOptional(row.costRowId, isString)) errors.push(`${label}: بند القيمة المرتبط غير صالح`);
+  if (!isOptional(row.meterId, isString)) errors.push(`${label}: العداد المرتبط غير صالح`);
+  if (!isOptional(row.readings, r => isPlainObject(r) && MONTHS.every(m => isOptional(r[m.key], isMeterReading)))) errors.push(`${label}: قراءات العداد غير صالحة`);
+  if (!isOptional(row.tariff, t => isPlainObject(t) && Array.isArray(t.slabs))) errors.push(`${label}: التعرفة غير صالحة`);
+  if (!isOptional(row.attachments, list => Array.isArray(list) && list.every(a => isPlainObject(a) && isString(a.id) && isString(a.name)))) {
+    errors.push(`${label}: المرفقات غير صالحة`);
+  }
+  return errors;
+};
+
+const isMeter = (meter: unknown) =>
+  isPlainObject(meter) && isString(meter.id) && isString(meter.number) && meter.utility in UTILITIES && isOptional(meter.provider, isString)
+  && isOptional(meter.rolloverDigits, digits => typeof digits === 'number' && Number.isInteger(digits) && digits > 0);
+
+export const validateSiteList = (value: unknown, path: string): string[] => {
+  if (!Array.isArray(value)) return [`${path}: ليست قائمة مواقع`];
+  const errors: string[] = [];
+
+  value.forEach((site, i) => {
+    const sitePath = isPlainObject(site) && isString(site.name) ? `${path} / ${site.name}` : `${path}[${i}]`;
+    if (!isPlainObject(site)) {
+      errors.push(`${sitePath}: ليس موقعاً`);
+      return;
+    }
+    if (!isString(site.id)) errors.push(`${sitePath}: المعرف مفقود`);
+    if (!isString(site.name)) errors.push(`${sitePath}: الاسم مفقود`);
+    if (!isString(site.meterNumber)) errors.push(`${sitePath}: رقم العداد مفقود`);
+    if (!isOptional(site.startYear, isNumber)) errors.push(`${sitePath}: سنة البداية غير صالحة`);
+    if (!isOptional(site.budgets, isPlainObject)) errors.push(`${sitePath}: الميزانية غير صالحة`);
+    if (!isOptional(site.meters, list => Array.isArray(list) && list.every(isMeter))) errors.push(`${sitePath}: العدادات غير صالحة`);
+    if (!Array.isArray(site.rows)) {
+      errors.push(`${sitePath}: البنود مفقودة`);
+      return;
+    }
+    site.rows.forEach((row: unknown, rowIndex: number) => errors.push(...validateRow(row, `${sitePath} / ${rowIndex + 1}`)));
+  });
+
+  return errors;
+};
+
+// A map of year -> site list, as stored for the yearly data and the archives
+export const validateYearMap = (value: unknown, path: string): string[] => {
+  if (!isPlainObject(value)) return [`${path}: بيانات السنوات غير صالحة`];
+  return Object.keys(value).flatMap(key => {
+    if (!/^\d{4}$/.test(key)) return [`${path}: سنة غير صالحة "${key}"`];
+    return validateSiteList(value[key], `${path} ${key}`);
+  });
+};
@@ -0,0 +1,309 @@
+import { CellObject, Range, WorkBook, WorkSheet, utils } from 'xlsx';
+import { SiteData, MONTHS, MonthKey, RowType, UtilityKind } from '../types.ts';
+import { UNITS } from './units.ts';
+import { UTILITIES, MEASURES, TOTAL_MEASURE_LABEL } from './classification.ts';
+import { calculateHorizontalTotal, safeFloat } from './calculations.ts';
+import { PERIODS, PeriodKey, periodMonthIndexes } from './periods.ts';
+import { SITE_DETAIL_FIELDS } from './siteDetails.ts';
+
+// Layout of a year sheet. The importer reads this layout back, so columns must not move.
+export const SITE_SHEET_HEADERS = ['الموقع', 'رقم العداد', 'نوع الاستهلاك', ...MONTHS.map(m => m.label), 'المجموع', 'المرفقات', 'الخدمة', 'نوع القيمة', 'الوحدة'];
+const SITE_SHEET_COLS = [{ wch: 30 }, { wch: 25 }, { wch: 25 }, ...MONTHS.map(() => ({ wch: 12 })), { wch: 18 }, { wch: 25 }, { wch: 12 }, { wch: 12 }, { wch: 14 }];
+const FIRST_MONTH_COL = 3;
+const TOTAL_COL = FIRST_MONTH_COL + MONTHS.length;
+
+export const yearSheetName = (year: number) => `استهلاك ${year}`;
+const ARCHIVE_SHEET_NAME = 'الأرشيف';
+const SUMMARY_SHEET_NAME = 'ملخص السنوات';
+export const SITE_DETAILS_SHEET_NAME = 'بيانات المواقع';
+
+export interface WorkbookExportOptions {
+  years: number[];
+  siteIds: string[];
+  includeArchive: boolean;
+  includeSummary: boolean;
+  periods: PeriodKey[]; // Aggregate columns added to the year sheets
+}
+
+type SheetCell = string | number | CellObject;
+
+interface SheetDraft {
+  rows: SheetCell[][];
+  merges: Range[];
+}
+
+// A row that is added into a total, with the factor converting it to the unit of the total
+interface TotalTerm {
+  row: number;
+  factor: number;
+  values: Record<MonthKey, number>;
+}
+
+// Where the totals of one site ended up in its sheet, for the grand totals and the summary
+interface SiteRefs {
+  site: SiteData;
+  costTerms: TotalTerm[];
+  costByUtility: Partial<Record<UtilityKind, TotalTerm[]>>;
+  quantityTerms: Partial<Record<UtilityKind, TotalTerm[]>>;
+}
+
+const formulaCell = (f: string, v: number): CellObject => ({ t: 'n', f, v: safeFloat(v) });
+
+const termsFormula = (terms: TotalTerm[], c: number, sheetName?: string) => {
+  if (terms.length === 0) return '0';
+  const prefix = sheetName ? `'${sheetName}'!` : '';
+  return terms.map(t => `${prefix}${utils.encode_cell({ r: t.row, c })}${t.factor === 1 ? '' : `*${t.factor}`}`).join('+');
+};
+
+const termsValue = (terms: TotalTerm[], month?: MonthKey) =>
+  terms.reduce((sum, t) => sum + (month ? t.values[month] : calculateHorizontalTotal(t.values)) * t.factor, 0);
+
+const rowTotalCell = (r: number, values: Record<MonthKey, number>) =>
+  formulaCell(`SUM(${utils.encode_cell({ r, c: FIRST_MONTH_COL })}:${utils.encode_cell({ r, c: TOTAL_COL - 1 })})`, calculateHorizontalTotal(values));
+
+const cellValue = (cell: SheetCell | undefined) => typeof cell === 'number' ? cell : typeof cell === 'object' ? Number(cell.v) || 0 : 0;
+
+const toSheet = (draft: SheetDraft, cols = SITE_SHEET_COLS): WorkSheet => {
+  const ws = utils.aoa_to_sheet(draft.rows);
+  ws['!merges'] = draft.merges;
+  ws['!cols'] = cols;
+  return ws;
+};
+
+// Adds the rows of every site (followed by a blank row), with formulas for the row and site totals
+const appendSites = (draft: SheetDraft, sites: SiteData[]): SiteRefs[] => {
+  return sites.map(site => {
+    const startRow = draft.rows.length;
+    const costRowTerms: TotalTerm[] = [];
+    const costByUtility: Partial<Record<UtilityKind, TotalTerm[]>> = {};
+    const quantityTerms: Partial<Record<UtilityKind, TotalTerm[]>> = {};
+    const totalRowTerms: TotalTerm[] = [];
+
+    site.rows.forEach((row, index) => {
+      const term = { row: startRow + index, factor: 1, values: row.values };
+      if (row.type === RowType.CALCULATED_TOTAL) {
+        totalRowTerms.push(term);
+      } else if (row.measure === 'cost') {
+        costRowTerms.push(term);
+        (costByUtility[row.utility] || (costByUtility[row.utility] = [])).push(term);
+      } else if (row.measure === 'quantity' && row.unit && UNITS[row.unit]) {
+        // Same conversion as the consumption totals of the table
+        const canonicalUnit = UTILITIES[row.utility]?.defaultUnit;
+        if (canonicalUnit && UNITS[canonicalUnit].dimension === UNITS[row.unit].dimension) {
+          (quantityTerms[row.utility] || (quantityTerms[row.utility] = [])).push({ ...term, factor: UNITS[row.unit].factor });
+        }
+      }
+    });
+
+    site.rows.forEach((row, index) => {
+      const r = startRow + index;
+      const attachmentsList = row.attachments?.map(a => a.month ? `${a.name} (${MONTHS.find(m => m.key === a.month)?.label})` : a.name).join(', ') || '';
+      const monthCells = MONTHS.map((m, i) => row.type === RowType.CALCULATED_TOTAL
+        ? formulaCell(termsFormula(costRowTerms, FIRST_MONTH_COL + i), row.values[m.key])
+        : row.values[m.key]);
+      draft.rows.push([
+        index === 0 ? site.name : '',
+        index === 0 ? site.meterNumber : '',
+        row.label,
+        ...monthCells,
+        rowTotalCell(r, row.values),
+        attachmentsList,
+        UTILITIES[row.utility].label,
+        row.type === RowType.CALCULATED_TOTAL ? TOTAL_MEASURE_LABEL : MEASURES[row.measure].label,
+        row.unit ? UNITS[row.unit].label : ''
+      ]);
+    });
+
+    if (site.rows.length > 0) {
+      draft.merges.push({ s: { r: startRow, c: 0 }, e: { r: startRow + site.rows.length - 1, c: 0 } });
+      draft.merges.push({ s: { r: startRow, c: 1 }, e: { r: startRow + site.rows.length - 1, c: 1 } });
+    }
+    draft.rows.push([]);
+
+    return { site, costTerms: totalRowTerms.length > 0 ? totalRowTerms.slice(0, 1) : costRowTerms, costByUtility, quantityTerms };
+  });
+};
+
+const appendTotalRow = (draft: SheetDraft, label: string, terms: TotalTerm[]) => {
+  const r = draft.rows.length;
+  const values = {} as Record<MonthKey, number>;
+  MONTHS.forEach(m => values[m.key] = safeFloat(termsValue(terms, m.key)));
+  draft.rows.push([label, '', '', ...MONTHS.map((m, i) => formulaCell(termsFormula(terms, FIRST_MONTH_COL + i), values[m.key])), rowTotalCell(r, values), '']);
+  draft.merges.push({ s: { r, c: 0 }, e: { r, c: 2 } });
+};
+
+// Grand total of the costs, the cost of every utility that has cost rows,
+// then the consumption of every utility that has quantity rows
+const appendGrandTotals = (draft: SheetDraft, refs: SiteRefs[]) => {
+  appendTotalRow(draft, 'الإجمالي الكلي (درهم)', refs.flatMap(ref => ref.costTerms));
+  (Object.keys(UTILITIES) as UtilityKind[]).forEach(utility => {
+    const terms = refs.flatMap(ref => ref.costByUtility[utility] || []);
+    if (terms.length === 0) return;
+    appendTotalRow(draft, `إجمالي تكلفة ${UTILITIES[utility].label} (درهم)`, terms);
+  });
+  (Object.keys(UTILITIES) as UtilityKind[]).forEach(utility => {
+    const terms = refs.flatMap(ref => ref.quantityTerms[utility] || []);
+    if (terms.length === 0) return;
+    appendTotalRow(draft, `إجمالي استهلاك ${UTILITIES[utility].label} (${UNITS[UTILITIES[utility].defaultUnit!].label})`, terms);
+  });
+};
+
+// Period columns go after the last column of the layout, so the importer still reads the sheet back.
+// Every row with month values (site rows and grand totals) gets a SUM over the months of each period.
+const appendPeriodColumns = (draft: SheetDraft, periods: PeriodKey[], year: number) => {
+  if (periods.length === 0) return;
+  draft.rows.forEach((row, r) => {
+    const isHeader = r === 0;
+    if (!isHeader && row.length <= TOTAL_COL) return;
+    while (row.length < SITE_SHEET_HEADERS.length) row.push('');
+    periods.forEach(period => {
+      if (isHeader) {
+        row.push(PERIODS.find(p => p.key === period)!.label);
+        return;
+      }
+      const indexes = periodMonthIndexes(period, year);
+      if (indexes.length === 0) {
+        row.push(0);
+        return;
+      }
+      const value = indexes.reduce((sum, i) => sum + cellValue(row[FIRST_MONTH_COL + i]), 0);
+      const range = `${utils.encode_cell({ r, c: FIRST_MONTH_COL + indexes[0] })}:${utils.encode_cell({ r, c: FIRST_MONTH_COL + indexes[indexes.length - 1] })}`;
+      row.push(formulaCell(`SUM(${range})`, value));
+    });
+  });
+};
+
+const buildYearDraft = (sites: SiteData[], year: number, periods: PeriodKey[]) => {
+  const draft: SheetDraft = { rows: [[...SITE_SHEET_HEADERS]], merges: [] };
+  const refs = appendSites(draft, sites);
+  appendGrandTotals(draft, refs);
+  appendPeriodColumns(draft, periods, year);
+  return { draft, refs };
+};
+
+const yearSheetCols = (periods: PeriodKey[]) => [...SITE_SHEET_COLS, ...periods.map(() => ({ wch: 14 }))];
+
+// The sheet of the single-year export, in the layout the importer reads back
+export const buildYearSheet = (sites: SiteData[], year: number, periods: PeriodKey[] = []): WorkSheet =>
+  toSheet(buildYearDraft(sites, year, periods).draft, yearSheetCols(periods));
+
+// One line per site with its descriptive details (location, provider, accounts, contacts)
+export const buildSiteDetailsSheet = (sites: SiteData[]): WorkSheet => {
+  const draft: SheetDraft = {
+    rows: [
+      ['الموقع', 'رقم العداد', ...SITE_DETAIL_FIELDS.map(f => f.label), 'سنة الإضافة'],
+      ...sites.map(site => [site.name, site.meterNumber, ...SITE_DETAIL_FIELDS.map(f => site[f.key] || ''), site.startYear ?? ''])
+    ],
+    merges: []
+  };
+  return toSheet(draft, [{ wch: 30 }, { wch: 25 }, ...SITE_DETAIL_FIELDS.map(f => ({ wch: f.key === 'address' ? 40 : 20 })), { wch: 12 }]);
+};
+
+// Archived sites of every year, one titled block per year
+const buildArchiveSheet = (archivesByYear: Record<number, SiteData[]>, years: number[], keepSite: (site: SiteData) => boolean): WorkSheet => {
+  const draft: SheetDraft = { rows: [], merges: [] };
+  years.forEach(year => {
+    const sites = (archivesByYear[year] || []).filter(keepSite);
+    if (sites.length === 0) return;
+    draft.merges.push({ s: { r: draft.rows.length, c: 0 }, e: { r: draft.rows.length, c: SITE_SHEET_HEADERS.length - 1 } });
+    draft.rows.push([`المواقع المؤرشفة - ${year}`]);
+    draft.rows.push(SITE_SHEET_HEADERS);
+    appendSites(draft, sites);
+  });
+  if (draft.rows.length === 0) draft.rows.push(['لا توجد مواقع مؤرشفة في السنوات المحددة']);
+  return toSheet(draft);
+};
+
+// Annual totals of every site per year, as references to the year sheets
+const buildSummarySheet = (yearRefs: { year: number; refs: SiteRefs[] }[]): WorkSheet => {
+  const lastYearCol = 3 + yearRefs.length - 1;
+  const draft: SheetDraft = { rows: [['الموقع', 'رقم العداد', 'البند', ...yearRefs.map(y => String(y.year)), 'المجموع']], merges: [] };
+
+  // Sites in order of first appearance, with their latest name
+  const sites = new Map<string, SiteData>();
+  yearRefs.forEach(({ refs }) => refs.forEach(ref => sites.set(ref.site.id, ref.site)));
+
+  const metrics: { label: string; terms: (ref: SiteRefs) => TotalTerm[] | undefined }[] = [
+    { label: 'إجمالي قيمة الاستهلاك (درهم)', terms: ref => ref.costTerms },
+    ...(Object.keys(UTILITIES) as UtilityKind[]).map(utility => ({
+      label: `استهلاك ${UTILITIES[utility].label} (${UNITS[UTILITIES[utility].defaultUnit || 'aed'].label})`,
+      terms: (ref: SiteRefs) => ref.quantityTerms[utility]
+    }))
+  ];
+  // Summary rows holding each metric, for the grand totals at the bottom
+  const metricRows = new Map<string, number[]>();
+
+  const appendSummaryRow = (cells: SheetCell[], yearCells: CellObject[]) => {
+    const r = draft.rows.length;
+    const total = yearCells.reduce((sum, cell) => sum + Number(cell.v), 0);
+    const sumCell = formulaCell(yearCells.length > 0 ? `SUM(${utils.encode_cell({ r, c: 3 })}:${utils.encode_cell({ r, c: lastYearCol })})` : '0', total);
+    draft.rows.push([...cells, ...yearCells, sumCell]);
+    return r;
+  };
+
+  sites.forEach((site, siteId) => {
+    const startRow = draft.rows.length;
+    metrics.forEach(metric => {
+      const termsByYear = yearRefs.map(({ refs }) => {
+        const ref = refs.find(x => x.site.id === siteId);
+        return ref ? metric.terms(ref) : undefined;
+      });
+      if (!termsByYear.some(terms => terms && terms.length > 0)) return;
+
+      const isFirst = draft.rows.length === startRow;
+      const r = appendSummaryRow(
+        [isFirst ? site.name : '', isFirst ? site.meterNumber : '', metric.label],
+        termsByYear.map((terms, i) => formulaCell(termsFormula(terms || [], TOTAL_COL, yearSheetName(yearRefs[i].year)), termsValue(terms || [])))
+      );
+      metricRows.set(metric.label, [...(metricRows.get(metric.label) || []), r]);
+    });
+
+    const rowCount = draft.rows.length - startRow;
+    if (rowCount > 1) {
+      draft.merges.push({ s: { r: startRow, c: 0 }, e: { r: startRow + rowCount - 1, c: 0 } });
+      draft.merges.push({ s: { r: startRow, c: 1 }, e: { r: startRow + rowCount - 1, c: 1 } });
+    }
+  });
+
+  draft.rows.push([]);
+  metrics.forEach(metric => {
+    const rows = metricRows.get(metric.label);
+    if (!rows) return;
+    const r = draft.rows.length;
+    const yearCells = yearRefs.map((_, i) => {
+      const c = 3 + i;
+      const value = rows.reduce((sum, row) => sum + Number((draft.rows[row][c] as CellObject).v), 0);
+      return formulaCell(rows.map(row => utils.encode_cell({ r: row, c })).join('+'), value);
+    });
+    appendSummaryRow([`الإجمالي - ${metric.label}`, '', ''], yearCells);
+    draft.merges.push({ s: { r, c: 0 }, e: { r, c: 2 } });
+  });
+
+  return toSheet(draft, [{ wch: 30 }, { wch: 25 }, { wch: 30 }, ...yearRefs.map(() => ({ wch: 14 })), { wch: 18 }]);
+};
+
+/**
+ * One workbook with a sheet per selected year, the archive and a summary across the years.
+ * Totals are written as Excel formulas (with the computed values cached, for viewers that do not recalculate).
+ */
+export const buildWorkbook = (dataByYear: Record<number, SiteData[]>, archivesByYear: Record<number, SiteData[]>, options: WorkbookExportOptions): WorkBook => {
+  const selectedSites = new Set<string>(options.siteIds);
+  const keepSite = (site: SiteData) => selectedSites.has(site.id);
+  const years = [...options.years].sort((a, b) => a - b);
+
+  const wb = utils.book_new();
+  const yearRefs = years.map(year => {
+    const { draft, refs } = buildYearDraft((dataByYear[year] || []).filter(keepSite), year, options.periods);
+    utils.book_append_sheet(wb, toSheet(draft, yearSheetCols(options.periods)), yearSheetName(year));
+    return { year, refs };
+  });
+
+  // Every selected site once, in its latest version (active or archived)
+  const sites = new Map<string, SiteData>();
+  years.forEach(year => [...(dataByYear[year] || []), ...(archivesByYear[year] || [])].filter(keepSite).forEach(site => sites.set(site.id, site)));
+
+  if (options.includeArchive) utils.book_append_sheet(wb, buildArchiveSheet(archivesByYear, years, keepSite), ARCHIVE_SHEET_NAME);
+  if (options.includeSummary) utils.book_append_sheet(wb, buildSummarySheet(yearRefs), SUMMARY_SHEET_NAME);
+  utils.book_append_sheet(wb, buildSiteDetailsSheet([...sites.values()]), SITE_DETAILS_SHEET_NAME);
+  return wb;
+};